@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { getMessages } from './i18n';
+import { InvalidOutputError, OverloadedError } from './errors';
+import { MOCK_ANALYSIS, MOCK_QUESTIONS } from './providers/mockProvider';
+import { stubModel } from './test/stubProvider';
+
+vi.mock('./providers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./providers')>();
+  const { stubModel } = await import('./test/stubProvider');
+  return { ...actual, createProvider: () => stubModel.provider };
+});
+
+// jsdom의 navigator.language가 en-US이므로 화면은 영어로 표시됩니다.
+const t = getMessages('en');
+const TOPIC = '이직 제안을 받아들일까?';
+const [VALUES, TIMING, RISK, IMPACT, BUDGET, CONCERN] = MOCK_QUESTIONS;
+
+type User = ReturnType<typeof userEvent.setup>;
+
+const lastRequest = (task: string) => stubModel.requests.filter(request => request.task === task).at(-1)!;
+
+const questionHeading = () => screen.getByRole('heading', { level: 2 });
+
+const startQuestions = async (user: User) => {
+  await user.type(screen.getByPlaceholderText(t.app.start.placeholder), TOPIC);
+  await user.click(screen.getByRole('button', { name: t.app.start.generate }));
+  await user.click(await screen.findByRole('button', { name: t.editor.confirm }));
+  expect(questionHeading()).toHaveProperty('textContent', VALUES.text);
+};
+
+const next = (user: User) => user.click(screen.getByRole('button', { name: t.app.answering.next }));
+
+const answerAll = async (user: User) => {
+  await user.click(screen.getByRole('checkbox', { name: VALUES.options[0] }));
+  await next(user);
+  for (const question of [TIMING, RISK, IMPACT]) {
+    await user.click(screen.getByRole('radio', { name: question.options[1] }));
+    await next(user);
+  }
+  await user.type(screen.getByRole('spinbutton'), '300');
+  await next(user);
+  expect(questionHeading()).toHaveProperty('textContent', CONCERN.text);
+  await user.type(screen.getByPlaceholderText(t.question.textPlaceholder), '연봉은 오르지만 통근 시간이 두 배가 됩니다.');
+  await user.click(screen.getByRole('button', { name: t.app.answering.finish }));
+};
+
+// 스트리밍 중에도 추천 제목은 미리 보이므로, 결과 화면에만 있는 추가 요청 입력창이 나올 때까지 기다립니다.
+const waitForResult = () => screen.findByPlaceholderText(t.app.result.refinePlaceholder);
+
+const showResult = async (user: User) => {
+  render(<App />);
+  await startQuestions(user);
+  await answerAll(user);
+  await waitForResult();
+};
+
+beforeEach(() => {
+  stubModel.reset();
+  localStorage.clear();
+  window.scrollTo = vi.fn();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('결정 흐름', () => {
+  it('질문에 답하고 최종 보고서를 받습니다', async () => {
+    const user = userEvent.setup();
+    await showResult(user);
+
+    expect(screen.getByRole('heading', { name: MOCK_ANALYSIS.finalRecommendation })).toBeTruthy();
+    expect(screen.getByText(MOCK_ANALYSIS.summary)).toBeTruthy();
+    expect(stubModel.requests.map(request => request.task)).toEqual(['questions', 'consistency', 'analysis']);
+    const { prompt } = lastRequest('analysis');
+    expect(prompt).toContain(`<user_input name="topic">\n${TOPIC}\n</user_input>`);
+    expect(prompt).toContain('연봉은 오르지만 통근 시간이 두 배가 됩니다.');
+  });
+
+  it('이전·다음으로 오가도 답변이 남아 있습니다', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await startQuestions(user);
+
+    expect(screen.getByRole('button', { name: t.app.answering.next })).toHaveProperty('disabled', true);
+    await user.click(screen.getByRole('checkbox', { name: VALUES.options[1] }));
+    await next(user);
+    await user.click(screen.getByRole('radio', { name: TIMING.options[2] }));
+    await next(user);
+    expect(questionHeading()).toHaveProperty('textContent', RISK.text);
+
+    await user.click(screen.getByRole('button', { name: t.app.answering.prev }));
+    expect(questionHeading()).toHaveProperty('textContent', TIMING.text);
+    expect(screen.getByRole('radio', { name: TIMING.options[2] }).getAttribute('aria-checked')).toBe('true');
+    await user.click(screen.getByRole('button', { name: t.app.answering.prev }));
+    expect(screen.getByRole('checkbox', { name: VALUES.options[1] }).getAttribute('aria-checked')).toBe('true');
+    expect(screen.getByRole('button', { name: t.app.answering.prev })).toHaveProperty('disabled', true);
+
+    await next(user);
+    await next(user);
+    expect(questionHeading()).toHaveProperty('textContent', RISK.text);
+    expect(RISK.options.map(option => screen.getByRole('radio', { name: option }).getAttribute('aria-checked'))).toEqual(RISK.options.map(() => 'false'));
+  });
+
+  it('추가 요청을 반영해 다시 분석합니다', async () => {
+    const user = userEvent.setup();
+    await showResult(user);
+
+    const insight = '예산을 우선하면 작은 범위로 시작하는 편이 더 분명하게 유리합니다.';
+    stubModel.reply('analysis', JSON.stringify({ ...MOCK_ANALYSIS, refinedInsight: insight }));
+    await user.type(screen.getByPlaceholderText(t.app.result.refinePlaceholder), '예산이 속도보다 중요합니다');
+    await user.click(screen.getByRole('button', { name: t.app.result.refine }));
+
+    await waitFor(() => expect(screen.getByPlaceholderText(t.app.result.refinePlaceholder)).toHaveProperty('value', ''));
+    expect(screen.getByText(insight)).toBeTruthy();
+    expect(lastRequest('analysis').prompt).toContain('<user_input name="request">\n예산이 속도보다 중요합니다\n</user_input>');
+  });
+
+  it('대안을 골라 분석하고, 이미 본 추천으로는 다시 요청하지 않고 돌아갑니다', async () => {
+    const user = userEvent.setup();
+    await showResult(user);
+
+    const [alternative, other] = MOCK_ANALYSIS.alternatives;
+    stubModel.reply('analysis', JSON.stringify({
+      ...MOCK_ANALYSIS,
+      finalRecommendation: alternative.title,
+      alternatives: [{ title: MOCK_ANALYSIS.finalRecommendation, summary: MOCK_ANALYSIS.summary, whyThis: '위험을 줄이고 싶다면' }, other]
+    }));
+    await user.click(screen.getAllByRole('button', { name: t.app.result.analyzeAlternative })[0]);
+
+    await screen.findByRole('button', { name: t.app.result.viewPinned });
+    expect(screen.getByRole('heading', { name: alternative.title })).toBeTruthy();
+    expect(lastRequest('analysis').prompt).toContain(`<user_input name="alternative">\n${alternative.title}\n</user_input>`);
+
+    const requestCount = stubModel.requests.length;
+    await user.click(screen.getByRole('button', { name: t.app.result.viewPinned }));
+    expect(await screen.findByRole('heading', { name: MOCK_ANALYSIS.finalRecommendation })).toBeTruthy();
+    expect(stubModel.requests).toHaveLength(requestCount);
+  });
+
+  it('대안 분석의 추천 제목이 대안 제목과 달라도, 연 대안은 다시 요청하지 않고 오갑니다', async () => {
+    const user = userEvent.setup();
+    await showResult(user);
+
+    const [alternative, other] = MOCK_ANALYSIS.alternatives;
+    const reworded = `${alternative.title} (단계적으로)`;
+    stubModel.reply('analysis', JSON.stringify({
+      ...MOCK_ANALYSIS,
+      finalRecommendation: reworded,
+      alternatives: [{ title: MOCK_ANALYSIS.finalRecommendation, summary: MOCK_ANALYSIS.summary, whyThis: '위험을 줄이고 싶다면' }, other]
+    }));
+    await user.click(screen.getAllByRole('button', { name: t.app.result.analyzeAlternative })[0]);
+    expect(await screen.findByRole('heading', { name: reworded })).toBeTruthy();
+
+    const requestCount = stubModel.requests.length;
+    await user.click(screen.getByRole('button', { name: t.app.result.viewPinned }));
+    expect(await screen.findByRole('heading', { name: MOCK_ANALYSIS.finalRecommendation })).toBeTruthy();
+    await user.click(screen.getByRole('button', { name: t.app.result.viewPinned }));
+    expect(await screen.findByRole('heading', { name: reworded })).toBeTruthy();
+    expect(stubModel.requests).toHaveLength(requestCount);
+  });
+});
+
+describe('오류 배너와 복구', () => {
+  it('질문 생성에 실패하면 안내를 보여주고, 다시 시도하면 이어서 진행합니다', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    stubModel.reply('questions', new InvalidOutputError('broken'));
+
+    await user.type(screen.getByPlaceholderText(t.app.start.placeholder), TOPIC);
+    await user.click(screen.getByRole('button', { name: t.app.start.generate }));
+    expect(await screen.findByText(t.errors.kinds.invalidOutput)).toBeTruthy();
+    expect(screen.getByPlaceholderText(t.app.start.placeholder)).toHaveProperty('value', TOPIC);
+
+    await user.click(screen.getByRole('button', { name: t.errors.retry }));
+    expect(await screen.findByRole('button', { name: t.editor.confirm })).toBeTruthy();
+    expect(screen.queryByText(t.errors.kinds.invalidOutput)).toBeNull();
+  });
+
+  it('분석에 실패하면 답변을 유지한 채 답변 화면으로 돌아가고, 다시 시도하면 보고서를 받습니다', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await startQuestions(user);
+    // 재시도할 수 있는 오류를 모두 소진해 화면까지 올라오게 합니다.
+    stubModel.reply('analysis', new OverloadedError('busy', 0), new OverloadedError('busy', 0), new OverloadedError('busy', 0));
+    await answerAll(user);
+
+    const banner = (await screen.findByText(t.errors.kinds.overloaded)).closest('div.animate-shake') as HTMLElement;
+    expect(questionHeading()).toHaveProperty('textContent', CONCERN.text);
+    expect(screen.getByPlaceholderText(t.question.textPlaceholder)).toHaveProperty('value', '연봉은 오르지만 통근 시간이 두 배가 됩니다.');
+
+    await user.click(within(banner).getByRole('button', { name: t.errors.retry }));
+    await waitForResult();
+    expect(screen.getByRole('heading', { name: MOCK_ANALYSIS.finalRecommendation })).toBeTruthy();
+  });
+});
@@ -1,7 +1,43 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppStage, Question } from './types';
-import { generateQuestions, analyzeDecision, AnalysisResult } from './geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppStage, Question, AnalysisResult, Answer, Attachment, ChatMessage, DecisionOutcome, DecisionRecord, DecisionState, StepTask, DecisionTemplate, AdaptiveProgress, AnalysisVersion, VersionTrigger, Language, Participant, ConsistencyIssue } from './types';
+import { generateQuestions, generateQuestionRound, regenerateQuestion, extendQuestions, checkConsistency, analyzeDecision, analyzeGroupDecision, compareOptions, askFollowUp, isAbortError } from './geminiService';
+import { MAX_QUESTIONS } from './validation';
+import { getProviderSettings, setProviderSettings, ProviderSettings } from './providers';
+import { createDecisionId, deleteDecision, listDecisions, renameDecision, saveDecision, SaveOutcome } from './historyStore';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import DecisionHistory from './components/DecisionHistory';
+import QuestionInput from './components/QuestionInput';
+import ComparisonMatrix from './components/ComparisonMatrix';
+import PinnedAnalysesBar from './components/PinnedAnalysesBar';
+import VersionHistory from './components/VersionHistory';
+import ExportMenu from './components/ExportMenu';
+import StreamingAnalysisPreview from './components/StreamingAnalysisPreview';
+import ErrorBanner, { AppError } from './components/ErrorBanner';
+import ParticipantBar from './components/ParticipantBar';
+import GroupAgreementPanel from './components/GroupAgreementPanel';
+import QuestionEditor from './components/QuestionEditor';
+import TemplateLibrary from './components/TemplateLibrary';
+import ScoreBreakdownPanel from './components/ScoreBreakdownPanel';
+import ConsistencyReview from './components/ConsistencyReview';
+import ChatPanel from './components/ChatPanel';
+import InputSafetyNotice from './components/InputSafetyNotice';
+import OutcomePanel from './components/OutcomePanel';
+import RetrospectivePanel from './components/RetrospectivePanel';
+import NextStepsChecklist from './components/NextStepsChecklist';
+import AttachmentPanel from './components/AttachmentPanel';
+import { classifyError, InvalidOutputError, QuotaError } from './errors';
+import { AttachmentError } from './attachments';
+import { DEFAULT_LANGUAGE, getMessages, getPreferredLanguage, I18nContext, LANGUAGES, setPreferredLanguage } from './i18n';
+import { downloadFile, ImportedSession, ImportError, parseAnswerSheet, parseSessionFile, readShareFragment, toAnswerSheetJSON, toFilename } from './sessionExport';
+import { isAnswered } from './answers';
+import { remapAnswers, renumberQuestions } from './questionSet';
+import { computeScores, findDisagreement, normalizeTitle } from './scoring';
+import { findLowInformationAnswers, mergeIssues } from './consistency';
+import { deleteTemplate, importTemplate, listTemplates, saveTemplate, toTemplateJSON } from './templateStore';
+import { hasModifier, isTypingTarget } from './keyboard';
+import { getReducedMotion, setReducedMotion } from './motion';
+import { MAX_REFINEMENT_LENGTH, MAX_TOPIC_LENGTH, sanitizeUserText } from './promptSafety';
 
 declare global {
   interface AIStudio {
@@ -17,100 +53,595 @@ const App: React.FC = () => {
   const [stage, setStage] = useState<AppStage>(AppStage.START);
   const [topic, setTopic] = useState('');
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [answers, setAnswers] = useState<Record<number, Answer>>({});
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
   const [additionalInput, setAdditionalInput] = useState('');
   const [isRefining, setIsRefining] = useState(false);
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [history, setHistory] = useState<DecisionRecord[]>(listDecisions);
+  const [storageNotice, setStorageNotice] = useState<Exclude<SaveOutcome, 'saved'> | null>(null);
+  const [adaptiveMode, setAdaptiveMode] = useState(false);
+  const [adaptive, setAdaptive] = useState<AdaptiveProgress | undefined>(undefined);
+  const [isLoadingRound, setIsLoadingRound] = useState(false);
+  const [pinned, setPinned] = useState<number[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [versions, setVersions] = useState<AnalysisVersion[]>([]);
+  const [partialAnalysis, setPartialAnalysis] = useState<Partial<AnalysisResult> | null>(null);
+  const [partialQuestions, setPartialQuestions] = useState<string[]>([]);
+  const [language, setLanguage] = useState<Language>(getPreferredLanguage);
+  const [groupMode, setGroupMode] = useState(false);
+  const [participantNames, setParticipantNames] = useState('');
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [activeParticipantId, setActiveParticipantId] = useState<string | null>(null);
+  const [consistencyIssues, setConsistencyIssues] = useState<ConsistencyIssue[]>([]);
+  const [templates, setTemplates] = useState<DecisionTemplate[]>(() => listTemplates(language));
+  const [reducedMotion, setReducedMotionState] = useState(getReducedMotion);
+  /** 마지막 분석이 캐시에서 나왔다면 그 결과와 원래 분석 시각 */
+  const [cachedResult, setCachedResult] = useState<{ analysis: AnalysisResult; cachedAt: number } | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [chatReply, setChatReply] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<DecisionOutcome | undefined>(undefined);
+  const [tasks, setTasks] = useState<StepTask[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const mainRef = useRef<HTMLElement>(null);
+  const questionHeadingRef = useRef<HTMLHeadingElement>(null);
+  const refiningDialogRef = useRef<HTMLDivElement>(null);
+  const t = getMessages(language);
 
-  // 질문이 바뀌거나 단계가 바뀔 때 화면 상단으로 부드럽게 이동
+  // 그룹 세션에서는 지금 답하고 있는 참여자의 답변을 화면에 보여줍니다.
+  const isGroup = participants.length > 0;
+  const activeParticipant = participants.find(p => p.id === activeParticipantId) ?? participants[0];
+  const currentAnswers = isGroup ? activeParticipant.answers : answers;
+  const parsedNames = Array.from(new Set(participantNames.split(/[,\n]/).map(name => name.trim()).filter(Boolean)));
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    setTemplates(listTemplates(language));
+  }, [language]);
+
+  // 질문이 바뀌거나 단계가 바뀔 때 화면 상단으로 이동하고, 스크린 리더가 새 내용부터 읽도록 포커스를 옮깁니다.
+  // 처음 열 때는 포커스를 건드리지 않습니다.
+  const hasNavigated = useRef(false);
   useEffect(() => {
-    window.scrollTo({ top: 0, behavior: 'smooth' });
+    window.scrollTo({ top: 0, behavior: reducedMotion ? 'auto' : 'smooth' });
+    if (!hasNavigated.current) {
+      hasNavigated.current = true;
+      return;
+    }
+    const target = stage === AppStage.ANSWERING ? questionHeadingRef.current : mainRef.current;
+    target?.focus({ preventScroll: true });
   }, [currentIndex, stage]);
 
+  // 답변 중에는 Enter 또는 → 로 다음 질문, ← 로 이전 질문으로 이동합니다.
+  useEffect(() => {
+    if (stage !== AppStage.ANSWERING || showSettings) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || hasModifier(event) || isTypingTarget(event.target)) return;
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      const question = questions[currentIndex];
+      const canAdvance = !!question && !isLoadingRound && isAnswered(question, currentAnswers[question.id]);
+      if (event.key === 'Enter') {
+        // 선택지 위에서 누른 Enter는 다음으로 넘기고, 다른 버튼과 링크는 원래 동작을 그대로 둡니다.
+        const onChoice = !!target?.matches('[role="radio"], [role="checkbox"]');
+        if (!onChoice && target?.closest('button, a, summary')) return;
+        event.preventDefault();
+        if (canAdvance) handleNext();
+      } else if (event.key === 'ArrowRight' || event.key === 'ArrowLeft') {
+        if (target instanceof HTMLInputElement && target.type === 'range') return;
+        event.preventDefault();
+        if (event.key === 'ArrowLeft') handlePrev();
+        else if (canAdvance) handleNext();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // 심층 분석 중에는 취소 버튼으로 포커스를 옮기고, 끝나면 원래 있던 곳으로 돌려줍니다.
+  useEffect(() => {
+    if (!isRefining) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    refiningDialogRef.current?.querySelector<HTMLElement>('button')?.focus();
+    return () => previous?.focus({ preventScroll: true });
+  }, [isRefining]);
+
+  /** 심층 분석 대화상자 안에서만 Tab이 돌도록 하고, Esc로 취소합니다. */
+  const handleRefiningKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      cancelRequest();
+      return;
+    }
+    if (event.key !== 'Tab') return;
+    const focusable = Array.from(event.currentTarget.querySelectorAll<HTMLElement>('button, [href], [tabindex]:not([tabindex="-1"])'));
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  const toggleReducedMotion = () => {
+    setReducedMotion(!reducedMotion);
+    setReducedMotionState(!reducedMotion);
+  };
+
+  /** 저장 공간이 모자라 기록을 줄였거나 저장하지 못했으면 목록을 다시 읽고 사용자에게 알립니다. */
+  const reportSave = (outcome: SaveOutcome) => {
+    if (outcome === 'saved') return;
+    setHistory(listDecisions());
+    setStorageNotice(outcome);
+  };
+
+  // 진행 중인 세션은 답변이나 분석 결과가 바뀔 때마다 로컬에 저장
+  useEffect(() => {
+    if (!sessionId || questions.length === 0) return;
+    reportSave(saveDecision(sessionId, { topic, questions, answers, currentStep: currentIndex, result: analysis, adaptive, pinned, versions, language, ...(isGroup && { participants }), ...(chat.length > 0 && { chat }), ...(outcome && { outcome }), ...(tasks.length > 0 && { tasks }), ...(attachments.length > 0 && { attachments }) }));
+  }, [sessionId, topic, questions, answers, currentIndex, analysis, adaptive, pinned, versions, language, participants, chat, outcome, tasks, attachments]);
+
+  // 공유 링크(#s=...)로 들어온 경우 해당 세션을 새 기록으로 저장하고 바로 엽니다.
+  // StrictMode에서 effect가 두 번 실행되어도 한 번만 가져오도록 ref로 막습니다.
+  const shareLinkHandled = useRef(false);
+  useEffect(() => {
+    if (shareLinkHandled.current) return;
+    shareLinkHandled.current = true;
+    readShareFragment(window.location.hash)
+      .then(imported => {
+        if (!imported) return;
+        importSession(imported);
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      })
+      .catch(err => handleError(err, t.app.failures.shareLink));
+  }, []);
+
   const handleOpenKeySelector = async () => {
     if (window.aistudio) {
       await window.aistudio.openSelectKey();
       setError(null);
+    } else {
+      // AI Studio 밖에서는 키 선택기가 없으므로 모델 설정 패널을 엽니다.
+      setShowSettings(true);
     }
   };
 
+  // 고른 언어는 새 세션의 기본값이 되고, 진행 중인 세션에도 함께 저장되어 이후 질문과 분석에 쓰입니다.
+  const handleChangeLanguage = (next: Language) => {
+    setLanguage(next);
+    setPreferredLanguage(next);
+  };
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    setProviderSettingsState(settings);
+    setShowSettings(false);
+    setError(null);
+  };
+
+  /**
+   * 취소할 수 있는 새 요청을 시작합니다. 이전 요청이 남아 있으면 먼저 중단합니다.
+   */
+  const beginRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  // 취소된 요청은 각 호출부의 catch에서 AbortError로 받아 이전 단계로 되돌립니다.
+  const cancelRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  // 질문지가 준비된 새 세션의 id와 참여자를 만듭니다.
+  const beginSession = () => {
+    const group = groupMode ? parsedNames.map(name => ({ id: createDecisionId(), name, answers: {} })) : [];
+    setParticipants(group);
+    setActiveParticipantId(group[0]?.id ?? null);
+    setSessionId(createDecisionId());
+    setCurrentIndex(0);
+  };
+
   const startDecisionProcess = async () => {
-    if (!topic.trim()) return;
+    if (!topic.trim() || (groupMode && parsedNames.length === 0)) return;
     setError(null);
     setStage(AppStage.GENERATING_QUESTIONS);
-    setLoadingMessage('당신의 고민에 꼭 필요한 핵심 질문들을 생성 중입니다...');
+    setLoadingMessage(t.app.loading.questions);
+    setPartialQuestions([]);
+    const signal = beginRequest();
     
     try {
-      const generated = await generateQuestions(topic);
-      setQuestions(generated);
-      setStage(AppStage.ANSWERING);
-      setCurrentIndex(0);
+      // 그룹 모드에서는 모두가 같은 질문지에 답해야 하므로 적응형 질문을 쓰지 않습니다.
+      if (adaptiveMode && !groupMode) {
+        const round = await generateQuestionRound(topic, [], {}, 0, { signal, language, attachments, onPartial: setPartialQuestions });
+        if (round.questions.length === 0) throw new InvalidOutputError(t.app.failures.firstRoundEmpty);
+        setQuestions(round.questions);
+        setAdaptive({ round: 1, done: round.done, estimatedRemaining: round.estimatedRemaining });
+      } else {
+        const generated = await generateQuestions(topic, { signal, language, attachments, onPartial: setPartialQuestions });
+        setQuestions(generated);
+        setAdaptive(undefined);
+      }
+      beginSession();
+      // 적응형 질문은 라운드마다 새로 만들어지므로 미리 편집하지 않습니다.
+      setStage(adaptiveMode && !groupMode ? AppStage.ANSWERING : AppStage.EDITING_QUESTIONS);
     } catch (err: any) {
-      handleError(err, '질문 생성 중 문제가 발생했습니다.');
+      handleError(err, t.app.failures.questions, startDecisionProcess);
       setStage(AppStage.START);
+    } finally {
+      setPartialQuestions([]);
+    }
+  };
+
+  /**
+   * 질문 생성 대신 템플릿의 질문지로 시작합니다. extend이면 이번 주제에 필요한 질문을 모델이 덧붙입니다.
+   */
+  const startFromTemplate = async (template: DecisionTemplate, extend: boolean) => {
+    if (!topic.trim() || (groupMode && parsedNames.length === 0)) return;
+    setError(null);
+    let initial = template.questions;
+    if (extend) {
+      setStage(AppStage.GENERATING_QUESTIONS);
+      setLoadingMessage(t.app.loading.extending);
+      try {
+        initial = [...template.questions, ...await extendQuestions(topic, template.questions, { signal: beginRequest(), language, attachments })];
+      } catch (err: any) {
+        handleError(err, t.app.failures.extend, () => startFromTemplate(template, extend));
+        setStage(AppStage.START);
+        return;
+      }
+    }
+    setQuestions(initial);
+    setAdaptive(undefined);
+    beginSession();
+    setStage(AppStage.EDITING_QUESTIONS);
+  };
+
+  const handleSaveTemplate = (draft: Question[], name: string) => {
+    saveTemplate(name, draft, { description: topic, language });
+    setTemplates(listTemplates(language));
+  };
+
+  const handleExportTemplate = (template: DecisionTemplate) => {
+    downloadFile(`${toFilename(template.name)}.template.json`, toTemplateJSON(template), 'application/json');
+  };
+
+  const handleImportTemplate = async (file: File) => {
+    setError(null);
+    try {
+      importTemplate(await file.text());
+      setTemplates(listTemplates(language));
+    } catch (err: any) {
+      handleError(err, t.app.failures.importTemplate);
+    }
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    deleteTemplate(id);
+    setTemplates(listTemplates(language));
+  };
+
+  // 편집한 질문지는 id를 다시 매기고, 내용이 그대로인 질문의 답변만 새 id로 옮깁니다.
+  const handleConfirmQuestions = (edited: Question[]) => {
+    const { questions: next, idMap } = renumberQuestions(edited, questions);
+    setQuestions(next);
+    setAnswers(prev => remapAnswers(prev, idMap));
+    setParticipants(prev => prev.map(p => ({ ...p, answers: remapAnswers(p.answers, idMap) })));
+    setCurrentIndex(0);
+    setStage(AppStage.ANSWERING);
+  };
+
+  const handleRegenerateQuestion = async (draft: Question[], questionId: number): Promise<Question | null> => {
+    setError(null);
+    try {
+      return await regenerateQuestion(topic, draft, questionId, { signal: beginRequest(), language });
+    } catch (err: any) {
+      handleError(err, t.app.failures.regenerate);
+      return null;
+    }
+  };
+
+  const handleAnswer = (answer: Answer) => {
+    const questionId = questions[currentIndex].id;
+    if (isGroup) {
+      setParticipants(prev => prev.map(p => p.id === activeParticipant.id ? { ...p, answers: { ...p.answers, [questionId]: answer } } : p));
+    } else {
+      setAnswers(prev => ({ ...prev, [questionId]: answer }));
     }
   };
 
-  const handleAnswer = (option: string) => {
-    setAnswers(prev => ({ ...prev, [questions[currentIndex].id]: option }));
+  // 그룹 모드에서 한 사람이 질문지를 끝내면 다음 참여자가 처음부터 답합니다.
+  const nextParticipant = isGroup ? participants[participants.indexOf(activeParticipant) + 1] : undefined;
+
+  const selectParticipant = (id: string) => {
+    setActiveParticipantId(id);
+    setCurrentIndex(0);
+  };
+
+  const addParticipant = (name: string) => {
+    if (participants.some(p => p.name === name)) return;
+    setParticipants(prev => [...prev, { id: createDecisionId(), name, answers: {} }]);
+  };
+
+  const handleExportAnswerSheet = () => {
+    downloadFile(`${toFilename(topic)}.answers.json`, toAnswerSheetJSON(currentSession), 'application/json');
   };
 
+  // 같은 이름의 참여자는 가져온 답변으로 바꾸고, 새 이름은 참여자로 추가합니다.
+  const handleImportAnswerSheet = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseAnswerSheet(await file.text(), questions);
+      setParticipants(prev => {
+        const merged = prev.map(p => {
+          const match = imported.find(item => item.name === p.name);
+          return match ? { ...p, answers: match.answers } : p;
+        });
+        const added = imported
+          .filter(item => !prev.some(p => p.name === item.name))
+          .map(item => ({ ...item, id: createDecisionId() }));
+        return [...merged, ...added];
+      });
+    } catch (err: any) {
+      handleError(err, t.app.failures.importSheet);
+    }
+  };
+
+  const canAskMore = !!adaptive && !adaptive.done && questions.length < MAX_QUESTIONS;
+
   const handleNext = () => {
     if (currentIndex < questions.length - 1) {
       setCurrentIndex(prev => prev + 1);
+    } else if (nextParticipant) {
+      selectParticipant(nextParticipant.id);
+    } else if (canAskMore) {
+      loadNextRound();
     } else {
       finishAnswering();
     }
   };
 
+  /**
+   * 적응형 모드에서 현재 라운드를 다 답하면 지금까지의 답변으로 다음 라운드를 요청합니다.
+   * 모델이 더 물을 것이 없다고 판단하면 곧바로 분석으로 넘어갑니다.
+   */
+  const loadNextRound = async () => {
+    if (!adaptive) return;
+    setIsLoadingRound(true);
+    setError(null);
+    setPartialQuestions([]);
+    try {
+      const round = await generateQuestionRound(topic, questions, answers, adaptive.round, { signal: beginRequest(), language, attachments, onPartial: setPartialQuestions });
+      const pruned = new Set(round.prunedQuestionIds);
+      const kept = questions.filter(q => !pruned.has(q.id));
+      const keptAnswers = Object.fromEntries(Object.entries(answers).filter(([id]) => !pruned.has(Number(id))));
+      const nextQuestions = [...kept, ...round.questions];
+      const done = round.done || round.questions.length === 0 || nextQuestions.length >= MAX_QUESTIONS;
+
+      setQuestions(nextQuestions);
+      setAnswers(keptAnswers);
+      setAdaptive({ round: adaptive.round + 1, done, estimatedRemaining: done ? 0 : round.estimatedRemaining });
+      if (round.questions.length > 0) {
+        setCurrentIndex(kept.length);
+      } else {
+        setCurrentIndex(Math.max(0, nextQuestions.length - 1));
+        finishAnswering(nextQuestions, keptAnswers);
+      }
+    } catch (err: any) {
+      // 취소하면 지금 라운드에 그대로 머물러 답변을 고치거나 다시 요청할 수 있습니다.
+      if (!isAbortError(err)) handleError(err, t.app.failures.round, loadNextRound);
+    } finally {
+      setIsLoadingRound(false);
+      setPartialQuestions([]);
+    }
+  };
+
   const handlePrev = () => {
     if (currentIndex > 0) {
       setCurrentIndex(prev => prev - 1);
     }
   };
 
-  const finishAnswering = async () => {
+  /**
+   * 새로 받은 분석을 화면에 표시하고, 어떤 입력으로 만들어졌는지와 함께 버전으로 남깁니다.
+   */
+  const recordVersion = (result: AnalysisResult, trigger: VersionTrigger) => {
+    setVersions(prev => [...prev, { id: prev.length + 1, analysis: result, trigger, createdAt: Date.now() }]);
+    setAnalysis(result);
+  };
+
+  /**
+   * 그룹 세션이면 답변한 참여자 모두의 답으로 합의안을, 아니면 한 사람의 답으로 분석을 요청합니다.
+   * 같은 입력을 이미 분석했다면 캐시된 결과를 받으며, fresh이면 캐시를 건너뜁니다.
+   */
+  const requestAnalysis = async (
+    finalQuestions: Question[],
+    finalAnswers: Record<number, Answer>,
+    additional: string | undefined,
+    targetAlternative: string | undefined,
+    signal: AbortSignal,
+    fresh = false
+  ) => {
+    const hit: { cachedAt?: number } = {};
+    const options = { signal, language, attachments, onPartial: setPartialAnalysis, fresh, onCached: (cachedAt: number) => { hit.cachedAt = cachedAt; } };
+    const respondents = participants.filter(p => Object.keys(p.answers).length > 0);
+    const result = isGroup
+      ? await analyzeGroupDecision(topic, finalQuestions, respondents, additional, targetAlternative, options)
+      : await analyzeDecision(topic, finalQuestions, finalAnswers, additional, targetAlternative, options);
+    setCachedResult(hit.cachedAt === undefined ? null : { analysis: result, cachedAt: hit.cachedAt });
+    return result;
+  };
+
+  /**
+   * 지금 보고 있는 분석을 만든 입력 그대로 캐시를 건너뛰고 다시 분석합니다.
+   */
+  const refreshAnalysis = async () => {
+    const trigger: VersionTrigger = versions.find(v => v.analysis === analysis)?.trigger ?? { kind: 'initial' };
+    setIsRefining(true);
+    setError(null);
+    const signal = beginRequest();
+    try {
+      const result = await requestAnalysis(
+        questions,
+        answers,
+        trigger.kind === 'refinement' ? trigger.input : undefined,
+        trigger.kind === 'alternative' ? trigger.title : undefined,
+        signal,
+        true
+      );
+      recordVersion(result, trigger);
+    } catch (err: any) {
+      handleError(err, t.app.failures.analysis, refreshAnalysis);
+    } finally {
+      setIsRefining(false);
+      setPartialAnalysis(null);
+    }
+  };
+
+  /**
+   * 로컬 점검과 모델 점검 결과를 합칩니다. 모델 점검이 실패해도 분석을 막지 않도록 로컬 결과만 돌려줍니다.
+   */
+  const reviewAnswers = async (finalQuestions: Question[], finalAnswers: Record<number, Answer>, signal: AbortSignal) => {
+    const local = findLowInformationAnswers(finalQuestions, finalAnswers, language);
+    try {
+      return mergeIssues(local, await checkConsistency(topic, finalQuestions, finalAnswers, { signal, language }));
+    } catch (err: any) {
+      if (!isAbortError(err)) console.warn("답변 점검에 실패해 로컬 점검 결과만 사용합니다.", err);
+      return local;
+    }
+  };
+
+  const finishAnswering = async (finalQuestions = questions, finalAnswers = answers, reviewed = false) => {
     setError(null);
     setStage(AppStage.ANALYZING);
-    setLoadingMessage('제공하신 답변들을 정밀 분석하여 최적의 해답을 도출 중입니다...');
+    const signal = beginRequest();
+    // 그룹 세션은 참여자 간 차이를 그룹 분석이 직접 다루므로 한 사람의 답변만 미리 점검합니다.
+    if (!reviewed && !isGroup) {
+      setLoadingMessage(t.consistency.checking);
+      const issues = await reviewAnswers(finalQuestions, finalAnswers, signal);
+      if (signal.aborted) {
+        setStage(AppStage.ANSWERING);
+        return;
+      }
+      if (issues.length > 0) {
+        setConsistencyIssues(issues);
+        setStage(AppStage.REVIEWING_ANSWERS);
+        return;
+      }
+    }
+    setLoadingMessage(t.app.loading.analysis);
     try {
-      const result = await analyzeDecision(topic, questions, answers);
-      setAnalysis(result);
+      const result = await requestAnalysis(finalQuestions, finalAnswers, undefined, undefined, signal);
+      recordVersion(result, { kind: 'initial' });
       setStage(AppStage.RESULT);
     } catch (err: any) {
-      handleError(err, '최종 분석 중 문제가 발생했습니다.');
+      // 취소나 실패 시 답변 화면으로 돌아가 답변을 유지한 채 다시 시도할 수 있게 합니다.
+      setStage(AppStage.ANSWERING);
+      handleError(err, t.app.failures.analysis, () => finishAnswering(finalQuestions, finalAnswers, true));
+    } finally {
+      setPartialAnalysis(null);
     }
   };
 
-  const handleRefineAnalysis = async () => {
-    if (!additionalInput.trim()) return;
+  const revisitQuestion = (questionId: number) => {
+    setCurrentIndex(Math.max(0, questions.findIndex(q => q.id === questionId)));
+    setStage(AppStage.ANSWERING);
+  };
+
+  /**
+   * 추가 요청을 반영해 보고서 전체를 다시 분석합니다. 성공하면 true를 반환합니다.
+   */
+  const refineAnalysis = async (input: string): Promise<boolean> => {
     setIsRefining(true);
     setError(null);
+    const signal = beginRequest();
     try {
-      const result = await analyzeDecision(topic, questions, answers, additionalInput);
-      setAnalysis(result);
-      setAdditionalInput('');
+      const result = await requestAnalysis(questions, answers, input, undefined, signal);
+      recordVersion(result, { kind: 'refinement', input: input.trim() });
+      return true;
     } catch (err: any) {
-      handleError(err, '심층 분석 중 문제가 발생했습니다.');
+      handleError(err, t.app.failures.refine, () => refineAnalysis(input));
+      return false;
     } finally {
       setIsRefining(false);
+      setPartialAnalysis(null);
     }
   };
 
-  const handleError = (err: any, fallback: string) => {
+  const handleRefineAnalysis = async () => {
+    if (!additionalInput.trim()) return;
+    if (await refineAnalysis(additionalInput)) setAdditionalInput('');
+  };
+
+  /**
+   * 지금 보고 있는 보고서에 대한 후속 질문을 보냅니다. 답을 받지 못하면 질문도 대화에서 뺍니다.
+   */
+  const handleAskFollowUp = async (text: string) => {
+    if (!analysis) return;
+    const question: ChatMessage = { role: 'user', text, createdAt: Date.now() };
+    const history = chat;
+    setChat(prev => [...prev, question]);
+    setChatReply('');
+    setError(null);
+    const signal = beginRequest();
+    try {
+      const respondents = participants.filter(p => Object.keys(p.answers).length > 0);
+      const reply = await askFollowUp(topic, questions, answers, analysis, history, text, {
+        signal,
+        language,
+        attachments,
+        onPartial: setChatReply,
+        ...(isGroup && { participants: respondents })
+      });
+      setChat(prev => [...prev, { role: 'assistant', text: reply, createdAt: Date.now() }]);
+    } catch (err: any) {
+      setChat(prev => prev.filter(message => message !== question));
+      handleError(err, t.app.failures.followUp, () => handleAskFollowUp(text));
+    } finally {
+      setChatReply(null);
+    }
+  };
+
+  /** 메시지 키를 실은 입력 파일 오류를 화면 언어의 문구로 바꿉니다. 해당하지 않으면 null입니다. */
+  const describeInputError = (err: unknown): string | null => {
+    if (err instanceof AttachmentError) return t.errors.attachment[err.key](err.params);
+    if (err instanceof ImportError) return t.errors.import[err.key](err.params);
+    return null;
+  };
+
+  /**
+   * 서비스 계층의 오류 종류에 따라 안내 문구와 복구 동작(다시 시도, 키 설정)을 정합니다.
+   */
+  const handleError = (err: any, fallback: string, retry?: () => void) => {
+    // 사용자가 직접 취소한 요청은 오류로 표시하지 않습니다.
+    if (isAbortError(err)) return;
     console.error("Application Error:", err);
-    let msg = err.message || fallback;
-    if (msg.includes("Quota") || msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED")) {
-      setError("무료 사용 한도를 초과했습니다. 1분 뒤 다시 시도하거나 유료 API 키를 설정해주세요.");
-    } else {
-      setError(msg);
+    const classified = classifyError(err);
+    // 분류된 오류와 메시지 키를 실은 입력 파일 오류는 화면 언어의 문구로, 그 밖의 오류는 동작별 안내 문구로 보여줍니다.
+    let message = describeInputError(err) ?? (classified.kind === 'unknown' ? fallback : t.errors.kinds[classified.kind]);
+    if (classified instanceof QuotaError && classified.retryAfterMs) {
+      message += ` ${t.errors.retryAfter(Math.ceil(classified.retryAfterMs / 1000))}`;
     }
+    setError({ kind: classified.kind, message, retry });
   };
 
   const resetApp = () => {
+    cancelRequest();
+    setSessionId(null);
+    setAdaptive(undefined);
+    setPinned([]);
+    setVersions([]);
+    setHistory(listDecisions());
     setStage(AppStage.START);
     setTopic('');
     setQuestions([]);
@@ -119,75 +650,281 @@ const App: React.FC = () => {
     setAnalysis(null);
     setError(null);
     setAdditionalInput('');
+    setLanguage(getPreferredLanguage());
+    setParticipants([]);
+    setActiveParticipantId(null);
+    setChat([]);
+    setOutcome(undefined);
+    setTasks([]);
+    setAttachments([]);
+  };
+
+  const openDecision = (record: DecisionRecord) => {
+    setSessionId(record.id);
+    setTopic(record.topic);
+    setQuestions(record.questions);
+    setAnswers(record.answers);
+    setCurrentIndex(Math.min(record.currentStep, record.questions.length - 1));
+    // 이전 버전에서 저장된 기록은 결과 하나를 최초 버전으로 삼습니다.
+    const recordVersions = record.versions ?? (record.result
+      ? [{ id: 1, analysis: record.result, trigger: { kind: 'initial' as const }, createdAt: record.updatedAt }]
+      : []);
+    const resultJSON = JSON.stringify(record.result);
+    setVersions(recordVersions);
+    setAnalysis(recordVersions.find(v => JSON.stringify(v.analysis) === resultJSON)?.analysis ?? record.result);
+    setAdaptive(record.adaptive);
+    setPinned(record.pinned ?? []);
+    setLanguage(record.language ?? DEFAULT_LANGUAGE);
+    setParticipants(record.participants ?? []);
+    setActiveParticipantId(record.participants?.[0]?.id ?? null);
+    setChat(record.chat ?? []);
+    setOutcome(record.outcome);
+    setTasks(record.tasks ?? []);
+    setAttachments(record.attachments ?? []);
+    setError(null);
+    setAdditionalInput('');
+    setStage(record.result ? AppStage.RESULT : AppStage.ANSWERING);
+  };
+
+  const importSession = ({ title, session }: ImportedSession) => {
+    const id = createDecisionId();
+    reportSave(saveDecision(id, session));
+    reportSave(renameDecision(id, title));
+    setHistory(listDecisions());
+    const record = listDecisions().find(r => r.id === id);
+    if (record) openDecision(record);
+  };
+
+  const handleImportFile = async (file: File) => {
+    setError(null);
+    try {
+      importSession(parseSessionFile(await file.text()));
+    } catch (err: any) {
+      handleError(err, t.app.failures.importFile);
+    }
+  };
+
+  const handleRenameDecision = (id: string, title: string) => {
+    reportSave(renameDecision(id, title));
+    setHistory(listDecisions());
+  };
+
+  const handleDeleteDecision = (id: string) => {
+    deleteDecision(id);
+    setHistory(listDecisions());
+  };
+
+  const currentVersion = versions.find(v => v.analysis === analysis);
+  const pinnedVersions = pinned.flatMap(id => versions.filter(v => v.id === id));
+
+  /**
+   * 지금 분석에서 이미 열어 본 대안의 버전을 찾습니다. 대안을 열 때 남긴 출처 버전 번호(from)로 찾고,
+   * 지금 분석이 대안으로 열린 것이면 그 출처 분석도 되돌아갈 대안으로 봅니다.
+   */
+  const findAlternativeVersion = (title: string): AnalysisVersion | undefined => {
+    if (!currentVersion) return undefined;
+    const opened = versions.find(v => v.trigger.kind === 'alternative' && v.trigger.from === currentVersion.id && normalizeTitle(v.trigger.title) === normalizeTitle(title));
+    if (opened) return opened;
+    const { trigger } = currentVersion;
+    const source = trigger.kind === 'alternative' ? versions.find(v => v.id === trigger.from) : undefined;
+    return source && normalizeTitle(source.analysis.finalRecommendation) === normalizeTitle(title) ? source : undefined;
+  };
+
+  const togglePin = () => {
+    if (!currentVersion) return;
+    setPinned(prev => prev.includes(currentVersion.id) ? prev.filter(id => id !== currentVersion.id) : [...prev, currentVersion.id]);
+  };
+
+  // 해당 버전은 내용이 바뀌면(비교표 추가 등) 함께 갱신합니다. 고정 목록은 버전 번호로 가리키므로 그대로 둡니다.
+  // 요청하는 동안 다른 분석으로 바뀌었다면 화면의 분석은 그대로 두고, 요청한 분석의 버전만 갱신합니다.
+  const updateAnalysis = (previous: AnalysisResult, next: AnalysisResult) => {
+    setAnalysis(current => current === previous ? next : current);
+    setVersions(prev => prev.map(v => v.analysis === previous ? { ...v, analysis: next } : v));
+  };
+
+  const handleCompare = async () => {
+    if (!analysis) return;
+    const source = analysis;
+    setIsComparing(true);
+    setError(null);
+    const signal = beginRequest();
+    try {
+      const respondents = participants.filter(p => Object.keys(p.answers).length > 0);
+      const comparison = await compareOptions(topic, questions, answers, source, { signal, language, ...(isGroup && { participants: respondents }) });
+      updateAnalysis(source, { ...source, comparison });
+    } catch (err: any) {
+      handleError(err, t.app.failures.compare, handleCompare);
+    } finally {
+      setIsComparing(false);
+    }
   };
 
   const switchToAlternative = async (altTitle: string) => {
     if (!analysis) return;
+    // 이미 본 분석이면 다시 요청하지 않고 바로 전환합니다. 돌아올 수 있도록 지금 분석은 고정해 둡니다.
+    const existing = findAlternativeVersion(altTitle);
+    const source = currentVersion;
+    if (source && !pinned.includes(source.id)) {
+      setPinned(prev => [...prev, source.id]);
+    }
+    if (existing) {
+      setAnalysis(existing.analysis);
+      return;
+    }
     setIsRefining(true);
     setError(null);
+    const signal = beginRequest();
     try {
-      const result = await analyzeDecision(topic, questions, answers, undefined, altTitle);
-      setAnalysis(result);
+      const result = await requestAnalysis(questions, answers, undefined, altTitle, signal);
+      recordVersion(result, { kind: 'alternative', title: altTitle, ...(source && { from: source.id }) });
     } catch (err: any) {
-      handleError(err, '대안 상세 분석 중 문제가 발생했습니다.');
+      handleError(err, t.app.failures.alternative, () => switchToAlternative(altTitle));
     } finally {
       setIsRefining(false);
+      setPartialAnalysis(null);
     }
   };
 
+  // 적응형 모드에서는 모델이 예상한 남은 질문 수를 더해 전체 길이를 추정합니다.
+  const expectedTotal = Math.max(1, questions.length + (canAskMore ? adaptive!.estimatedRemaining : 0));
+  const isLastQuestion = currentIndex === questions.length - 1 && !canAskMore && !nextParticipant;
+
+  const currentSession: DecisionState = { topic, questions, answers, currentStep: currentIndex, result: analysis, adaptive, pinned, versions, language, ...(isGroup && { participants }), ...(chat.length > 0 && { chat }), ...(outcome && { outcome }), ...(tasks.length > 0 && { tasks }), ...(attachments.length > 0 && { attachments }) };
+  const sessionTitle = history.find(record => record.id === sessionId)?.title ?? topic.trim();
+  const isLoadingStage = stage === AppStage.GENERATING_QUESTIONS || stage === AppStage.ANALYZING;
+  /** 화면에 스피너만 보이는 대기 상태를 스크린 리더에 알리는 문구 */
+  const statusMessage = isLoadingStage ? loadingMessage
+    : isRefining ? t.app.loading.refining
+    : isLoadingRound ? t.app.answering.loadingRound
+    : isComparing ? t.app.result.comparing
+    : '';
+
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 md:p-8 bg-[#fcfdff] text-slate-900">
-      <div className="w-full max-w-2xl bg-white rounded-[3rem] shadow-[0_20px_60px_-15px_rgba(0,0,0,0.05)] overflow-hidden transition-all duration-700 border border-slate-100">
+    <I18nContext.Provider value={t}>
+    <div className={`min-h-screen flex flex-col items-center justify-center p-4 md:p-8 bg-[#fcfdff] text-slate-900 ${reducedMotion ? 'reduce-motion' : ''}`}>
+      <div role="status" aria-live="polite" className="sr-only">{statusMessage}</div>
+      <div inert={isRefining} className="w-full max-w-2xl bg-white rounded-[3rem] shadow-[0_20px_60px_-15px_rgba(0,0,0,0.05)] overflow-hidden transition-all duration-700 border border-slate-100">
         
         <header className="bg-indigo-600 px-8 py-10 text-white relative overflow-hidden">
           <div className="absolute top-0 right-0 w-64 h-64 bg-white/10 rounded-full -mr-20 -mt-20 blur-3xl"></div>
+          <div className="absolute top-5 right-6 z-20 flex gap-1 p-1 bg-white/10 rounded-full no-print" role="group" aria-label={t.app.language}>
+            {(Object.keys(LANGUAGES) as Language[]).map(code => (
+              <button
+                key={code}
+                onClick={() => handleChangeLanguage(code)}
+                aria-pressed={language === code}
+                className={`px-3 py-1 rounded-full text-[11px] font-black transition-all ${language === code ? 'bg-white text-indigo-600' : 'text-white/70 hover:text-white'}`}
+              >
+                {LANGUAGES[code].label}
+              </button>
+            ))}
+          </div>
           <div className="relative z-10 flex flex-col items-center text-center">
             <div className="w-16 h-16 bg-white/20 backdrop-blur-md rounded-2xl flex items-center justify-center mb-4 shadow-lg">
                <i className="fas fa-compass-drafting text-2xl"></i>
             </div>
             <h1 className="text-3xl font-black tracking-tight">decider20</h1>
-            <p className="opacity-70 mt-2 text-sm font-medium tracking-wide">AI 맞춤형 의사결정 프레임워크</p>
+            <p className="opacity-70 mt-2 text-sm font-medium tracking-wide">{t.app.tagline}</p>
           </div>
         </header>
 
         {error && (
-          <div className="mx-8 mt-8 p-6 bg-rose-50 border border-rose-100 rounded-[2.5rem] text-rose-800 flex flex-col gap-4 animate-shake">
-            <div className="flex items-start gap-4">
-              <div className="w-10 h-10 bg-rose-100 rounded-full flex items-center justify-center flex-shrink-0">
-                <i className="fas fa-triangle-exclamation"></i>
-              </div>
-              <p className="text-sm font-bold leading-relaxed flex-1">{error}</p>
-              <button onClick={() => setError(null)} className="text-rose-300 hover:text-rose-500">
-                <i className="fas fa-times"></i>
-              </button>
-            </div>
-            {(error.includes("한도") || error.includes("API 키")) && (
-              <button onClick={handleOpenKeySelector} className="w-full py-3 bg-rose-600 text-white rounded-xl font-bold text-xs hover:bg-rose-700 transition-colors flex items-center justify-center gap-2">
-                <i className="fas fa-key"></i> API 키 설정 (한도 증설)
-              </button>
-            )}
+          <ErrorBanner error={error} onDismiss={() => setError(null)} onOpenKeySettings={handleOpenKeySelector} />
+        )}
+
+        {storageNotice && (
+          <div role="status" className="mx-8 mt-8 px-6 py-4 bg-amber-50 border border-amber-100 rounded-[2rem] text-sm font-bold text-amber-800 flex items-start gap-3">
+            <i className="fas fa-box-archive mt-0.5"></i>
+            <p className="flex-1 leading-relaxed">{t.history.storage[storageNotice]}</p>
+            <button onClick={() => setStorageNotice(null)} aria-label={t.common.close} className="text-amber-400 hover:text-amber-600">
+              <i className="fas fa-times"></i>
+            </button>
           </div>
         )}
 
-        <main className="p-8 md:p-12">
+        <main ref={mainRef} tabIndex={-1} className="p-8 md:p-12 outline-none">
           {stage === AppStage.START && (
             <div className="space-y-10 animate-fadeIn">
               <div className="space-y-5 text-center">
-                <h2 className="text-2xl font-black text-slate-800 tracking-tight">결정이 필요한 분야가 무엇인가요?</h2>
+                <h2 className="text-2xl font-black text-slate-800 tracking-tight">{t.app.start.title}</h2>
                 <textarea 
                   className="w-full p-8 border-2 border-slate-50 bg-slate-50 rounded-[2.5rem] focus:border-indigo-500 focus:bg-white focus:ring-[12px] focus:ring-indigo-50 transition-all text-lg h-48 resize-none outline-none shadow-inner leading-relaxed"
-                  placeholder="예: 이직 제안을 수락할까요? / 이번 달에 어떤 적금 상품에 가입할까요?"
+                  placeholder={t.app.start.placeholder}
                   value={topic}
-                  onChange={(e) => setTopic(e.target.value)}
+                  maxLength={MAX_TOPIC_LENGTH}
+                  onChange={(e) => setTopic(sanitizeUserText(e.target.value, MAX_TOPIC_LENGTH))}
+                />
+                <InputSafetyNotice text={topic} maxLength={MAX_TOPIC_LENGTH} />
+                <AttachmentPanel
+                  attachments={attachments}
+                  onChange={setAttachments}
+                  onError={(err) => handleError(err, t.app.failures.attachment)}
                 />
+                <label className={`flex items-center justify-center gap-3 select-none ${groupMode ? 'opacity-40' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={adaptiveMode && !groupMode}
+                    disabled={groupMode}
+                    onChange={(e) => setAdaptiveMode(e.target.checked)}
+                    className="w-5 h-5 accent-indigo-600"
+                  />
+                  <span className="text-sm font-bold text-slate-600">{t.app.start.adaptiveMode}</span>
+                  <span className="text-xs text-slate-400 font-medium">{t.app.start.adaptiveHint}</span>
+                </label>
+                <label className="flex items-center justify-center gap-3 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={groupMode}
+                    onChange={(e) => setGroupMode(e.target.checked)}
+                    className="w-5 h-5 accent-indigo-600"
+                  />
+                  <span className="text-sm font-bold text-slate-600">{t.group.mode}</span>
+                  <span className="text-xs text-slate-400 font-medium">{t.group.modeHint}</span>
+                </label>
+                {groupMode && (
+                  <input
+                    value={participantNames}
+                    onChange={(e) => setParticipantNames(e.target.value)}
+                    placeholder={t.group.namesPlaceholder}
+                    className="w-full px-6 py-4 border-2 border-slate-50 bg-slate-50 rounded-[2rem] focus:border-indigo-500 focus:bg-white transition-all text-sm font-bold outline-none animate-fadeIn"
+                  />
+                )}
               </div>
               <button 
                 onClick={startDecisionProcess}
-                disabled={!topic.trim()}
+                disabled={!topic.trim() || (groupMode && parsedNames.length === 0)}
                 className="group w-full py-6 bg-slate-900 hover:bg-indigo-600 disabled:bg-slate-100 disabled:text-slate-300 text-white font-black text-xl rounded-[2.5rem] shadow-2xl transition-all flex items-center justify-center gap-4"
               >
-                진단 질문 생성 <i className="fas fa-arrow-right-long group-hover:translate-x-2 transition-transform"></i>
+                {t.app.start.generate} <i className="fas fa-arrow-right-long group-hover:translate-x-2 transition-transform"></i>
               </button>
+              <label className="flex items-center justify-center gap-2 text-xs font-bold text-slate-400 hover:text-indigo-600 cursor-pointer transition-colors">
+                <i className="fas fa-file-import"></i> {t.app.start.importSession}
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <TemplateLibrary
+                templates={templates}
+                canStart={!!topic.trim() && (!groupMode || parsedNames.length > 0)}
+                onStart={startFromTemplate}
+                onExport={handleExportTemplate}
+                onImport={handleImportTemplate}
+                onDelete={handleDeleteTemplate}
+              />
+              <RetrospectivePanel records={history} onOpen={openDecision} />
+              <DecisionHistory
+                records={history}
+                onOpen={openDecision}
+                onRename={handleRenameDecision}
+                onDelete={handleDeleteDecision}
+              />
             </div>
           )}
 
@@ -200,67 +937,159 @@ const App: React.FC = () => {
                 </div>
               </div>
               <p className="text-2xl font-black text-slate-800 tracking-tighter text-center">{loadingMessage}</p>
+              {stage === AppStage.GENERATING_QUESTIONS && partialQuestions.length > 0 && (
+                <ul className="w-full space-y-2 animate-fadeIn">
+                  {partialQuestions.slice(-3).map((text, i) => (
+                    <li key={`${partialQuestions.length}-${i}`} className="px-5 py-3 bg-slate-50 rounded-2xl text-sm font-bold text-slate-500 truncate">
+                      <span className="text-indigo-500 mr-2">Q{partialQuestions.length - Math.min(3, partialQuestions.length) + i + 1}</span>{text}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {stage === AppStage.ANALYZING && partialAnalysis && <StreamingAnalysisPreview partial={partialAnalysis} />}
+              <button onClick={cancelRequest} className="px-8 py-3 rounded-2xl font-bold text-slate-400 hover:bg-slate-50 hover:text-rose-500 transition-all flex items-center gap-2">
+                <i className="fas fa-xmark"></i> {t.common.cancel}
+              </button>
+            </div>
+          )}
+
+          {stage === AppStage.EDITING_QUESTIONS && questions.length > 0 && (
+            <div className="animate-fadeIn">
+              <QuestionEditor
+                questions={questions}
+                hasAnswers={Object.keys(answers).length > 0 || participants.some(p => Object.keys(p.answers).length > 0)}
+                onRegenerate={handleRegenerateQuestion}
+                onConfirm={handleConfirmQuestions}
+                onSaveTemplate={handleSaveTemplate}
+              />
             </div>
           )}
 
           {stage === AppStage.ANSWERING && questions.length > 0 && (
             <div className="space-y-10 animate-fadeIn">
+              {isGroup && (
+                <ParticipantBar
+                  participants={participants}
+                  activeId={activeParticipant.id}
+                  questions={questions}
+                  onSelect={selectParticipant}
+                  onAdd={addParticipant}
+                  onExportSheet={handleExportAnswerSheet}
+                  onImportSheet={handleImportAnswerSheet}
+                />
+              )}
               <div className="space-y-3">
-                <span className="px-3 py-1 bg-indigo-100 text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-widest">Question {currentIndex + 1} / {questions.length}</span>
-                <h2 className="text-2xl font-black text-slate-800 leading-[1.3] tracking-tight">{questions[currentIndex].text}</h2>
+                {isGroup && <p className="text-xs font-black text-indigo-500 flex items-center gap-2"><i className="fas fa-user-pen"></i> {t.group.answeringAs(activeParticipant.name)}</p>}
+                <div className="flex items-center justify-between">
+                  <span className="px-3 py-1 bg-indigo-100 text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-widest">{t.app.answering.progress(currentIndex + 1, adaptive && !adaptive.done ? t.app.answering.approximately(expectedTotal) : String(questions.length))}</span>
+                  {!adaptive && (
+                    <button onClick={() => setStage(AppStage.EDITING_QUESTIONS)} className="text-[11px] font-black text-slate-400 hover:text-indigo-600 flex items-center gap-1">
+                      <i className="fas fa-pen-to-square"></i> {t.editor.edit}
+                    </button>
+                  )}
+                </div>
+                <h2 id="question-heading" ref={questionHeadingRef} tabIndex={-1} className="text-2xl font-black text-slate-800 leading-[1.3] tracking-tight outline-none">{questions[currentIndex].text}</h2>
+                {questions[currentIndex].rationale && (
+                  <details key={questions[currentIndex].id} className="group">
+                    <summary className="inline-flex items-center gap-2 text-xs font-black text-slate-400 hover:text-indigo-600 cursor-pointer list-none">
+                      <i className="fas fa-circle-question"></i> {t.question.why}
+                    </summary>
+                    <p className="mt-2 p-4 bg-indigo-50/50 rounded-2xl text-sm font-medium text-slate-600 leading-relaxed">{questions[currentIndex].rationale}</p>
+                  </details>
+                )}
               </div>
               <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
-                <div className="h-full bg-indigo-600 transition-all duration-1000 ease-out" style={{ width: `${((currentIndex + 1) / questions.length) * 100}%` }}></div>
-              </div>
-              <div className="grid grid-cols-1 gap-4">
-                {questions[currentIndex].options.map((option, idx) => (
-                  <button
-                    key={idx}
-                    onClick={() => handleAnswer(option)}
-                    className={`p-7 text-left rounded-[2rem] border-2 transition-all flex items-center gap-6 group ${
-                      answers[questions[currentIndex].id] === option ? 'border-indigo-600 bg-indigo-50/50 shadow-md translate-x-1' : 'border-slate-50 hover:border-indigo-100 bg-slate-50/50 hover:bg-white'
-                    }`}
-                  >
-                    <span className={`flex-shrink-0 w-12 h-12 rounded-2xl flex items-center justify-center font-black text-lg ${
-                      answers[questions[currentIndex].id] === option ? 'bg-indigo-600 text-white shadow-lg rotate-3' : 'bg-white text-slate-300 group-hover:text-indigo-400'
-                    }`}>{String.fromCharCode(65 + idx)}</span>
-                    <span className={`font-bold text-lg ${answers[questions[currentIndex].id] === option ? 'text-indigo-900' : 'text-slate-600'}`}>{option}</span>
-                  </button>
-                ))}
+                <div className="h-full bg-indigo-600 transition-all duration-1000 ease-out" style={{ width: `${((currentIndex + 1) / expectedTotal) * 100}%` }}></div>
               </div>
+              <QuestionInput
+                key={`${activeParticipant?.id ?? ''}-${questions[currentIndex].id}`}
+                question={questions[currentIndex]}
+                answer={currentAnswers[questions[currentIndex].id]}
+                onChange={handleAnswer}
+                labelledBy="question-heading"
+              />
+              {isLoadingRound && partialQuestions.length > 0 && (
+                <ul className="w-full space-y-2 animate-fadeIn" aria-hidden="true">
+                  {partialQuestions.slice(-3).map((text, i) => (
+                    <li key={`${partialQuestions.length}-${i}`} className="px-5 py-3 bg-slate-50 rounded-2xl text-sm font-bold text-slate-500 truncate">
+                      <span className="text-indigo-500 mr-2">Q{questions.length + partialQuestions.length - Math.min(3, partialQuestions.length) + i + 1}</span>{text}
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div className="flex items-center justify-between pt-10 border-t border-slate-50">
                 <button onClick={handlePrev} disabled={currentIndex === 0} className="px-8 py-4 rounded-2xl font-bold text-slate-400 disabled:opacity-0 hover:bg-slate-50 transition-all flex items-center gap-3">
-                  <i className="fas fa-arrow-left-long"></i> 이전
-                </button>
-                <button onClick={handleNext} disabled={!answers[questions[currentIndex].id]} className="px-14 py-5 bg-slate-900 hover:bg-indigo-600 text-white font-black rounded-[2rem] shadow-2xl transition-all flex items-center gap-3 active:scale-95">
-                  {currentIndex === questions.length - 1 ? '최종 분석 리포트' : '다음'} <i className={`fas ${currentIndex === questions.length - 1 ? 'fa-award' : 'fa-arrow-right-long'}`}></i>
+                  <i className="fas fa-arrow-left-long"></i> {t.app.answering.prev}
                 </button>
+                <div className="flex items-center gap-3">
+                  {adaptive && (isLoadingRound ? (
+                    <button onClick={cancelRequest} className="px-6 py-4 rounded-2xl font-bold text-slate-400 hover:bg-slate-50 hover:text-rose-500 transition-all flex items-center gap-2">
+                      <i className="fas fa-xmark"></i> {t.common.cancel}
+                    </button>
+                  ) : (
+                    <button onClick={handleNext} className="px-6 py-4 rounded-2xl font-bold text-slate-400 hover:bg-slate-50 transition-all">
+                      {t.app.answering.skip}
+                    </button>
+                  ))}
+                  <button onClick={handleNext} disabled={isLoadingRound || !isAnswered(questions[currentIndex], currentAnswers[questions[currentIndex].id])} className="px-14 py-5 bg-slate-900 hover:bg-indigo-600 text-white font-black rounded-[2rem] shadow-2xl transition-all flex items-center gap-3 active:scale-95">
+                    {isLoadingRound ? (
+                      <>{t.app.answering.loadingRound} <i className="fas fa-spinner animate-spin"></i></>
+                    ) : currentIndex === questions.length - 1 && nextParticipant ? (
+                      <>{t.group.nextParticipant(nextParticipant.name)} <i className="fas fa-user-group"></i></>
+                    ) : isLastQuestion ? (
+                      <>{t.app.answering.finish} <i className="fas fa-award"></i></>
+                    ) : (
+                      <>{t.app.answering.next} <i className="fas fa-arrow-right-long"></i></>
+                    )}
+                  </button>
+                </div>
               </div>
             </div>
           )}
 
+          {stage === AppStage.REVIEWING_ANSWERS && (
+            <ConsistencyReview
+              issues={consistencyIssues}
+              questions={questions}
+              onRevisit={revisitQuestion}
+              onProceed={() => finishAnswering(questions, answers, true)}
+            />
+          )}
+
           {stage === AppStage.RESULT && analysis && (
             <div className={`space-y-12 animate-fadeIn pb-10 transition-all duration-500 ${isRefining ? 'opacity-30 blur-sm grayscale' : ''}`}>
-              {isRefining && (
-                <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-white/80 backdrop-blur-sm pointer-events-auto">
-                   <div className="w-16 h-16 border-4 border-slate-100 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
-                   <p className="text-xl font-black text-slate-800">심층 분석 중입니다...</p>
-                </div>
+              {currentVersion && (
+                <PinnedAnalysesBar pinned={pinnedVersions} current={currentVersion} onSelect={version => setAnalysis(version.analysis)} onTogglePin={togglePin} />
               )}
 
               <div className="flex flex-col items-center gap-4">
-                 <div className="relative w-24 h-24 flex items-center justify-center">
-                    <svg className="w-full h-full transform -rotate-90">
+                 <div role="img" aria-label={t.a11y.confidence(analysis.score)} className="relative w-24 h-24 flex items-center justify-center">
+                    <svg aria-hidden="true" className="w-full h-full transform -rotate-90">
                       <circle cx="48" cy="48" r="42" stroke="currentColor" strokeWidth="8" fill="transparent" className="text-slate-100"/>
                       <circle cx="48" cy="48" r="42" stroke="currentColor" strokeWidth="8" fill="transparent" strokeDasharray={264} strokeDashoffset={264 - (264 * analysis.score) / 100} className="text-indigo-600 transition-all duration-1000 ease-out"/>
                     </svg>
-                    <span className="absolute text-xl font-black text-slate-800">{analysis.score}%</span>
+                    <span aria-hidden="true" className="absolute text-xl font-black text-slate-800">{analysis.score}%</span>
                  </div>
-                 <p className="text-[10px] font-black text-indigo-500 uppercase tracking-[0.3em]">Decision Confidence</p>
+                 <p className="text-[10px] font-black text-indigo-500 uppercase tracking-[0.3em]">{t.app.result.confidence}</p>
+                 {analysis.scoring && findDisagreement(analysis, computeScores(analysis.scoring)) && (
+                   <span className="px-3 py-1 bg-amber-50 text-amber-700 rounded-full text-[10px] font-black flex items-center gap-1">
+                     <i className="fas fa-triangle-exclamation"></i> {t.scoring.mismatchBadge}
+                   </span>
+                 )}
+                 {cachedResult?.analysis === analysis && (
+                   <div className="flex items-center gap-3 text-[10px] font-black no-print">
+                     <span className="px-3 py-1 bg-slate-100 text-slate-500 rounded-full flex items-center gap-1">
+                       <i className="fas fa-box-archive"></i> {t.cache.badge(new Date(cachedResult.cachedAt).toLocaleTimeString(t.locale, { timeStyle: 'short' }))}
+                     </span>
+                     <button onClick={refreshAnalysis} className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+                       <i className="fas fa-rotate"></i> {t.cache.refresh}
+                     </button>
+                   </div>
+                 )}
               </div>
 
               <div className="text-center space-y-6">
-                <span className="inline-block px-5 py-2 bg-indigo-50 text-indigo-700 rounded-full text-xs font-black uppercase tracking-widest border border-indigo-100">Recommended Path</span>
+                <span className="inline-block px-5 py-2 bg-indigo-50 text-indigo-700 rounded-full text-xs font-black uppercase tracking-widest border border-indigo-100">{t.app.result.recommended}</span>
                 <h2 className="text-3xl md:text-5xl font-black text-slate-900 leading-tight tracking-tight">{analysis.finalRecommendation}</h2>
                 <p className="text-slate-500 text-lg md:text-xl font-medium max-w-xl mx-auto">{analysis.summary}</p>
               </div>
@@ -268,7 +1097,7 @@ const App: React.FC = () => {
               {analysis.refinedInsight && (
                 <div className="bg-amber-50 border border-amber-100 p-8 rounded-[2.5rem] space-y-4 animate-fadeIn">
                    <h3 className="text-amber-800 font-black flex items-center gap-3 uppercase text-xs tracking-widest">
-                      <i className="fas fa-magnifying-glass-plus"></i> 심층 분석 통찰
+                      <i className="fas fa-magnifying-glass-plus"></i> {t.app.result.refinedInsight}
                    </h3>
                    <p className="text-amber-900 font-bold leading-relaxed">{analysis.refinedInsight}</p>
                 </div>
@@ -277,20 +1106,30 @@ const App: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div className="space-y-6">
                   <h3 className="text-lg font-black text-slate-800 flex items-center gap-3">
-                     <div className="w-8 h-8 bg-slate-900 text-white rounded-lg flex items-center justify-center text-xs"><i className="fas fa-magnifying-glass"></i></div> 분석 근거
+                     <div className="w-8 h-8 bg-slate-900 text-white rounded-lg flex items-center justify-center text-xs"><i className="fas fa-magnifying-glass"></i></div> {t.app.result.reasoning}
                   </h3>
                   <div className="space-y-4">
                     {analysis.reasoning.map((item, i) => (
                       <div key={i} className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm flex items-start gap-4">
                          <span className="text-indigo-500 font-black text-xs mt-1">{i+1}.</span>
-                         <p className="text-sm font-bold text-slate-700 leading-relaxed">{item}</p>
+                         <div className="space-y-2">
+                           <p className="text-sm font-bold text-slate-700 leading-relaxed">{item}</p>
+                           {analysis.citations?.filter(c => c.reasoning === i).map(citation => (
+                             <p key={citation.source} className="text-[11px] font-medium text-slate-500 leading-relaxed">
+                               <span className="inline-flex items-center gap-1 px-2 py-0.5 mr-1 bg-indigo-50 text-indigo-600 font-black rounded-lg" title={t.attachments.source}>
+                                 <i className="fas fa-paperclip"></i> {citation.source}
+                               </span>
+                               {citation.excerpt && <q>{citation.excerpt}</q>}
+                             </p>
+                           ))}
+                         </div>
                       </div>
                     ))}
                   </div>
                 </div>
                 <div className="space-y-6">
                   <h3 className="text-lg font-black text-slate-800 flex items-center gap-3">
-                     <div className="w-8 h-8 bg-slate-900 text-white rounded-lg flex items-center justify-center text-xs"><i className="fas fa-scale-balanced"></i></div> 장단점 체크
+                     <div className="w-8 h-8 bg-slate-900 text-white rounded-lg flex items-center justify-center text-xs"><i className="fas fa-scale-balanced"></i></div> {t.app.result.prosCons}
                   </h3>
                   <div className="space-y-4">
                     <div className="p-6 bg-emerald-50 rounded-[2rem] border border-emerald-100">
@@ -303,18 +1142,39 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {analysis.scoring && <ScoreBreakdownPanel analysis={analysis} scoring={analysis.scoring} />}
+
+              {isGroup && (
+                <GroupAgreementPanel questions={questions} participants={participants} language={language} group={analysis.group} />
+              )}
+
+              {versions.length > 1 && (
+                <VersionHistory key={versions.length} versions={versions} current={analysis} onSelect={(version) => setAnalysis(version.analysis)} />
+              )}
+
+              <OutcomePanel key={analysis.finalRecommendation} analysis={analysis} outcome={outcome} onChange={setOutcome} />
+
+              <ChatPanel
+                messages={chat}
+                pendingReply={chatReply}
+                disabled={isRefining}
+                onAsk={handleAskFollowUp}
+                onPromote={(message) => refineAnalysis(message.text)}
+              />
+
               {/* 추가 고려사항 입력 섹션 */}
               <div className="pt-10 border-t border-slate-100 space-y-6 no-print">
                  <div className="flex flex-col items-center text-center space-y-2">
-                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Custom Refinement</span>
-                    <h3 className="text-2xl font-black text-slate-800">더 반영할 내용이 있나요?</h3>
-                    <p className="text-sm text-slate-500">놓친 변수나 현재 가장 크게 걸리는 고민을 적어주시면 즉시 재분석해 드립니다.</p>
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.app.result.refineEyebrow}</span>
+                    <h3 className="text-2xl font-black text-slate-800">{t.app.result.refineTitle}</h3>
+                    <p className="text-sm text-slate-500">{t.app.result.refineDescription}</p>
                  </div>
                  <div className="relative">
                     <textarea 
                       value={additionalInput}
-                      onChange={(e) => setAdditionalInput(e.target.value)}
-                      placeholder="예: '예산보다는 효율성이 더 중요해요' 혹은 '현실적인 제약 사항이 생겼어요' 등..."
+                      maxLength={MAX_REFINEMENT_LENGTH}
+                      onChange={(e) => setAdditionalInput(sanitizeUserText(e.target.value, MAX_REFINEMENT_LENGTH))}
+                      placeholder={t.app.result.refinePlaceholder}
                       className="w-full p-8 border-2 border-slate-50 bg-slate-50 rounded-[2.5rem] focus:border-indigo-500 focus:bg-white focus:ring-[12px] focus:ring-indigo-50 transition-all text-base h-32 resize-none outline-none leading-relaxed"
                     />
                     <button 
@@ -323,16 +1183,17 @@ const App: React.FC = () => {
                       className="absolute bottom-4 right-4 py-3 px-6 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-black rounded-2xl shadow-xl transition-all flex items-center gap-2 text-sm"
                     >
                       {isRefining ? <i className="fas fa-spinner animate-spin"></i> : <i className="fas fa-wand-magic-sparkles"></i>} 
-                      심층 재분석
+                      {t.app.result.refine}
                     </button>
                  </div>
+                 <InputSafetyNotice text={additionalInput} maxLength={MAX_REFINEMENT_LENGTH} />
               </div>
 
               {analysis.alternatives && analysis.alternatives.length > 0 && (
                 <div className="space-y-8 pt-10 border-t border-slate-100">
                   <div className="text-center space-y-2">
-                    <h3 className="text-2xl font-black text-slate-800">다른 추천 대안들</h3>
-                    <p className="text-sm text-slate-400 font-medium">선택 시 해당 대안을 중심으로 리포트가 재구성됩니다.</p>
+                    <h3 className="text-2xl font-black text-slate-800">{t.app.result.alternativesTitle}</h3>
+                    <p className="text-sm text-slate-400 font-medium">{t.app.result.alternativesDescription}</p>
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {analysis.alternatives.map((alt, i) => (
@@ -341,13 +1202,13 @@ const App: React.FC = () => {
                            <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center text-xs font-black">ALT {i+1}</div>
                            <h4 className="text-xl font-black text-slate-900 group-hover:text-indigo-600 transition-colors">{alt.title}</h4>
                            <p className="text-sm text-slate-500 font-medium leading-relaxed">{alt.summary}</p>
-                           <p className="text-xs font-bold text-indigo-600 pt-2 border-t border-slate-200 mt-2">차선책 사유: <span className="text-slate-600 font-medium">{alt.whyThis}</span></p>
+                           <p className="text-xs font-bold text-indigo-600 pt-2 border-t border-slate-200 mt-2">{t.app.result.whyThis} <span className="text-slate-600 font-medium">{alt.whyThis}</span></p>
                          </div>
                          <button 
                             onClick={() => switchToAlternative(alt.title)} 
                             className="mt-8 py-4 w-full bg-white border border-indigo-100 text-indigo-600 font-black rounded-2xl hover:bg-indigo-600 hover:text-white transition-all text-xs shadow-sm"
                          >
-                            해당 대안으로 심층 분석
+                            {findAlternativeVersion(alt.title) ? t.app.result.viewPinned : t.app.result.analyzeAlternative}
                          </button>
                       </div>
                     ))}
@@ -355,43 +1216,96 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {analysis.alternatives && analysis.alternatives.length > 0 && (
+                <div className="space-y-8 pt-10 border-t border-slate-100">
+                  <div className="text-center space-y-2">
+                    <h3 className="text-2xl font-black text-slate-800">{t.app.result.comparisonTitle}</h3>
+                    <p className="text-sm text-slate-400 font-medium">{t.app.result.comparisonDescription}</p>
+                  </div>
+                  {analysis.comparison ? (
+                    <ComparisonMatrix comparison={analysis.comparison} currentTitle={analysis.finalRecommendation} onSelectOption={switchToAlternative} />
+                  ) : (
+                    <button
+                      onClick={handleCompare}
+                      disabled={isComparing}
+                      className="w-full py-5 bg-white border-2 border-indigo-100 text-indigo-600 font-black rounded-[2rem] hover:bg-indigo-600 hover:text-white disabled:opacity-60 transition-all flex items-center justify-center gap-3 no-print"
+                    >
+                      {isComparing ? <i className="fas fa-spinner animate-spin"></i> : <i className="fas fa-table-columns"></i>}
+                      {isComparing ? t.app.result.comparing : t.app.result.compare}
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* 실행 가이드 섹션 - 인쇄 잉크 절약 스타일로 수정 */}
               <div className="bg-indigo-50/50 border-2 border-indigo-100 p-10 rounded-[3rem] shadow-sm space-y-8 overflow-hidden relative">
                 <h3 className="text-2xl font-black text-slate-900 flex items-center gap-4 relative z-10">
-                  <i className="fas fa-paper-plane text-indigo-600"></i> 실행 가이드
+                  <i className="fas fa-paper-plane text-indigo-600"></i> {t.app.result.nextSteps}
                 </h3>
-                <div className="grid grid-cols-1 gap-4 relative z-10">
-                  {analysis.nextSteps.map((step, i) => (
-                    <div key={i} className="flex items-center gap-5 bg-white p-5 rounded-[1.5rem] border border-indigo-100 shadow-sm">
-                      <div className="w-10 h-10 bg-indigo-600 text-white rounded-xl flex items-center justify-center font-black flex-shrink-0 shadow-md">
-                        {i+1}
-                      </div>
-                      <p className="font-bold text-slate-700 leading-relaxed">{step}</p>
-                    </div>
-                  ))}
-                </div>
+                <NextStepsChecklist
+                  steps={analysis.nextSteps}
+                  tasks={tasks}
+                  onChange={setTasks}
+                  title={sessionTitle}
+                  topic={topic}
+                  recommendation={analysis.finalRecommendation}
+                  language={language}
+                />
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-5 no-print">
-                <button onClick={() => window.print()} className="py-6 bg-white border-2 border-slate-100 text-slate-800 font-black rounded-[2rem] hover:bg-slate-50 flex items-center justify-center gap-3"><i className="fas fa-download"></i> PDF 보관</button>
-                <button onClick={resetApp} className="py-6 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-[2rem] shadow-xl flex items-center justify-center gap-3 transition-transform active:scale-95"><i className="fas fa-rotate-left"></i> 처음으로</button>
+              <div className="space-y-5 no-print">
+                <ExportMenu title={sessionTitle} session={currentSession} />
+                <button onClick={resetApp} className="w-full py-6 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-[2rem] shadow-xl flex items-center justify-center gap-3 transition-transform active:scale-95"><i className="fas fa-rotate-left"></i> {t.app.result.restart}</button>
               </div>
             </div>
           )}
         </main>
       </div>
 
+      {showSettings && (
+        <ProviderSettingsPanel
+          settings={providerSettings}
+          onSave={handleSaveProviderSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* 결과 화면의 흐림 효과가 적용되지 않도록 오버레이는 바깥에 둡니다. */}
+      {isRefining && (
+        <div
+          ref={refiningDialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="refining-title"
+          onKeyDown={handleRefiningKeyDown}
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-white/80 backdrop-blur-sm pointer-events-auto"
+        >
+           <div aria-hidden="true" className="w-16 h-16 border-4 border-slate-100 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
+           <p id="refining-title" className="text-xl font-black text-slate-800">{t.app.loading.refining}</p>
+           {partialAnalysis && (
+             <div className="w-full max-w-2xl max-h-[60vh] overflow-y-auto px-8 mt-8">
+               <StreamingAnalysisPreview partial={partialAnalysis} />
+             </div>
+           )}
+           <button onClick={cancelRequest} className="mt-6 px-8 py-3 rounded-2xl font-bold text-slate-400 hover:bg-slate-100 hover:text-rose-500 transition-all flex items-center gap-2">
+             <i className="fas fa-xmark"></i> {t.common.cancel}
+           </button>
+        </div>
+      )}
+
       {isRefining && (
-        <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-[60] bg-slate-900 text-white px-8 py-4 rounded-full shadow-2xl flex items-center gap-4 animate-fadeIn no-print">
+        <div aria-hidden="true" className="fixed bottom-10 left-1/2 -translate-x-1/2 z-[60] bg-slate-900 text-white px-8 py-4 rounded-full shadow-2xl flex items-center gap-4 animate-fadeIn no-print">
            <i className="fas fa-spinner animate-spin text-indigo-400"></i>
-           <span className="text-sm font-black uppercase tracking-widest">Processing deep-dive analysis...</span>
+           <span className="text-sm font-black uppercase tracking-widest">{t.app.loading.refiningBadge}</span>
         </div>
       )}
       
-      <footer className="mt-12 text-slate-300 text-[10px] font-black uppercase tracking-[0.5em] flex flex-col items-center gap-6 no-print pb-10">
+      <footer inert={isRefining} className="mt-12 text-slate-300 text-[10px] font-black uppercase tracking-[0.5em] flex flex-col items-center gap-6 no-print pb-10">
         <div className="flex flex-wrap items-center justify-center gap-6 opacity-60">
-          <button onClick={handleOpenKeySelector} className="flex items-center gap-2 hover:text-indigo-500 transition-colors border-b border-transparent hover:border-indigo-500 pb-1"><i className="fas fa-key"></i> API 키 설정</button>
-          <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="flex items-center gap-2 hover:text-indigo-500 transition-colors border-b border-transparent hover:border-indigo-500 pb-1"><i className="fas fa-circle-info"></i> API 한도 및 결제</a>
+          <button onClick={() => setShowSettings(prev => !prev)} className="flex items-center gap-2 hover:text-indigo-500 transition-colors border-b border-transparent hover:border-indigo-500 pb-1"><i className="fas fa-sliders"></i> {t.app.footer.settings} · {t.settings.providers[providerSettings.provider]}</button>
+          <button onClick={handleOpenKeySelector} className="flex items-center gap-2 hover:text-indigo-500 transition-colors border-b border-transparent hover:border-indigo-500 pb-1"><i className="fas fa-key"></i> {t.app.footer.apiKey}</button>
+          <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="flex items-center gap-2 hover:text-indigo-500 transition-colors border-b border-transparent hover:border-indigo-500 pb-1"><i className="fas fa-circle-info"></i> {t.app.footer.billing}</a>
+          <button onClick={toggleReducedMotion} aria-pressed={reducedMotion} className="flex items-center gap-2 hover:text-indigo-500 transition-colors border-b border-transparent hover:border-indigo-500 pb-1"><i className={`fas ${reducedMotion ? 'fa-pause' : 'fa-play'}`}></i> {t.a11y.reduceMotion}</button>
         </div>
         <div className="opacity-40 tracking-widest uppercase">decider20 &bull; Built with Gemini AI</div>
       </footer>
@@ -401,6 +1315,12 @@ const App: React.FC = () => {
         @keyframes shake { 0%, 100% { transform: translateX(0); } 25% { transform: translateX(-4px); } 75% { transform: translateX(4px); } }
         .animate-fadeIn { animation: fadeIn 0.8s cubic-bezier(0.16, 1, 0.3, 1) forwards; }
         .animate-shake { animation: shake 0.5s ease-in-out; }
+        .reduce-motion *, .reduce-motion *::before, .reduce-motion *::after {
+          animation-duration: 0.01ms !important;
+          animation-iteration-count: 1 !important;
+          transition-duration: 0.01ms !important;
+          scroll-behavior: auto !important;
+        }
         @media print {
           body { background: white; }
           .min-h-screen { display: block; padding: 20px; }
@@ -409,6 +1329,7 @@ const App: React.FC = () => {
         }
       `}</style>
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SharedRun, withAnalysisCache } from './analysisCache';
+import { MOCK_ANALYSIS } from './providers/mockProvider';
+import { AnalysisResult } from './types';
+
+/** 끝내기 전까지 기다리는 run. 받은 공유 신호와 콜백을 기록합니다. */
+const deferredRun = () => {
+  const runs: SharedRun[] = [];
+  let finish: (value: AnalysisResult) => void = () => {};
+  const run = vi.fn((shared: SharedRun) => {
+    runs.push(shared);
+    return new Promise<AnalysisResult>(resolve => { finish = resolve; });
+  });
+  return { run, runs, finish: (value: AnalysisResult = MOCK_ANALYSIS) => finish(value) };
+};
+
+let keySeed = 0;
+const nextKey = () => `key-${++keySeed}`;
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  });
+});
+
+describe('진행 중인 같은 분석 공유', () => {
+  it('같은 키로 동시에 들어온 요청은 한 번만 호출하고, 스트리밍 조각을 모두에게 전달합니다', async () => {
+    const key = nextKey();
+    const { run, runs, finish } = deferredRun();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const a = withAnalysisCache(key, { onPartial: first }, run);
+    const b = withAnalysisCache(key, { onPartial: second }, run);
+    runs[0].onPartial?.({ summary: '중간' });
+    finish();
+
+    await expect(Promise.all([a, b])).resolves.toEqual([MOCK_ANALYSIS, MOCK_ANALYSIS]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith({ summary: '중간' });
+    expect(second).toHaveBeenCalledWith({ summary: '중간' });
+  });
+
+  it('한쪽이 취소해도 다른 쪽이 기다리는 동안에는 요청을 취소하지 않고, 모두 취소하면 취소합니다', async () => {
+    const key = nextKey();
+    const { run, runs, finish } = deferredRun();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = withAnalysisCache(key, { signal: first.signal }, run);
+    const b = withAnalysisCache(key, { signal: second.signal }, run);
+    first.abort();
+    await expect(a).rejects.toMatchObject({ name: 'AbortError' });
+    expect(runs[0].signal.aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toMatchObject({ name: 'AbortError' });
+    expect(runs[0].signal.aborted).toBe(true);
+
+    // 취소된 요청에는 합류하지 않고 새로 호출합니다.
+    const c = withAnalysisCache(key, {}, run);
+    expect(run).toHaveBeenCalledTimes(2);
+    finish();
+    await expect(c).resolves.toEqual(MOCK_ANALYSIS);
+  });
+
+  it('fresh이면 진행 중인 요청에 합류하지 않고 새로 분석합니다', async () => {
+    const key = nextKey();
+    const pending = deferredRun();
+    const fresh = deferredRun();
+    const refined = { ...MOCK_ANALYSIS, summary: '새 분석' };
+
+    const a = withAnalysisCache(key, {}, pending.run);
+    const b = withAnalysisCache(key, { fresh: true }, fresh.run);
+    expect(fresh.run).toHaveBeenCalledTimes(1);
+    fresh.finish(refined);
+    pending.finish();
+
+    await expect(b).resolves.toEqual(refined);
+    await expect(a).resolves.toEqual(MOCK_ANALYSIS);
+    // 먼저 시작했지만 늦게 끝난 요청이 새 분석을 캐시에서 덮어쓰지 않습니다.
+    await expect(withAnalysisCache(key, {}, vi.fn())).resolves.toEqual(refined);
+  });
+
+  it('깨졌거나 형식이 어긋난 캐시 항목은 없는 것으로 보고 새로 분석합니다', async () => {
+    const key = nextKey();
+    localStorage.setItem('decider20.analysisCache', JSON.stringify([
+      { key, value: { summary: '추천 없음' }, createdAt: Date.now() },
+      'broken'
+    ]));
+    const { run, finish } = deferredRun();
+
+    const result = withAnalysisCache(key, {}, run);
+    expect(run).toHaveBeenCalledTimes(1);
+    finish();
+    await expect(result).resolves.toEqual(MOCK_ANALYSIS);
+  });
+});
@@ -0,0 +1,203 @@
+import { AnalysisResult } from "./types";
+import { isRecord, validateAnalysis } from "./validation";
+
+const STORAGE_KEY = 'decider20.analysisCache';
+
+/** 저장된 분석을 다시 쓰는 기간 */
+export const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+/** 보관하는 최대 분석 수 */
+export const MAX_CACHE_ENTRIES = 30;
+/** 저장소를 너무 많이 차지하지 않도록 하는 직렬화 크기 상한(문자 수) */
+export const MAX_CACHE_SIZE = 500_000;
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  /** 저장소에서 읽은 값은 형식을 확인하기 전까지 unknown입니다. */
+  value: T;
+  createdAt: number;
+}
+
+export interface CacheOptions {
+  /** true면 캐시를 건너뛰고 새로 분석해 캐시를 갱신합니다. */
+  fresh?: boolean;
+  /** 캐시된 결과를 돌려줄 때 원래 분석이 만들어진 시각을 알려줍니다. */
+  onCached?: (cachedAt: number) => void;
+}
+
+const isCacheEntry = (value: unknown): value is CacheEntry =>
+  isRecord(value) && typeof value.key === 'string' && typeof value.createdAt === 'number' && isRecord(value.value);
+
+const readAll = (): CacheEntry[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isCacheEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeAll = (entries: CacheEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("분석 캐시를 저장하지 못했습니다.", error);
+  }
+};
+
+/** 공백 차이만 있는 입력은 같은 키가 되도록 문자열을 정리하고, 객체 키는 정렬해 직렬화합니다. */
+const normalize = (value: unknown): unknown => {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ');
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+/** 53비트 문자열 해시(cyrb53). 보안 용도가 아니라 캐시 키를 짧게 만드는 용도입니다. */
+const hash = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * 분석 입력(주제, 질문과 답변, 추가 요청, 대안, 언어, 모델)으로 캐시 키를 만듭니다. 내용이 같으면 항상 같은 키입니다.
+ */
+export const createCacheKey = (inputs: Record<string, unknown>): string => hash(JSON.stringify(normalize(inputs)));
+
+/**
+ * 만료된 항목을 빼고, 개수와 크기 상한을 넘으면 오래된 것부터 지웁니다. entries는 최신순입니다.
+ */
+const prune = (entries: CacheEntry[], now: number): CacheEntry[] => {
+  const kept = entries.filter(entry => now - entry.createdAt < CACHE_TTL_MS).slice(0, MAX_CACHE_ENTRIES);
+  while (kept.length > 1 && JSON.stringify(kept).length > MAX_CACHE_SIZE) kept.pop();
+  return kept;
+};
+
+/** 저장된 분석을 화면에 넘길 수 있는 형식으로 되살립니다. 형식이 어긋나면 던집니다. */
+export type RestoreAnalysis = (value: unknown) => AnalysisResult;
+
+/**
+ * 키에 맞는 캐시 항목을 restore로 확인해 돌려줍니다. 깨졌거나 이전 형식인 항목은 없는 것으로 봅니다.
+ */
+export const getCachedAnalysis = (key: string, restore: RestoreAnalysis = validateAnalysis, now: number = Date.now()): CacheEntry<AnalysisResult> | undefined => {
+  const entry = prune(readAll(), now).find(entry => entry.key === key);
+  if (!entry) return undefined;
+  try {
+    return { ...entry, value: restore(entry.value) };
+  } catch (error) {
+    console.warn("캐시된 분석의 형식이 올바르지 않아 새로 분석합니다.", error);
+    return undefined;
+  }
+};
+
+export const setCachedAnalysis = (key: string, value: AnalysisResult, now: number = Date.now()) =>
+  writeAll(prune([{ key, value, createdAt: now }, ...readAll().filter(entry => entry.key !== key)], now));
+
+/** 같은 분석을 기다리는 호출자 하나의 취소 신호와 스트리밍 콜백입니다. */
+export interface CacheWaiter {
+  signal?: AbortSignal;
+  onPartial?: (partial: Partial<AnalysisResult>) => void;
+}
+
+/**
+ * run이 받는, 함께 기다리는 모두를 대신하는 취소 신호와 스트리밍 콜백입니다.
+ * 처음 요청한 호출자가 onPartial을 넘겼을 때만 onPartial이 있으며, 그때만 스트리밍으로 받습니다.
+ */
+export interface SharedRun {
+  signal: AbortSignal;
+  onPartial?: (partial: Partial<AnalysisResult>) => void;
+}
+
+interface InFlightRequest {
+  promise: Promise<AnalysisResult>;
+  controller: AbortController;
+  /** 아직 취소하지 않고 기다리는 호출자 수 */
+  waiters: number;
+  listeners: Set<(partial: Partial<AnalysisResult>) => void>;
+}
+
+/** 같은 키로 진행 중인 요청. 동시에 들어온 같은 분석은 한 번만 호출합니다. */
+const inFlight = new Map<string, InFlightRequest>();
+
+const createAbortError = () => new DOMException('요청이 취소되었습니다.', 'AbortError');
+
+/**
+ * 진행 중인 요청을 기다립니다. 이 호출자가 취소하면 혼자 AbortError로 끝나고,
+ * 기다리는 모두가 취소했을 때만 실제 요청을 취소합니다.
+ */
+const join = (key: string, request: InFlightRequest, { signal, onPartial }: CacheWaiter): Promise<AnalysisResult> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  request.waiters++;
+  if (onPartial) request.listeners.add(onPartial);
+
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    const leave = () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (onPartial) request.listeners.delete(onPartial);
+    };
+    const onAbort = () => {
+      leave();
+      reject(createAbortError());
+      if (--request.waiters > 0) return;
+      // 취소된 요청에 새 호출자가 합류하지 않도록 먼저 목록에서 뺍니다.
+      if (inFlight.get(key) === request) inFlight.delete(key);
+      request.controller.abort();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    request.promise.then(resolve, reject).finally(leave);
+  });
+};
+
+/**
+ * 캐시에 있으면 그 결과를, 같은 요청이 진행 중이면 그 요청의 결과를, 둘 다 아니면 run을 호출해 결과를 캐시합니다.
+ * 함께 기다리는 호출자 모두가 스트리밍 조각을 받습니다. fresh이면 진행 중인 요청에도 합류하지 않고 새로 분석하며,
+ * 이후 같은 키의 요청은 새 분석을 기다립니다. 캐시에는 그 키의 가장 최근 요청 결과만 씁니다.
+ */
+export const withAnalysisCache = async (
+  key: string,
+  { fresh = false, onCached, ...waiter }: CacheOptions & CacheWaiter,
+  run: (shared: SharedRun) => Promise<AnalysisResult>,
+  restore?: RestoreAnalysis
+): Promise<AnalysisResult> => {
+  if (!fresh) {
+    const hit = getCachedAnalysis(key, restore);
+    if (hit) {
+      onCached?.(hit.createdAt);
+      return hit.value;
+    }
+    const pending = inFlight.get(key);
+    if (pending) return join(key, pending, waiter);
+  }
+
+  const controller = new AbortController();
+  const listeners = new Set<(partial: Partial<AnalysisResult>) => void>();
+  const request: InFlightRequest = {
+    promise: run({ signal: controller.signal, onPartial: waiter.onPartial && (partial => listeners.forEach(listener => listener(partial))) })
+      .then(value => {
+        // fresh 요청이 뒤에 시작했다면 먼저 시작한 요청의 결과로 덮어쓰지 않습니다.
+        if (inFlight.get(key) === request) setCachedAnalysis(key, value);
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === request) inFlight.delete(key);
+      }),
+    controller,
+    waiters: 0,
+    listeners
+  };
+  inFlight.set(key, request);
+  return join(key, request, waiter);
+};
@@ -0,0 +1,44 @@
+import { AnalysisResult } from "./types";
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+export interface AnalysisDiff {
+  recommendation: { before: string; after: string; changed: boolean };
+  score: { before: number; after: number; delta: number };
+  pros: ListDiff;
+  cons: ListDiff;
+  nextSteps: ListDiff;
+}
+
+export const DIFF_LIST_KEYS = ['pros', 'cons', 'nextSteps'] as const;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+/**
+ * 두 목록을 항목 단위로 비교합니다. 공백 차이만 있는 항목은 같은 항목으로 봅니다.
+ */
+const diffList = (before: string[], after: string[]): ListDiff => {
+  const beforeSet = new Set(before.map(normalize));
+  const afterSet = new Set(after.map(normalize));
+  return {
+    added: after.filter(item => !beforeSet.has(normalize(item))),
+    removed: before.filter(item => !afterSet.has(normalize(item))),
+    kept: after.filter(item => beforeSet.has(normalize(item)))
+  };
+};
+
+export const diffAnalyses = (before: AnalysisResult, after: AnalysisResult): AnalysisDiff => ({
+  recommendation: {
+    before: before.finalRecommendation,
+    after: after.finalRecommendation,
+    changed: normalize(before.finalRecommendation) !== normalize(after.finalRecommendation)
+  },
+  score: { before: before.score, after: after.score, delta: after.score - before.score },
+  pros: diffList(before.pros, after.pros),
+  cons: diffList(before.cons, after.cons),
+  nextSteps: diffList(before.nextSteps, after.nextSteps)
+});
@@ -0,0 +1,74 @@
+import { Answer, Language, Question } from "./types";
+import { DEFAULT_LANGUAGE, getMessages } from "./i18n";
+
+export const MIN_WEIGHT = 1;
+export const MAX_WEIGHT = 5;
+export const DEFAULT_WEIGHT = 3;
+
+export const createEmptyAnswer = (question: Question): Answer => ({
+  value: question.type === 'multi' ? [] : null,
+  weight: DEFAULT_WEIGHT
+});
+
+export const isAnswered = (question: Question, answer?: Answer): boolean => {
+  if (!answer) return false;
+  const hasOther = !!answer.other?.trim();
+  switch (question.type) {
+    case 'multi':
+      return (Array.isArray(answer.value) && answer.value.length > 0) || hasOther;
+    case 'number':
+      return typeof answer.value === 'number' && Number.isFinite(answer.value);
+    case 'text':
+      return typeof answer.value === 'string' && answer.value.trim() !== '';
+    case 'single':
+    default:
+      return (typeof answer.value === 'string' && answer.value !== '') || hasOther;
+  }
+};
+
+/**
+ * 답변을 사람이 읽을 수 있는 한 줄로 표현합니다. 프롬프트와 화면 요약에 함께 사용합니다.
+ */
+export const formatAnswer = (question: Question, answer?: Answer, language: Language = DEFAULT_LANGUAGE): string => {
+  const messages = getMessages(language);
+  if (!isAnswered(question, answer)) return messages.answer.none;
+  const { value, other } = answer!;
+  const otherText = other?.trim() ? messages.answer.other(other.trim()) : '';
+
+  switch (question.type) {
+    case 'multi':
+      return [...(value as string[]), otherText].filter(Boolean).join(', ');
+    case 'number':
+      return `${(value as number).toLocaleString(messages.locale)}${question.range?.unit ? ` ${question.range.unit}` : ''}`;
+    case 'text':
+      return (value as string).trim();
+    case 'single':
+    default:
+      return otherText || (value as string);
+  }
+};
+
+/**
+ * 이전 버전에서 저장된 type이 없는 질문을 현재 형식으로 변환합니다.
+ */
+export const migrateQuestion = (question: Question): Question => ({
+  ...question,
+  type: question.type ?? 'single'
+});
+
+/**
+ * 저장된 답변을 현재 형식으로 읽습니다. 이전 버전의 문자열 답변은 기본 중요도를 붙이고,
+ * 형식이 어긋난 값은 답하지 않은 것으로, 범위를 벗어난 중요도는 기본값으로 봅니다.
+ */
+export const migrateAnswer = (answer: unknown): Answer => {
+  if (typeof answer === 'string') return { value: answer, weight: DEFAULT_WEIGHT };
+  if (typeof answer !== 'object' || answer === null) return { value: null, weight: DEFAULT_WEIGHT };
+  const { value, other, weight } = answer as Record<string, unknown>;
+  return {
+    value: typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value)) ? value
+      : Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string')
+      : null,
+    ...(typeof other === 'string' && { other }),
+    weight: typeof weight === 'number' && Number.isInteger(weight) && weight >= MIN_WEIGHT && weight <= MAX_WEIGHT ? weight : DEFAULT_WEIGHT
+  };
+};
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerateJSONRequest } from './providers';
+import { MOCK_QUESTIONS } from './providers/mockProvider';
+import { analyzeDecision, generateQuestions } from './geminiService';
+import { AttachmentError, attachmentKind, buildAttachmentContext, chunkText, createAttachment, MAX_ATTACHMENT_CHARS } from './attachments';
+import { validateCitations } from './validation';
+
+// 실제 목업 모델로 응답하되, 모델에 보낸 요청을 기록합니다.
+const { requests } = vi.hoisted(() => ({ requests: [] as GenerateJSONRequest[] }));
+
+vi.mock('./providers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./providers')>();
+  const { createMockProvider } = await import('./providers/mockProvider');
+  return {
+    ...actual,
+    createProvider: () => {
+      const mock = createMockProvider('mock-v1', 0);
+      return {
+        ...mock,
+        generateJSON: (request: GenerateJSONRequest, options?: Parameters<typeof mock.generateJSON>[1]) => {
+          requests.push(request);
+          return mock.generateJSON(request, options);
+        }
+      };
+    }
+  };
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  });
+});
+
+const OFFER = createAttachment('offer.pdf', 'pdf', 2048, '연봉 6,000만원\n재택 주 2회\n입사일 2026-12-01');
+
+describe('attachmentKind', () => {
+  it.each([
+    ['offer.PDF', '', 'pdf'],
+    ['spec.md', '', 'markdown'],
+    ['prices.csv', 'text/csv', 'csv'],
+    ['notes', 'text/plain; charset=utf-8', 'text'],
+    ['photo.png', 'image/png', null]
+  ])('%s (%s) → %s', (name, type, expected) => {
+    expect(attachmentKind(name, type)).toBe(expected);
+  });
+});
+
+describe('chunkText', () => {
+  it('줄 단위로 묶되 조각 크기를 넘지 않고, 긴 줄은 잘라서 나눕니다', () => {
+    const text = ['가'.repeat(40), '나'.repeat(40), '다'.repeat(130)].join('\n');
+    const chunks = chunkText(text, 100);
+    expect(chunks.every(chunk => chunk.length <= 100)).toBe(true);
+    expect(chunks[0]).toBe(`${'가'.repeat(40)}\n${'나'.repeat(40)}`);
+    expect(chunks.join('').replace(/\n/g, '')).toBe(text.replace(/\n/g, ''));
+  });
+});
+
+describe('createAttachment', () => {
+  it('CSV는 조각마다 머리글 행을 붙입니다', () => {
+    const rows = Array.from({ length: 400 }, (_, i) => `업체${i},${i * 100},가능`);
+    const attachment = createAttachment('vendors.csv', 'csv', 0, ['업체,가격,납기', ...rows].join('\r\n'));
+    expect(attachment.chunks.length).toBeGreaterThan(1);
+    expect(attachment.chunks.every(chunk => chunk.startsWith('업체,가격,납기\n'))).toBe(true);
+    expect(attachment.chunks.map(chunk => chunk.split('\n').slice(1)).flat()).toEqual(rows);
+  });
+
+  it('보이지 않는 문자를 지우고, 너무 긴 내용은 잘라 표시합니다', () => {
+    const attachment = createAttachment('long.txt', 'text', 0, `\u202E숨김\u200B\n${'가'.repeat(MAX_ATTACHMENT_CHARS)}`);
+    expect(attachment.truncated).toBe(true);
+    expect(attachment.chunks.join('').length).toBeLessThanOrEqual(MAX_ATTACHMENT_CHARS);
+    expect(attachment.chunks[0]).toBe('숨김');
+  });
+
+  it('텍스트가 없는 파일은 AttachmentError로 실패합니다', () => {
+    expect(() => createAttachment('scan.pdf', 'pdf', 0, ' \n\n ')).toThrow(AttachmentError);
+  });
+});
+
+describe('buildAttachmentContext', () => {
+  it('모든 첨부가 들어가도록 돌아가며 조각을 고르고, 빠진 부분이 있으면 알립니다', () => {
+    const long = createAttachment('spec.md', 'markdown', 0, Array.from({ length: 10 }, (_, i) => `${i}`.repeat(1000)).join('\n'));
+    const context = buildAttachmentContext([long, OFFER], 2500);
+    expect(context).toContain('[A1] spec.md (Markdown)\n--- part 1 of 10 ---');
+    expect(context).not.toContain('--- part 3 of 10 ---');
+    expect(context).toContain('[A2] offer.pdf (PDF)\n--- part 1 of 1 ---\n연봉 6,000만원');
+    expect(context.match(/was left out/g)).toHaveLength(1);
+  });
+});
+
+describe('첨부 자료를 참고한 질문과 분석', () => {
+  it('첨부 내용을 라벨과 함께 사용자 입력 블록 안에 넣습니다', async () => {
+    await generateQuestions('이직할까?', { language: 'ko', attachments: [OFFER] });
+    const { prompt } = requests[0];
+    expect(prompt).toMatch(/<user_input name="attachments">\n\[A1\] offer\.pdf \(PDF\)\n[\s\S]*재택 주 2회[\s\S]*?\n<\/user_input>/);
+    expect(prompt).toContain('do not ask about facts they already state');
+  });
+
+  it('분석의 인용을 첨부 파일 이름으로 바꿔 돌려줍니다', async () => {
+    const result = await analyzeDecision('이직할까?', MOCK_QUESTIONS, {}, undefined, undefined, { language: 'ko', attachments: [OFFER] });
+    expect(requests[0].attachments).toEqual(['A1']);
+    expect(result.citations).toEqual([{ reasoning: 0, source: 'offer.pdf', excerpt: expect.any(String) }]);
+  });
+
+  it('첨부가 없으면 참고 자료 블록과 인용이 없습니다', async () => {
+    const result = await analyzeDecision('이직할까?', MOCK_QUESTIONS, {}, undefined, undefined, { language: 'ko' });
+    expect(requests[0].prompt).not.toContain('name="attachments"');
+    expect(result.citations).toBeUndefined();
+  });
+});
+
+describe('validateCitations', () => {
+  it('없는 근거 번호나 라벨, 중복된 인용은 버립니다', () => {
+    const raw = {
+      citations: [
+        { reasoning: 2, attachment: '[A1]', excerpt: '재택 주 2회' },
+        { reasoning: 2, attachment: 'a1', excerpt: '중복' },
+        { reasoning: 0, attachment: 'A1', excerpt: '번호는 1부터' },
+        { reasoning: 4, attachment: 'A1', excerpt: '없는 근거' },
+        { reasoning: 1, attachment: 'A3', excerpt: '없는 첨부' }
+      ]
+    };
+    expect(validateCitations(raw, 3, { A1: 'offer.pdf', A2: 'spec.md' })).toEqual([{ reasoning: 1, source: 'offer.pdf', excerpt: '재택 주 2회' }]);
+  });
+});
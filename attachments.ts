@@ -0,0 +1,198 @@
+import { Attachment, AttachmentKind } from "./types";
+import { sanitizeUserText } from "./promptSafety";
+import { createDecisionId } from "./historyStore";
+import { ErrorParams, Messages } from "./i18n";
+
+/** 한 세션에 첨부할 수 있는 최대 파일 수 */
+export const MAX_ATTACHMENTS = 5;
+/** 첨부할 수 있는 파일의 최대 크기(바이트) */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+/** 파일 하나에서 추출해 보관하는 최대 글자 수. 넘는 부분은 버립니다. */
+export const MAX_ATTACHMENT_CHARS = 40_000;
+/** 조각 하나의 최대 글자 수 */
+export const CHUNK_SIZE = 1_500;
+/** 한 번의 프롬프트에 넣는 첨부 내용의 최대 글자 수. 앱 서버의 요청 크기 제한 안에 들어가도록 정합니다. */
+export const MAX_CONTEXT_CHARS = 16_000;
+
+export const ATTACHMENT_ACCEPT = '.txt,.text,.md,.markdown,.csv,.pdf,text/plain,text/markdown,text/csv,application/pdf';
+
+const KIND_BY_EXTENSION: Record<string, AttachmentKind> = {
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  pdf: 'pdf'
+};
+
+const KIND_BY_TYPE: Record<string, AttachmentKind> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/csv': 'csv',
+  'application/pdf': 'pdf'
+};
+
+/** 프롬프트에 적는 파일 형식 이름 */
+const KIND_NAMES: Record<AttachmentKind, string> = {
+  text: 'plain text',
+  markdown: 'Markdown',
+  csv: 'CSV',
+  pdf: 'PDF'
+};
+
+export type AttachmentErrorKey = keyof Messages['errors']['attachment'];
+
+/**
+ * 첨부 파일을 읽을 수 없을 때 발생합니다. 화면은 key와 params로 화면 언어의 문구(errors.attachment)를 골라 보여줍니다.
+ */
+export class AttachmentError extends Error {
+  constructor(readonly key: AttachmentErrorKey, readonly params: ErrorParams = {}) {
+    super(key);
+    this.name = 'AttachmentError';
+  }
+}
+
+/**
+ * 확장자를 먼저 보고, 없으면 MIME 형식으로 첨부 형식을 정합니다. 지원하지 않는 파일이면 null입니다.
+ */
+export const attachmentKind = (name: string, type = ''): AttachmentKind | null => {
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return KIND_BY_EXTENSION[extension] ?? KIND_BY_TYPE[type.split(';')[0].trim()] ?? null;
+};
+
+/** 프롬프트와 인용에서 첨부를 가리키는 라벨(A1, A2, ...) */
+export const attachmentLabel = (index: number) => `A${index + 1}`;
+
+/**
+ * 텍스트를 줄 단위로 size 글자 이하의 조각으로 나눕니다. size보다 긴 줄은 잘라서 나눕니다.
+ */
+export const chunkText = (text: string, size: number = CHUNK_SIZE): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+  for (const line of text.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += size) {
+      const piece = line.slice(start, start + size);
+      if (current && current.length + 1 + piece.length > size) flush();
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  flush();
+  return chunks;
+};
+
+/**
+ * CSV는 행 단위로 나누고, 각 조각만 보고도 열을 알 수 있도록 모든 조각 앞에 머리글 행을 붙입니다.
+ */
+const chunkCSV = (text: string, size: number): string[] => {
+  const [header, ...rows] = text.split('\n');
+  if (rows.every(row => !row.trim())) return chunkText(header, size);
+  const rowSize = Math.max(size - header.length - 1, Math.floor(size / 2));
+  return chunkText(rows.join('\n'), rowSize).map(chunk => `${header}\n${chunk}`);
+};
+
+/** 보이지 않는 문자와 줄 끝 공백을 지우고 연속된 빈 줄을 하나로 줄입니다. */
+const normalizeText = (text: string) =>
+  sanitizeUserText(text).replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n').trim();
+
+/**
+ * 추출한 텍스트로 첨부를 만듭니다. MAX_ATTACHMENT_CHARS를 넘는 부분은 버리고 truncated로 표시합니다.
+ */
+export const createAttachment = (name: string, kind: AttachmentKind, size: number, text: string, now: number = Date.now()): Attachment => {
+  const normalized = normalizeText(text);
+  if (!normalized) throw new AttachmentError(kind === 'pdf' ? 'noPdfText' : 'empty');
+  const truncated = normalized.length > MAX_ATTACHMENT_CHARS;
+  const kept = truncated ? sanitizeUserText(normalized, MAX_ATTACHMENT_CHARS) : normalized;
+  return {
+    id: createDecisionId(),
+    name,
+    kind,
+    size,
+    chunks: kind === 'csv' ? chunkCSV(kept, CHUNK_SIZE) : chunkText(kept, CHUNK_SIZE),
+    truncated,
+    addedAt: now
+  };
+};
+
+/**
+ * PDF의 페이지 텍스트를 순서대로 이어 붙입니다. pdf.js는 처음 첨부할 때 불러오며, 분석은 워커에서 합니다.
+ * 보관할 글자 수를 넘으면 나머지 페이지는 읽지 않습니다.
+ */
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  let document;
+  try {
+    document = await pdfjs.getDocument({ data }).promise;
+  } catch (error) {
+    console.warn("PDF를 열지 못했습니다.", error);
+    throw new AttachmentError('unreadablePdf');
+  }
+  try {
+    const pages: string[] = [];
+    let length = 0;
+    for (let number = 1; number <= document.numPages && length <= MAX_ATTACHMENT_CHARS; number++) {
+      const content = await (await document.getPage(number)).getTextContent();
+      const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+      pages.push(text);
+      length += text.length;
+    }
+    return pages.join('\n\n');
+  } finally {
+    await document.destroy();
+  }
+};
+
+/** 이미 첨부한 파일과 이름이 겹치면 뒤에 번호를 붙입니다. 인용은 파일 이름으로 출처를 가리키기 때문입니다. */
+const uniqueName = (name: string, existing: Attachment[]) => {
+  const taken = new Set(existing.map(attachment => attachment.name));
+  if (!taken.has(name)) return name;
+  for (let n = 2; ; n++) {
+    if (!taken.has(`${name} (${n})`)) return `${name} (${n})`;
+  }
+};
+
+/**
+ * 파일에서 텍스트를 추출해 첨부로 만듭니다. 원본 파일은 보관하지 않습니다.
+ */
+export const readAttachment = async (file: File, existing: Attachment[] = []): Promise<Attachment> => {
+  if (existing.length >= MAX_ATTACHMENTS) throw new AttachmentError('tooMany', { max: MAX_ATTACHMENTS });
+  const kind = attachmentKind(file.name, file.type);
+  if (!kind) throw new AttachmentError('unsupported');
+  if (file.size > MAX_ATTACHMENT_BYTES) throw new AttachmentError('tooLarge', { max: MAX_ATTACHMENT_BYTES / 1024 / 1024 });
+  const text = kind === 'pdf' ? await extractPdfText(await file.arrayBuffer()) : await file.text();
+  return createAttachment(uniqueName(file.name, existing), kind, file.size, text);
+};
+
+/**
+ * 프롬프트에 넣을 참고 자료 본문을 만듭니다. 모든 첨부가 고르게 들어가도록 파일마다 한 조각씩 돌아가며 고르고,
+ * maxChars를 넘는 조각부터는 빼고 뒷부분이 빠졌다고 적습니다.
+ */
+export const buildAttachmentContext = (attachments: Attachment[], maxChars: number = MAX_CONTEXT_CHARS): string => {
+  const counts = attachments.map(() => 0);
+  let used = 0;
+  for (let progressed = true; progressed;) {
+    progressed = false;
+    attachments.forEach((attachment, i) => {
+      const chunk = attachment.chunks[counts[i]];
+      if (chunk === undefined || used + chunk.length > maxChars) return;
+      used += chunk.length;
+      counts[i]++;
+      progressed = true;
+    });
+  }
+
+  return attachments.map((attachment, i) => {
+    const total = attachment.chunks.length;
+    const complete = counts[i] === total && !attachment.truncated;
+    return [
+      `[${attachmentLabel(i)}] ${attachment.name} (${KIND_NAMES[attachment.kind]})`,
+      ...attachment.chunks.slice(0, counts[i]).map((chunk, part) => `--- part ${part + 1} of ${total} ---\n${chunk}`),
+      ...(complete ? [] : ['(The rest of this document was left out to keep the request short.)'])
+    ].join('\n');
+  }).join('\n\n');
+};
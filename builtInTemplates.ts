@@ -0,0 +1,137 @@
+import { DecisionTemplate, Language } from "./types";
+
+/**
+ * 앱에 기본으로 들어있는 템플릿입니다. 화면 언어에 맞는 목록만 보여주며, 같은 템플릿은 언어가 달라도 id가 같습니다.
+ */
+export const BUILT_IN_TEMPLATES: Record<Language, DecisionTemplate[]> = {
+  ko: [
+    {
+      id: 'builtin-hiring',
+      name: '채용 후보 결정',
+      description: '최종 후보 중 누구에게 제안할지 정합니다.',
+      questions: [
+        { id: 1, type: 'multi', text: "이번 포지션에서 가장 중요하게 보는 역량을 모두 골라주세요.", options: ["직무 전문성", "협업과 소통", "성장 가능성", "조직 문화 적합도"], allowOther: true },
+        { id: 2, type: 'single', text: "후보가 바로 성과를 내야 하나요, 아니면 키워서 쓸 여유가 있나요?", options: ["즉시 전력이 필요하다", "3~6개월 적응 기간은 괜찮다", "장기적으로 키울 수 있다"] },
+        { id: 3, type: 'single', text: "후보들의 처우 요구 수준은 예산과 비교해 어떤가요?", options: ["모두 예산 안이다", "일부가 예산을 넘는다", "대부분 예산을 넘는다"] },
+        { id: 4, type: 'single', text: "면접관들의 평가는 얼마나 일치했나요?", options: ["거의 일치했다", "한두 명이 다르게 봤다", "의견이 크게 갈렸다"] },
+        { id: 5, type: 'number', text: "늦어도 언제까지 합류해야 하나요?", options: [], range: { min: 0, max: 24, step: 1, unit: "주 이내" } },
+        { id: 6, type: 'text', text: "후보별로 가장 걱정되는 점을 적어주세요.", options: [] }
+      ],
+      language: 'ko',
+      builtIn: true,
+      createdAt: 0
+    },
+    {
+      id: 'builtin-vendor',
+      name: '업체·솔루션 선정',
+      description: '여러 공급 업체나 도구 중 하나를 고릅니다.',
+      questions: [
+        { id: 1, type: 'multi', text: "업체를 고를 때 꼭 충족해야 하는 조건을 모두 골라주세요.", options: ["가격", "기능 범위", "보안·규정 준수", "지원 품질"], allowOther: true },
+        { id: 2, type: 'number', text: "연간 사용할 수 있는 예산은 얼마인가요?", options: [], range: { min: 0, max: 50000, step: 100, unit: "만원" } },
+        { id: 3, type: 'single', text: "기존 시스템과의 연동은 얼마나 중요한가요?", options: ["반드시 연동되어야 한다", "있으면 좋다", "필요 없다"] },
+        { id: 4, type: 'single', text: "계약 후 바꾸기가 얼마나 어려운가요?", options: ["쉽게 바꿀 수 있다", "전환에 몇 달이 걸린다", "사실상 바꾸기 어렵다"] },
+        { id: 5, type: 'single', text: "도입을 언제까지 마쳐야 하나요?", options: ["한 달 이내", "분기 이내", "반년 이상 여유가 있다"] },
+        { id: 6, type: 'text', text: "후보 업체들에 대해 이미 알고 있는 장단점을 적어주세요.", options: [] }
+      ],
+      language: 'ko',
+      builtIn: true,
+      createdAt: 0
+    },
+    {
+      id: 'builtin-job-offer',
+      name: '이직 제안 검토',
+      description: '받은 제안을 수락할지, 지금 자리에 남을지 정합니다.',
+      questions: [
+        { id: 1, type: 'multi', text: "이직을 고민하게 된 이유를 모두 골라주세요.", options: ["연봉", "커리어 성장", "업무 환경", "사람과 문화"], allowOther: true },
+        { id: 2, type: 'number', text: "제안받은 연봉은 지금보다 몇 % 높은가요?", options: [], range: { min: -30, max: 100, step: 5, unit: "%" } },
+        { id: 3, type: 'single', text: "새 회사의 안정성은 어떻게 보이나요?", options: ["지금 회사보다 안정적이다", "비슷하다", "더 불안정하다"] },
+        { id: 4, type: 'single', text: "지금 회사에서 기대할 수 있는 다음 기회는 무엇인가요?", options: ["곧 승진이나 보상이 예정되어 있다", "불확실하다", "기대하기 어렵다"] },
+        { id: 5, type: 'single', text: "출퇴근이나 근무 형태는 어떻게 달라지나요?", options: ["더 좋아진다", "비슷하다", "더 나빠진다"] },
+        { id: 6, type: 'text', text: "제안을 받아들였을 때 가장 아쉬울 것 같은 점을 적어주세요.", options: [] }
+      ],
+      language: 'ko',
+      builtIn: true,
+      createdAt: 0
+    },
+    {
+      id: 'builtin-savings',
+      name: '예·적금 상품 선택',
+      description: '여러 예금·적금 상품 중 가입할 상품을 고릅니다.',
+      questions: [
+        { id: 1, type: 'number', text: "매달 넣을 수 있는 금액은 얼마인가요?", options: [], range: { min: 0, max: 500, step: 10, unit: "만원" } },
+        { id: 2, type: 'single', text: "돈을 묶어둘 수 있는 기간은 얼마나 되나요?", options: ["6개월 이하", "1년", "2년 이상"] },
+        { id: 3, type: 'single', text: "중도에 돈이 필요해질 가능성은 어느 정도인가요?", options: ["거의 없다", "조금 있다", "꽤 높다"] },
+        { id: 4, type: 'multi', text: "우대금리 조건 중 충족할 수 있는 것을 모두 골라주세요.", options: ["급여 이체", "카드 실적", "자동이체", "비대면 가입"], allowOther: true },
+        { id: 5, type: 'single', text: "이 돈의 목적은 무엇인가요?", options: ["비상금", "목돈 마련", "특정 지출 대비"], allowOther: true }
+      ],
+      language: 'ko',
+      builtIn: true,
+      createdAt: 0
+    }
+  ],
+  en: [
+    {
+      id: 'builtin-hiring',
+      name: 'Hiring decision',
+      description: 'Choose which finalist to make an offer to.',
+      questions: [
+        { id: 1, type: 'multi', text: "Which qualities matter most for this role? Select all that apply.", options: ["Domain expertise", "Collaboration and communication", "Growth potential", "Culture fit"], allowOther: true },
+        { id: 2, type: 'single', text: "Does the hire need to deliver right away, or is there room to grow into the role?", options: ["Needs to deliver immediately", "3-6 months to ramp up is fine", "Can be developed long term"] },
+        { id: 3, type: 'single', text: "How do the candidates' compensation expectations compare with the budget?", options: ["All within budget", "Some exceed the budget", "Most exceed the budget"] },
+        { id: 4, type: 'single', text: "How consistent were the interviewers' evaluations?", options: ["Mostly aligned", "One or two saw it differently", "Strongly divided"] },
+        { id: 5, type: 'number', text: "When does the new hire need to start at the latest?", options: [], range: { min: 0, max: 24, step: 1, unit: "weeks" } },
+        { id: 6, type: 'text', text: "What worries you most about each candidate?", options: [] }
+      ],
+      language: 'en',
+      builtIn: true,
+      createdAt: 0
+    },
+    {
+      id: 'builtin-vendor',
+      name: 'Vendor selection',
+      description: 'Pick one of several suppliers or tools.',
+      questions: [
+        { id: 1, type: 'multi', text: "Which requirements must the vendor meet? Select all that apply.", options: ["Price", "Feature coverage", "Security and compliance", "Support quality"], allowOther: true },
+        { id: 2, type: 'number', text: "What is the annual budget?", options: [], range: { min: 0, max: 500000, step: 1000, unit: "USD" } },
+        { id: 3, type: 'single', text: "How important is integration with existing systems?", options: ["It must integrate", "Nice to have", "Not needed"] },
+        { id: 4, type: 'single', text: "How hard is it to switch after signing?", options: ["Easy to switch", "Switching takes months", "Practically locked in"] },
+        { id: 5, type: 'single', text: "When does the rollout need to be done?", options: ["Within a month", "Within a quarter", "Six months or more"] },
+        { id: 6, type: 'text', text: "What strengths and weaknesses of the candidates do you already know?", options: [] }
+      ],
+      language: 'en',
+      builtIn: true,
+      createdAt: 0
+    },
+    {
+      id: 'builtin-job-offer',
+      name: 'Job offer',
+      description: 'Decide whether to accept an offer or stay where you are.',
+      questions: [
+        { id: 1, type: 'multi', text: "Why are you considering a move? Select all that apply.", options: ["Salary", "Career growth", "Work environment", "People and culture"], allowOther: true },
+        { id: 2, type: 'number', text: "How much higher is the offered salary than your current one?", options: [], range: { min: -30, max: 100, step: 5, unit: "%" } },
+        { id: 3, type: 'single', text: "How stable does the new company look?", options: ["More stable than my current one", "About the same", "Less stable"] },
+        { id: 4, type: 'single', text: "What is the next opportunity at your current company?", options: ["A promotion or raise is coming soon", "Uncertain", "Unlikely"] },
+        { id: 5, type: 'single', text: "How would your commute or working arrangement change?", options: ["Better", "About the same", "Worse"] },
+        { id: 6, type: 'text', text: "What would you miss most if you accepted the offer?", options: [] }
+      ],
+      language: 'en',
+      builtIn: true,
+      createdAt: 0
+    },
+    {
+      id: 'builtin-savings',
+      name: 'Savings product',
+      description: 'Pick a savings account or deposit among several products.',
+      questions: [
+        { id: 1, type: 'number', text: "How much can you put in each month?", options: [], range: { min: 0, max: 5000, step: 50, unit: "USD" } },
+        { id: 2, type: 'single', text: "How long can the money stay locked up?", options: ["6 months or less", "1 year", "2 years or more"] },
+        { id: 3, type: 'single', text: "How likely is it that you will need the money early?", options: ["Very unlikely", "Somewhat likely", "Quite likely"] },
+        { id: 4, type: 'multi', text: "Which bonus-rate conditions can you meet? Select all that apply.", options: ["Salary deposit", "Card spending", "Automatic transfers", "Online sign-up"], allowOther: true },
+        { id: 5, type: 'single', text: "What is this money for?", options: ["Emergency fund", "Building a lump sum", "A specific expense"], allowOther: true }
+      ],
+      language: 'en',
+      builtIn: true,
+      createdAt: 0
+    }
+  ]
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Attachment } from '../types';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, readAttachment } from '../attachments';
+import { detectPromptInjection } from '../promptSafety';
+import { useMessages } from '../i18n';
+
+interface AttachmentPanelProps {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  /** 파일을 읽지 못했을 때 호출됩니다. 그때까지 읽은 파일은 그대로 첨부됩니다. */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * 시작 화면에서 질문 생성과 분석에 참고할 파일을 첨부하고, 첨부한 파일의 추출 결과를 보여줍니다.
+ */
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ attachments, onChange, onError }) => {
+  const t = useMessages();
+  const [isReading, setIsReading] = useState(false);
+  const full = attachments.length >= MAX_ATTACHMENTS;
+
+  const handleFiles = async (files: File[]) => {
+    setIsReading(true);
+    let next = attachments;
+    try {
+      for (const file of files) {
+        next = [...next, await readAttachment(file, next)];
+      }
+    } catch (error) {
+      onError(error);
+    } finally {
+      onChange(next);
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs font-black text-slate-600 flex items-center gap-2"><i className="fas fa-paperclip text-indigo-500"></i> {t.attachments.title}</p>
+        <label className={`px-4 py-2 bg-white border border-indigo-100 text-indigo-600 rounded-xl text-xs font-black flex items-center gap-2 transition-all ${
+          full || isReading ? 'opacity-40' : 'hover:bg-indigo-600 hover:text-white cursor-pointer'
+        }`}>
+          <i className={`fas ${isReading ? 'fa-spinner animate-spin' : 'fa-plus'}`}></i> {isReading ? t.attachments.reading : t.attachments.add}
+          <input
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            disabled={full || isReading}
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              if (files.length > 0) handleFiles(files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-[11px] font-medium text-slate-400">{full ? t.attachments.limit(MAX_ATTACHMENTS) : t.attachments.hint}</p>
+      {attachments.length > 0 && (
+        <ul className="space-y-2">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl space-y-1">
+              <div className="flex items-center gap-3">
+                <i className={`fas ${attachment.kind === 'pdf' ? 'fa-file-pdf' : attachment.kind === 'csv' ? 'fa-file-csv' : 'fa-file-lines'} text-slate-400`}></i>
+                <span className="flex-1 min-w-0 text-sm font-bold text-slate-700 truncate">{attachment.name}</span>
+                <span className="text-[11px] font-bold text-slate-400">{t.attachments.kinds[attachment.kind]} &bull; {t.attachments.parts(attachment.chunks.length)}</span>
+                <button
+                  onClick={() => onChange(attachments.filter(a => a.id !== attachment.id))}
+                  aria-label={t.attachments.remove(attachment.name)}
+                  title={t.attachments.remove(attachment.name)}
+                  className="text-slate-300 hover:text-rose-500"
+                >
+                  <i className="fas fa-xmark"></i>
+                </button>
+              </div>
+              {attachment.truncated && <p className="text-[11px] font-bold text-amber-600">{t.attachments.truncated}</p>}
+              {detectPromptInjection(attachment.chunks.join('\n')) && (
+                <p role="status" className="text-[11px] font-bold text-amber-700 flex items-center gap-1">
+                  <i className="fas fa-shield-halved"></i> {t.attachments.injectionWarning}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
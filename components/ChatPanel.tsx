@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ChatMessage } from '../types';
+import { useMessages } from '../i18n';
+import { MAX_REFINEMENT_LENGTH, sanitizeUserText } from '../promptSafety';
+import InputSafetyNotice from './InputSafetyNotice';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  /** 답을 기다리는 중이면 지금까지 받은 답(처음에는 빈 문자열), 아니면 null */
+  pendingReply: string | null;
+  /** 심층 분석 중처럼 새 질문을 보낼 수 없는 상태 */
+  disabled: boolean;
+  onAsk: (text: string) => void;
+  /** 해당 사용자 메시지를 추가 요청으로 삼아 보고서 전체를 다시 분석합니다. */
+  onPromote: (message: ChatMessage) => void;
+}
+
+/**
+ * 결과 보고서에 대해 후속 질문을 주고받는 대화 패널입니다. 보고서는 그대로 두고 답만 받으며,
+ * 필요하면 질문 하나를 전체 재분석으로 이어갈 수 있습니다.
+ */
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, pendingReply, disabled, onAsk, onPromote }) => {
+  const t = useMessages();
+  const [draft, setDraft] = useState('');
+  const isAsking = pendingReply !== null;
+
+  const send = (text: string = draft) => {
+    if (!text.trim() || isAsking || disabled) return;
+    onAsk(text.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="pt-10 border-t border-slate-100 space-y-6 no-print">
+      <div className="flex flex-col items-center text-center space-y-2">
+        <h3 className="text-2xl font-black text-slate-800">{t.chat.title}</h3>
+        <p className="text-sm text-slate-500">{t.chat.description}</p>
+      </div>
+
+      {messages.length === 0 && !isAsking && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {t.chat.suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              disabled={disabled}
+              className="px-4 py-2 rounded-full bg-slate-50 hover:bg-indigo-50 text-xs font-bold text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-4" aria-live="polite">
+        {messages.map((message, i) => (
+          <li key={i} className={`flex flex-col gap-2 ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+            <p className={`max-w-[85%] px-5 py-4 rounded-3xl text-sm font-medium leading-relaxed whitespace-pre-line ${
+              message.role === 'user' ? 'bg-indigo-600 text-white rounded-br-lg' : 'bg-slate-50 text-slate-700 rounded-bl-lg'
+            }`}>
+              {message.text}
+            </p>
+            {message.role === 'user' && messages[i + 1]?.role === 'assistant' && (
+              <button
+                onClick={() => onPromote(message)}
+                disabled={disabled || isAsking}
+                className="text-[11px] font-black text-slate-400 hover:text-indigo-600 disabled:opacity-40 flex items-center gap-1"
+              >
+                <i className="fas fa-wand-magic-sparkles"></i> {t.chat.promote}
+              </button>
+            )}
+          </li>
+        ))}
+        {isAsking && (
+          <li className="flex items-start">
+            <p className="max-w-[85%] px-5 py-4 rounded-3xl rounded-bl-lg bg-slate-50 text-sm font-medium text-slate-700 leading-relaxed whitespace-pre-line">
+              {pendingReply || <span className="text-slate-400"><i className="fas fa-ellipsis fa-fade"></i> {t.chat.thinking}</span>}
+            </p>
+          </li>
+        )}
+      </ul>
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={draft}
+          maxLength={MAX_REFINEMENT_LENGTH}
+          onChange={(e) => setDraft(sanitizeUserText(e.target.value, MAX_REFINEMENT_LENGTH))}
+          onKeyDown={(e) => {
+            // Enter는 보내기, Shift+Enter는 줄바꿈입니다.
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          placeholder={t.chat.placeholder}
+          aria-label={t.chat.placeholder}
+          rows={2}
+          className="flex-1 px-5 py-4 border-2 border-slate-50 bg-slate-50 rounded-3xl focus:border-indigo-500 focus:bg-white transition-all text-sm resize-none outline-none leading-relaxed"
+        />
+        <button
+          onClick={() => send()}
+          disabled={!draft.trim() || isAsking || disabled}
+          aria-label={t.chat.send}
+          className="w-14 h-14 flex-shrink-0 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-2xl shadow-xl transition-all flex items-center justify-center"
+        >
+          <i className={`fas ${isAsking ? 'fa-spinner animate-spin' : 'fa-paper-plane'}`}></i>
+        </button>
+      </div>
+      <InputSafetyNotice text={draft} maxLength={MAX_REFINEMENT_LENGTH} />
+    </div>
+  );
+};
+
+export default ChatPanel;
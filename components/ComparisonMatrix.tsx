@@ -0,0 +1,80 @@
+import React from 'react';
+import { ComparisonResult } from '../types';
+import { useMessages } from '../i18n';
+
+interface ComparisonMatrixProps {
+  comparison: ComparisonResult;
+  currentTitle: string;
+  onSelectOption: (title: string) => void;
+}
+
+const scoreClass = (score: number, isBest: boolean) =>
+  isBest ? 'bg-indigo-600 text-white' : score >= 7 ? 'bg-emerald-50 text-emerald-700' : score >= 4 ? 'bg-slate-100 text-slate-600' : 'bg-rose-50 text-rose-600';
+
+const ComparisonMatrix: React.FC<ComparisonMatrixProps> = ({ comparison, currentTitle, onSelectOption }) => {
+  const t = useMessages();
+  const { criteria, options } = comparison;
+  const bestTotal = Math.max(...options.map(option => option.total));
+
+  return (
+    <div className="overflow-x-auto -mx-2 px-2">
+      <table className="w-full min-w-[560px] border-separate border-spacing-2 text-left">
+        <thead>
+          <tr>
+            <th className="text-[10px] font-black text-slate-400 uppercase tracking-widest align-bottom pb-2">{t.comparison.criterion}</th>
+            {options.map(option => (
+              <th key={option.title} className="align-bottom pb-2">
+                <button
+                  onClick={() => onSelectOption(option.title)}
+                  disabled={option.title === currentTitle}
+                  className={`w-full text-left text-sm font-black leading-snug transition-colors ${
+                    option.title === currentTitle ? 'text-indigo-600' : 'text-slate-700 hover:text-indigo-600'
+                  }`}
+                >
+                  {option.title === currentTitle && <i className="fas fa-star text-[10px] mr-1"></i>}
+                  {option.title}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {criteria.map((criterion, row) => {
+            const bestScore = Math.max(...options.map(option => option.cells[row].score));
+            return (
+              <tr key={criterion.name}>
+                <td className="align-top py-2 pr-2 w-40">
+                  <p className="text-sm font-black text-slate-800">{criterion.name}</p>
+                  <p className="text-[11px] text-slate-400 font-medium leading-snug">{criterion.description}</p>
+                </td>
+                {options.map(option => {
+                  const cell = option.cells[row];
+                  return (
+                    <td key={option.title} className="align-top p-3 bg-slate-50 rounded-2xl">
+                      <span className={`inline-block px-2 py-1 rounded-lg text-xs font-black ${scoreClass(cell.score, cell.score === bestScore)}`}>
+                        {cell.score} / 10
+                      </span>
+                      <p className="mt-2 text-xs text-slate-500 font-medium leading-relaxed">{cell.rationale}</p>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+          <tr>
+            <td className="py-2 text-sm font-black text-slate-800">{t.comparison.total}</td>
+            {options.map(option => (
+              <td key={option.title} className={`p-3 rounded-2xl text-center text-lg font-black ${
+                option.total === bestTotal ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-100 text-slate-700'
+              }`}>
+                {option.total}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ComparisonMatrix;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ConsistencyIssue, Question } from '../types';
+import { useMessages } from '../i18n';
+
+interface ConsistencyReviewProps {
+  issues: ConsistencyIssue[];
+  questions: Question[];
+  /** 해당 질문으로 돌아가 답변을 고칩니다. */
+  onRevisit: (questionId: number) => void;
+  onProceed: () => void;
+}
+
+const KIND_CLASS: Record<ConsistencyIssue['kind'], string> = {
+  contradiction: 'bg-rose-50 text-rose-600',
+  lowInformation: 'bg-amber-50 text-amber-700'
+};
+
+/**
+ * 분석 직전에 모순되거나 정보가 부족한 답변을 보여주고, 해당 질문으로 돌아가거나 그대로 분석하게 합니다.
+ */
+const ConsistencyReview: React.FC<ConsistencyReviewProps> = ({ issues, questions, onRevisit, onProceed }) => {
+  const t = useMessages();
+  const indexOf = (id: number) => questions.findIndex(q => q.id === id);
+
+  return (
+    <div className="space-y-8 animate-fadeIn">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-black text-slate-800 tracking-tight">{t.consistency.title}</h2>
+        <p className="text-sm text-slate-400 font-medium">{t.consistency.description}</p>
+      </div>
+
+      <div className="space-y-4">
+        {issues.map((issue, i) => (
+          <div key={i} className="p-6 bg-white border border-slate-100 rounded-[2rem] shadow-sm space-y-4">
+            <div className="flex items-start gap-3">
+              <span className={`flex-shrink-0 px-3 py-1 rounded-full text-[10px] font-black ${KIND_CLASS[issue.kind]}`}>{t.consistency.kinds[issue.kind]}</span>
+              <p className="text-sm font-bold text-slate-700 leading-relaxed">{issue.message}</p>
+            </div>
+            <div className="space-y-2">
+              {issue.questionIds.filter(id => indexOf(id) >= 0).map(id => (
+                <button
+                  key={id}
+                  onClick={() => onRevisit(id)}
+                  className="w-full p-4 bg-slate-50 hover:bg-indigo-50 rounded-2xl text-left flex items-center gap-3 transition-all group"
+                >
+                  <span className="text-xs font-black text-indigo-500 flex-shrink-0">{t.consistency.goTo(indexOf(id) + 1)}</span>
+                  <span className="text-xs font-medium text-slate-500 truncate flex-1">{questions[indexOf(id)].text}</span>
+                  <i className="fas fa-arrow-right text-slate-300 group-hover:text-indigo-500"></i>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onProceed}
+        className="w-full py-6 bg-slate-900 hover:bg-indigo-600 text-white rounded-[2rem] font-black text-xl shadow-2xl transition-all flex items-center justify-center gap-3"
+      >
+        {t.consistency.proceed} <i className="fas fa-brain"></i>
+      </button>
+    </div>
+  );
+};
+
+export default ConsistencyReview;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { DecisionRecord } from '../types';
+import { useMessages } from '../i18n';
+import { isCheckInDue } from '../outcomes';
+
+interface DecisionHistoryProps {
+  records: DecisionRecord[];
+  onOpen: (record: DecisionRecord) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const DecisionHistory: React.FC<DecisionHistoryProps> = ({ records, onOpen, onRename, onDelete }) => {
+  const t = useMessages();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (records.length === 0) return null;
+
+  const startEditing = (record: DecisionRecord) => {
+    setEditingId(record.id);
+    setDraftTitle(record.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (record: DecisionRecord) => {
+    if (window.confirm(t.history.confirmDelete(record.title))) onDelete(record.id);
+  };
+
+  return (
+    <div className="space-y-5 pt-10 border-t border-slate-100">
+      <h3 className="text-lg font-black text-slate-800 flex items-center gap-3">
+        <i className="fas fa-clock-rotate-left text-indigo-500"></i> {t.history.title}
+      </h3>
+      <div className="space-y-3">
+        {records.map(record => (
+          <div key={record.id} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl flex items-center gap-4 hover:bg-white hover:shadow-md transition-all">
+            <div className="flex-1 min-w-0 space-y-1">
+              {editingId === record.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-3 py-1 bg-white border-2 border-indigo-500 rounded-xl text-sm font-bold text-slate-800 outline-none"
+                />
+              ) : (
+                <button onClick={() => onOpen(record)} className="block w-full text-left text-sm font-black text-slate-800 truncate hover:text-indigo-600">
+                  {record.title}
+                </button>
+              )}
+              <p className="text-[11px] font-bold text-slate-400 flex items-center gap-2">
+                {record.result ? (
+                  <span className="text-emerald-600"><i className="fas fa-circle-check"></i> {t.history.done}</span>
+                ) : (
+                  <span className="text-amber-600"><i className="fas fa-pen"></i> {t.history.inProgress(record.currentStep + 1, record.questions.length)}</span>
+                )}
+                {record.outcome && (
+                  isCheckInDue(record.outcome)
+                    ? <span className="text-amber-600">&bull; <i className="fas fa-bell"></i> {t.history.checkInDue}</span>
+                    : <span className="text-indigo-500">&bull; <i className="fas fa-flag-checkered"></i> {record.outcome.review ? t.history.reviewed(record.outcome.review.satisfaction) : t.history.decided}</span>
+                )}
+                <span>&bull; {new Date(record.updatedAt).toLocaleString(t.locale, { dateStyle: 'short', timeStyle: 'short' })}</span>
+              </p>
+            </div>
+            <button onClick={() => onOpen(record)} className="px-4 py-2 bg-white border border-indigo-100 text-indigo-600 rounded-xl text-xs font-black hover:bg-indigo-600 hover:text-white transition-all">
+              {record.result ? t.history.view : t.history.resume}
+            </button>
+            <button onClick={() => startEditing(record)} className="text-slate-300 hover:text-indigo-500" title={t.history.rename}>
+              <i className="fas fa-pen-to-square"></i>
+            </button>
+            <button onClick={() => handleDelete(record)} className="text-slate-300 hover:text-rose-500" title={t.history.delete}>
+              <i className="fas fa-trash-can"></i>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DecisionHistory;
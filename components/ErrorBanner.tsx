@@ -0,0 +1,80 @@
+import React from 'react';
+import { ErrorKind } from '../errors';
+import { useMessages } from '../i18n';
+
+export interface AppError {
+  kind: ErrorKind;
+  message: string;
+  /** 실패한 동작을 같은 입력으로 다시 실행합니다. */
+  retry?: () => void;
+}
+
+interface ErrorBannerProps {
+  error: AppError;
+  onDismiss: () => void;
+  onOpenKeySettings: () => void;
+}
+
+const ICONS: Record<ErrorKind, string> = {
+  auth: 'fa-key',
+  quota: 'fa-gauge-high',
+  overloaded: 'fa-server',
+  safety: 'fa-shield-halved',
+  invalidOutput: 'fa-file-circle-exclamation',
+  network: 'fa-wifi',
+  unknown: 'fa-triangle-exclamation'
+};
+
+/** 오류 종류별로 제공할 복구 동작 */
+const RECOVERY: Record<ErrorKind, { keySettings: boolean; retry: boolean; hint?: boolean }> = {
+  auth: { keySettings: true, retry: false },
+  quota: { keySettings: true, retry: true },
+  overloaded: { keySettings: false, retry: true },
+  safety: { keySettings: false, retry: false, hint: true },
+  invalidOutput: { keySettings: false, retry: true },
+  network: { keySettings: false, retry: true },
+  unknown: { keySettings: false, retry: true }
+};
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss, onOpenKeySettings }) => {
+  const t = useMessages();
+  const recovery = RECOVERY[error.kind];
+
+  const handleRetry = () => {
+    onDismiss();
+    error.retry?.();
+  };
+
+  return (
+    <div className="mx-8 mt-8 p-6 bg-rose-50 border border-rose-100 rounded-[2.5rem] text-rose-800 flex flex-col gap-4 animate-shake">
+      <div className="flex items-start gap-4">
+        <div className="w-10 h-10 bg-rose-100 rounded-full flex items-center justify-center flex-shrink-0">
+          <i className={`fas ${ICONS[error.kind]}`}></i>
+        </div>
+        <div className="flex-1 space-y-1">
+          <p className="text-sm font-bold leading-relaxed">{error.message}</p>
+          {recovery.hint && <p className="text-xs font-medium text-rose-600">{t.errors.safetyHint}</p>}
+        </div>
+        <button onClick={onDismiss} className="text-rose-300 hover:text-rose-500">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      {(recovery.keySettings || (recovery.retry && error.retry)) && (
+        <div className="flex gap-3">
+          {recovery.retry && error.retry && (
+            <button onClick={handleRetry} className="flex-1 py-3 bg-white border border-rose-200 text-rose-700 rounded-xl font-bold text-xs hover:bg-rose-100 transition-colors flex items-center justify-center gap-2">
+              <i className="fas fa-rotate-right"></i> {t.errors.retry}
+            </button>
+          )}
+          {recovery.keySettings && (
+            <button onClick={onOpenKeySettings} className="flex-1 py-3 bg-rose-600 text-white rounded-xl font-bold text-xs hover:bg-rose-700 transition-colors flex items-center justify-center gap-2">
+              <i className="fas fa-key"></i> {t.errors.keySettings} {error.kind === 'quota' && t.errors.quotaUpgrade}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorBanner;
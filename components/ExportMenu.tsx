@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { DecisionState } from '../types';
+import { useMessages } from '../i18n';
+import { createShareLink, downloadFile, toFilename, toMarkdown, toSessionJSON } from '../sessionExport';
+
+interface ExportMenuProps {
+  title: string;
+  session: DecisionState;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ title, session }) => {
+  const t = useMessages();
+  const [linkStatus, setLinkStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const handleCopyLink = async () => {
+    try {
+      const link = await createShareLink(title, session);
+      await navigator.clipboard.writeText(link);
+      setLinkStatus('copied');
+    } catch (error) {
+      console.error("공유 링크 생성 실패:", error);
+      setLinkStatus('failed');
+    }
+    setTimeout(() => setLinkStatus('idle'), 2500);
+  };
+
+  const buttonClass = "py-4 bg-white border-2 border-slate-100 text-slate-700 font-black rounded-2xl hover:bg-slate-50 flex items-center justify-center gap-2 text-xs transition-colors";
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 no-print">
+      <button onClick={() => window.print()} className={buttonClass}><i className="fas fa-download"></i> {t.exportMenu.pdf}</button>
+      <button onClick={() => downloadFile(`${toFilename(title)}.md`, toMarkdown(title, session), 'text/markdown')} className={buttonClass}>
+        <i className="fab fa-markdown"></i> Markdown
+      </button>
+      <button onClick={() => downloadFile(`${toFilename(title)}.decider20.json`, toSessionJSON(title, session), 'application/json')} className={buttonClass}>
+        <i className="fas fa-file-code"></i> JSON
+      </button>
+      <button onClick={handleCopyLink} className={buttonClass}>
+        <i className={`fas ${linkStatus === 'copied' ? 'fa-check text-emerald-500' : linkStatus === 'failed' ? 'fa-triangle-exclamation text-rose-500' : 'fa-link'}`}></i>
+        {linkStatus === 'copied' ? t.exportMenu.copied : linkStatus === 'failed' ? t.exportMenu.failed : t.exportMenu.shareLink}
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { GroupInsight, Language, Participant, Question } from '../types';
+import { AgreementLevel, summarizeAgreement } from '../groupAgreement';
+import { useMessages } from '../i18n';
+
+interface GroupAgreementPanelProps {
+  questions: Question[];
+  participants: Participant[];
+  language: Language;
+  group?: GroupInsight;
+}
+
+const LEVEL_CLASS: Record<AgreementLevel, { badge: string; bar: string }> = {
+  agree: { badge: 'bg-emerald-50 text-emerald-700', bar: 'bg-emerald-400' },
+  mixed: { badge: 'bg-amber-50 text-amber-700', bar: 'bg-amber-400' },
+  conflict: { badge: 'bg-rose-50 text-rose-600', bar: 'bg-rose-400' }
+};
+
+/**
+ * 그룹 분석 결과 화면에서 질문별 일치도, 모델이 짚은 충돌 지점, 참여자별 유의 사항을 보여줍니다.
+ */
+const GroupAgreementPanel: React.FC<GroupAgreementPanelProps> = ({ questions, participants, language, group }) => {
+  const t = useMessages();
+  // 일치도가 낮은 질문부터, 비교할 수 없는 질문은 마지막에 보여줍니다.
+  const agreements = summarizeAgreement(questions, participants, language)
+    .sort((a, b) => (a.score ?? 2) - (b.score ?? 2));
+  const conflictById = new Map(group?.conflicts.map(conflict => [conflict.questionId, conflict.summary]));
+
+  return (
+    <div className="space-y-8 pt-10 border-t border-slate-100">
+      <div className="text-center space-y-2">
+        <h3 className="text-2xl font-black text-slate-800">{t.group.agreementTitle}</h3>
+        <p className="text-sm text-slate-400 font-medium">{t.group.agreementDescription}</p>
+      </div>
+
+      <div className="space-y-4">
+        {agreements.map(agreement => {
+          const question = questions.find(q => q.id === agreement.questionId)!;
+          const conflict = conflictById.get(agreement.questionId);
+          return (
+            <div key={agreement.questionId} className={`p-5 rounded-[2rem] border space-y-3 ${conflict ? 'border-rose-100 bg-rose-50/30' : 'border-slate-100 bg-white'}`}>
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-sm font-black text-slate-800 leading-snug">{question.text}</p>
+                <span className={`flex-shrink-0 px-3 py-1 rounded-full text-[10px] font-black ${agreement.level ? LEVEL_CLASS[agreement.level].badge : 'bg-slate-100 text-slate-400'}`}>
+                  {agreement.level ? `${t.group.levels[agreement.level]} ${Math.round(agreement.score! * 100)}%` : t.group.notComparable}
+                </span>
+              </div>
+              {agreement.level && (
+                <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
+                  <div className={`h-full ${LEVEL_CLASS[agreement.level].bar}`} style={{ width: `${agreement.score! * 100}%` }}></div>
+                </div>
+              )}
+              <ul className="space-y-1">
+                {agreement.responses.map(response => (
+                  <li key={response.name} className="text-xs font-medium text-slate-500">
+                    <span className="font-black text-slate-700">{response.name}</span> · {response.answer}
+                    <span className="text-slate-300"> ({response.weight})</span>
+                  </li>
+                ))}
+              </ul>
+              {conflict && <p className="text-xs font-bold text-rose-700 flex items-start gap-2"><i className="fas fa-code-compare mt-0.5"></i> {conflict}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {group && group.caveats.length > 0 && (
+        <div className="space-y-4">
+          <h4 className="text-lg font-black text-slate-800 flex items-center gap-3">
+            <i className="fas fa-user-shield text-indigo-500"></i> {t.group.caveatsTitle}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {group.caveats.map(caveat => (
+              <div key={caveat.name} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl space-y-1">
+                <p className="text-sm font-black text-indigo-600">{caveat.name}</p>
+                <p className="text-sm font-medium text-slate-600 leading-relaxed">{caveat.caveat}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupAgreementPanel;
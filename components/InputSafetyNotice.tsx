@@ -0,0 +1,33 @@
+import React from 'react';
+import { detectPromptInjection } from '../promptSafety';
+import { useMessages } from '../i18n';
+
+interface InputSafetyNoticeProps {
+  text: string;
+  maxLength: number;
+}
+
+/**
+ * 자유 입력칸 아래에 글자 수를 보여주고, 입력이 AI에게 지시를 내리려는 것처럼 보이면 경고합니다.
+ * 경고가 떠도 입력은 그대로 보낼 수 있으며, 프롬프트에서는 항상 데이터로만 다룹니다.
+ */
+const InputSafetyNotice: React.FC<InputSafetyNoticeProps> = ({ text, maxLength }) => {
+  const t = useMessages();
+  const suspicious = detectPromptInjection(text);
+
+  return (
+    <div className="space-y-2">
+      {suspicious && (
+        <p role="status" className="px-5 py-3 bg-amber-50 border border-amber-100 rounded-2xl text-xs font-bold text-amber-800 text-left flex items-start gap-2">
+          <i className="fas fa-shield-halved mt-0.5"></i>
+          <span>{t.safety.injectionWarning}</span>
+        </p>
+      )}
+      <p className={`text-right text-[11px] font-bold ${text.length >= maxLength ? 'text-rose-500' : 'text-slate-300'}`}>
+        {t.safety.count(text.length, maxLength)}
+      </p>
+    </div>
+  );
+};
+
+export default InputSafetyNotice;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language, StepTask } from '../types';
+import { tasksFor, toICalendar, toTaskCSV, toTaskMarkdown, updateTask } from '../stepTasks';
+import { createTaskPayload, getTaskWebhookUrl, isValidWebhookUrl, pushTasks, setTaskWebhookUrl, WebhookError } from '../taskWebhook';
+import { downloadFile, toFilename } from '../sessionExport';
+import { useMessages } from '../i18n';
+
+interface NextStepsChecklistProps {
+  steps: string[];
+  /** 저장된 단계별 진행 상황. 지금 분석에 없는 단계의 기록도 그대로 넘겨받아 보존합니다. */
+  tasks: StepTask[];
+  onChange: (tasks: StepTask[]) => void;
+  title: string;
+  topic: string;
+  recommendation: string;
+  language: Language;
+}
+
+/**
+ * 실행 가이드의 단계를 체크할 수 있는 할 일로 보여주고, 마감일과 담당자를 정해 캘린더·파일·트래커로 내보냅니다.
+ */
+const NextStepsChecklist: React.FC<NextStepsChecklistProps> = ({ steps, tasks, onChange, title, topic, recommendation, language }) => {
+  const t = useMessages();
+  const [openStep, setOpenStep] = useState<string | null>(null);
+  const [showWebhook, setShowWebhook] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState(getTaskWebhookUrl);
+  const [sendStatus, setSendStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+  /** 전송 실패 문구. 사용자가 닫을 때까지 보여줍니다. */
+  const [sendError, setSendError] = useState<string | null>(null);
+  const sentTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => () => clearTimeout(sentTimer.current), []);
+
+  const items = tasksFor(steps, tasks);
+  const doneCount = items.filter(task => task.done).length;
+  const hasDueDates = items.some(task => task.dueDate);
+  const filename = toFilename(title);
+
+  const update = (text: string, patch: Partial<Omit<StepTask, 'text'>>) => onChange(updateTask(tasks, text, patch));
+
+  const saveWebhookUrl = () => {
+    if (webhookUrl.trim() && !isValidWebhookUrl(webhookUrl.trim())) return;
+    setTaskWebhookUrl(webhookUrl);
+    setShowWebhook(false);
+  };
+
+  const handleSend = async () => {
+    const url = getTaskWebhookUrl();
+    if (!isValidWebhookUrl(url)) {
+      setShowWebhook(true);
+      return;
+    }
+    clearTimeout(sentTimer.current);
+    setSendStatus('sending');
+    setSendError(null);
+    try {
+      await pushTasks(url, createTaskPayload({ title, topic, recommendation }, items));
+      setSendStatus('sent');
+      sentTimer.current = setTimeout(() => setSendStatus('idle'), 2500);
+    } catch (error) {
+      console.error("할 일 웹훅 전송 실패:", error);
+      setSendStatus('failed');
+      setSendError(error instanceof WebhookError ? t.errors.webhook[error.key](error.params) : t.tasks.sendFailed);
+    }
+  };
+
+  const dismissSendError = () => {
+    setSendStatus('idle');
+    setSendError(null);
+  };
+
+  const buttonClass = "py-3 px-4 bg-white border border-indigo-100 text-indigo-600 font-black rounded-2xl hover:bg-indigo-600 hover:text-white disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-indigo-600 flex items-center justify-center gap-2 text-xs transition-colors";
+  const fieldClass = "px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-indigo-500";
+
+  return (
+    <div className="space-y-6 relative z-10">
+      <p className="text-xs font-black text-indigo-500">{t.tasks.progress(doneCount, items.length)}</p>
+
+      <ul className="grid grid-cols-1 gap-4">
+        {items.map((task, i) => (
+          <li key={task.text} className="bg-white p-5 rounded-[1.5rem] border border-indigo-100 shadow-sm space-y-4">
+            <div className="flex items-center gap-5">
+              <button
+                role="checkbox"
+                aria-checked={task.done}
+                aria-label={t.tasks.toggle(task.text)}
+                onClick={() => update(task.text, { done: !task.done })}
+                className={`w-10 h-10 rounded-xl flex items-center justify-center font-black flex-shrink-0 shadow-md transition-colors ${
+                  task.done ? 'bg-emerald-500 text-white' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                }`}
+              >
+                {task.done ? <i className="fas fa-check"></i> : i + 1}
+              </button>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className={`font-bold leading-relaxed ${task.done ? 'text-slate-400 line-through decoration-slate-300' : 'text-slate-700'}`}>{task.text}</p>
+                {(task.dueDate || task.owner) && (
+                  <p className="text-[11px] font-bold text-slate-400 flex flex-wrap gap-3">
+                    {task.dueDate && <span><i className="fas fa-calendar-day mr-1"></i>{t.tasks.due} {task.dueDate}</span>}
+                    {task.owner && <span><i className="fas fa-user mr-1"></i>{task.owner}</span>}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => setOpenStep(prev => prev === task.text ? null : task.text)}
+                aria-expanded={openStep === task.text}
+                title={t.tasks.details}
+                className="text-slate-300 hover:text-indigo-500 no-print"
+              >
+                <i className="fas fa-calendar-plus"></i>
+              </button>
+            </div>
+            {openStep === task.text && (
+              <div className="flex flex-wrap items-center gap-3 pl-[3.75rem] no-print">
+                <label className="flex items-center gap-2 text-xs font-black text-slate-500">
+                  {t.tasks.due}
+                  <input type="date" value={task.dueDate ?? ''} onChange={(e) => update(task.text, { dueDate: e.target.value })} className={fieldClass} />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-black text-slate-500">
+                  {t.tasks.owner}
+                  <input value={task.owner ?? ''} onChange={(e) => update(task.text, { owner: e.target.value })} placeholder={t.tasks.owner} className={fieldClass} />
+                </label>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-3 no-print">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <button
+            onClick={() => downloadFile(`${filename}.ics`, toICalendar(title, items, language), 'text/calendar')}
+            disabled={!hasDueDates}
+            className={buttonClass}
+          >
+            <i className="fas fa-calendar-days"></i> {t.tasks.exportIcs}
+          </button>
+          <button onClick={() => downloadFile(`${filename}-tasks.md`, toTaskMarkdown(title, items, language), 'text/markdown')} className={buttonClass}>
+            <i className="fas fa-list-check"></i> {t.tasks.exportMarkdown}
+          </button>
+          <button onClick={() => downloadFile(`${filename}-tasks.csv`, toTaskCSV(items), 'text/csv')} className={buttonClass}>
+            <i className="fas fa-file-csv"></i> {t.tasks.exportCsv}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={handleSend} disabled={sendStatus === 'sending'} className={`${buttonClass} flex-1`}>
+              <i className={`fas ${sendStatus === 'sending' ? 'fa-spinner animate-spin' : sendStatus === 'sent' ? 'fa-check' : sendStatus === 'failed' ? 'fa-triangle-exclamation' : 'fa-share-from-square'}`}></i>
+              {sendStatus === 'sending' ? t.tasks.sending : sendStatus === 'sent' ? t.tasks.sent : sendStatus === 'failed' ? t.tasks.sendFailed : t.tasks.send}
+            </button>
+            <button onClick={() => setShowWebhook(prev => !prev)} aria-expanded={showWebhook} title={t.tasks.webhook} className="px-3 text-slate-400 hover:text-indigo-600">
+              <i className="fas fa-gear"></i>
+            </button>
+          </div>
+        </div>
+        {!hasDueDates && <p className="text-[11px] font-medium text-slate-400">{t.tasks.noDueDates}</p>}
+        {sendError && (
+          <div role="alert" className="flex items-start gap-3 p-4 bg-rose-50 border border-rose-100 rounded-2xl text-xs font-bold text-rose-600">
+            <i className="fas fa-triangle-exclamation mt-0.5"></i>
+            <span className="flex-1">{sendError}</span>
+            <button onClick={dismissSendError} title={t.common.close} aria-label={t.common.close} className="text-rose-400 hover:text-rose-600">
+              <i className="fas fa-xmark"></i>
+            </button>
+          </div>
+        )}
+        {showWebhook && (
+          <div className="p-5 bg-white border border-indigo-100 rounded-2xl space-y-3">
+            <label className="block space-y-2">
+              <span className="text-xs font-black text-slate-500">{t.tasks.webhook}</span>
+              <input
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') saveWebhookUrl(); }}
+                placeholder={t.tasks.webhookPlaceholder}
+                className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-50 rounded-2xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500 focus:bg-white"
+              />
+            </label>
+            <p className={`text-[11px] font-medium ${webhookUrl.trim() && !isValidWebhookUrl(webhookUrl.trim()) ? 'text-rose-500' : 'text-slate-400'}`}>
+              {webhookUrl.trim() && !isValidWebhookUrl(webhookUrl.trim()) ? t.tasks.invalidWebhook : t.tasks.webhookHint}
+            </p>
+            <div className="flex justify-end">
+              <button onClick={saveWebhookUrl} className="py-2 px-5 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-xl text-xs">
+                {t.common.save}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NextStepsChecklist;
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { AnalysisResult, DecisionOutcome, OutcomeReview } from '../types';
+import { createOutcome, defaultCheckInDate, isCheckInDue, MAX_SATISFACTION, MIN_SATISFACTION } from '../outcomes';
+import { useMessages } from '../i18n';
+
+interface OutcomePanelProps {
+  analysis: AnalysisResult;
+  outcome?: DecisionOutcome;
+  onChange: (outcome: DecisionOutcome | undefined) => void;
+}
+
+const CUSTOM = '';
+
+const formatDate = (date: string, locale: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(locale, { dateStyle: 'medium' });
+
+const toggle = (list: number[], index: number) =>
+  list.includes(index) ? list.filter(i => i !== index) : [...list, index].sort((a, b) => a - b);
+
+/**
+ * 예상한 장점이나 단점마다 실제로 나타났는지 표시하는 목록입니다.
+ */
+const PredictionChecklist: React.FC<{ label: string; items: string[]; checked: number[]; onToggle: (index: number) => void }> = ({ label, items, checked, onToggle }) => (
+  <fieldset className="space-y-2">
+    <legend className="text-xs font-black text-slate-600 mb-2">{label}</legend>
+    {items.map((item, i) => (
+      <label key={i} className="flex items-start gap-3 text-sm font-medium text-slate-700 cursor-pointer">
+        <input type="checkbox" checked={checked.includes(i)} onChange={() => onToggle(i)} className="w-4 h-4 mt-0.5 accent-indigo-600" />
+        <span>{item}</span>
+      </label>
+    ))}
+  </fieldset>
+);
+
+/**
+ * 결과 화면에서 실제로 내린 결정과 점검일을 기록하고, 점검일에 실제 결과와 만족도를 남기는 패널입니다.
+ */
+const OutcomePanel: React.FC<OutcomePanelProps> = ({ analysis, outcome, onChange }) => {
+  const t = useMessages();
+  const options = [analysis.finalRecommendation, ...analysis.alternatives.map(alt => alt.title)];
+  const [choice, setChoice] = useState(options[0]);
+  const [customChoice, setCustomChoice] = useState('');
+  const [checkInDate, setCheckInDate] = useState(() => defaultCheckInDate());
+  const [reviewing, setReviewing] = useState(false);
+  const [draft, setDraft] = useState<Omit<OutcomeReview, 'reviewedAt'>>({ notes: '', satisfaction: 3, realizedPros: [], realizedCons: [] });
+
+  const decidedChoice = choice === CUSTOM ? customChoice.trim() : choice;
+
+  const startReview = () => {
+    setDraft(outcome?.review ?? { notes: '', satisfaction: 3, realizedPros: [], realizedCons: [] });
+    setReviewing(true);
+  };
+
+  const saveReview = () => {
+    if (!outcome) return;
+    onChange({ ...outcome, review: { ...draft, notes: draft.notes.trim(), reviewedAt: Date.now() } });
+    setReviewing(false);
+  };
+
+  const clear = () => {
+    if (window.confirm(t.outcome.confirmClear)) {
+      onChange(undefined);
+      setReviewing(false);
+    }
+  };
+
+  if (!outcome) {
+    return (
+      <div className="pt-10 border-t border-slate-100 space-y-6 no-print">
+        <div className="flex flex-col items-center text-center space-y-2">
+          <h3 className="text-2xl font-black text-slate-800">{t.outcome.title}</h3>
+          <p className="text-sm text-slate-500">{t.outcome.description}</p>
+        </div>
+        <div role="radiogroup" aria-label={t.outcome.title} className="flex flex-wrap justify-center gap-2">
+          {[...options, CUSTOM].map(option => (
+            <button
+              key={option || 'custom'}
+              role="radio"
+              aria-checked={choice === option}
+              onClick={() => setChoice(option)}
+              className={`px-4 py-2 rounded-full text-xs font-bold transition-all ${
+                choice === option ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-500 hover:bg-indigo-50 hover:text-indigo-600'
+              }`}
+            >
+              {option === analysis.finalRecommendation && <i className="fas fa-star mr-1"></i>}
+              {option || t.outcome.custom}
+            </button>
+          ))}
+        </div>
+        {choice === CUSTOM && (
+          <input
+            value={customChoice}
+            onChange={(e) => setCustomChoice(e.target.value)}
+            placeholder={t.outcome.customPlaceholder}
+            aria-label={t.outcome.customPlaceholder}
+            className="w-full px-5 py-3 border-2 border-slate-50 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white transition-all text-sm outline-none"
+          />
+        )}
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-black text-slate-500">
+            {t.outcome.checkIn}
+            <input
+              type="date"
+              value={checkInDate}
+              onChange={(e) => setCheckInDate(e.target.value)}
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-indigo-500"
+            />
+          </label>
+          <button
+            onClick={() => onChange(createOutcome(analysis, decidedChoice, checkInDate))}
+            disabled={!decidedChoice}
+            className="py-3 px-6 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-black rounded-2xl shadow-xl transition-all flex items-center gap-2 text-sm"
+          >
+            <i className="fas fa-flag-checkered"></i> {t.outcome.decide}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { predicted, review } = outcome;
+  const due = isCheckInDue(outcome);
+
+  return (
+    <div className="pt-10 border-t border-slate-100 space-y-6 no-print">
+      <div className="p-6 bg-slate-50 border border-slate-100 rounded-[2rem] space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <p className="text-lg font-black text-slate-800">{t.outcome.decided(outcome.choice)}</p>
+            <p className="text-[11px] font-bold text-slate-400 flex flex-wrap items-center gap-2">
+              <span className={outcome.followedRecommendation ? 'text-emerald-600' : 'text-amber-600'}>
+                {outcome.followedRecommendation ? t.outcome.followed : t.outcome.notFollowed}
+              </span>
+              <span>&bull; {t.outcome.decidedAt(new Date(outcome.decidedAt).toLocaleDateString(t.locale, { dateStyle: 'medium' }))}</span>
+              {outcome.checkInDate && !review && <span>&bull; {t.outcome.checkInOn(formatDate(outcome.checkInDate, t.locale))}</span>}
+            </p>
+          </div>
+          <button onClick={clear} className="text-slate-300 hover:text-rose-500" title={t.outcome.clear}>
+            <i className="fas fa-trash-can"></i>
+          </button>
+        </div>
+        {due && !reviewing && (
+          <p role="status" className="px-4 py-3 bg-amber-50 border border-amber-100 rounded-2xl text-xs font-bold text-amber-800 flex items-center gap-2">
+            <i className="fas fa-bell"></i> {t.outcome.due}
+          </p>
+        )}
+      </div>
+
+      {reviewing ? (
+        <div className="space-y-6">
+          <h3 className="text-xl font-black text-slate-800 text-center">{t.outcome.reviewTitle}</h3>
+          <textarea
+            value={draft.notes}
+            onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder={t.outcome.notesPlaceholder}
+            aria-label={t.outcome.notesPlaceholder}
+            rows={3}
+            className="w-full px-5 py-4 border-2 border-slate-50 bg-slate-50 rounded-3xl focus:border-indigo-500 focus:bg-white transition-all text-sm resize-none outline-none leading-relaxed"
+          />
+          <div role="radiogroup" aria-label={t.outcome.satisfaction} className="space-y-2">
+            <p className="text-xs font-black text-slate-600">{t.outcome.satisfaction}</p>
+            <div className="grid grid-cols-5 gap-2">
+              {Array.from({ length: MAX_SATISFACTION - MIN_SATISFACTION + 1 }, (_, i) => MIN_SATISFACTION + i).map(level => (
+                <button
+                  key={level}
+                  role="radio"
+                  aria-checked={draft.satisfaction === level}
+                  onClick={() => setDraft(prev => ({ ...prev, satisfaction: level }))}
+                  className={`py-3 rounded-2xl text-[11px] font-black transition-all ${
+                    draft.satisfaction === level ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-500 hover:bg-indigo-50'
+                  }`}
+                >
+                  <span className="block text-base">{level}</span>
+                  {t.outcome.satisfactionLevels[level]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <PredictionChecklist
+            label={t.outcome.prosHappened}
+            items={predicted.pros}
+            checked={draft.realizedPros}
+            onToggle={(i) => setDraft(prev => ({ ...prev, realizedPros: toggle(prev.realizedPros, i) }))}
+          />
+          <PredictionChecklist
+            label={t.outcome.consHappened}
+            items={predicted.cons}
+            checked={draft.realizedCons}
+            onToggle={(i) => setDraft(prev => ({ ...prev, realizedCons: toggle(prev.realizedCons, i) }))}
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setReviewing(false)} className="py-3 px-6 text-slate-500 hover:text-slate-800 font-black text-sm">
+              {t.common.cancel}
+            </button>
+            <button onClick={saveReview} className="py-3 px-6 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl shadow-xl transition-all text-sm">
+              {t.outcome.saveReview}
+            </button>
+          </div>
+        </div>
+      ) : review ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-5 bg-white border border-slate-100 rounded-2xl text-center">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.outcome.predicted}</p>
+              <p className="text-3xl font-black text-indigo-600">{predicted.score}%</p>
+            </div>
+            <div className="p-5 bg-white border border-slate-100 rounded-2xl text-center">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.outcome.actual}</p>
+              <p className="text-3xl font-black text-slate-800">{review.satisfaction}<span className="text-base text-slate-400">/{MAX_SATISFACTION}</span></p>
+              <p className="text-[11px] font-bold text-slate-500">{t.outcome.satisfactionLevels[review.satisfaction]}</p>
+            </div>
+          </div>
+          {review.notes && <p className="text-sm font-medium text-slate-700 leading-relaxed whitespace-pre-line">{review.notes}</p>}
+          {[{ label: t.outcome.prosHappened, items: predicted.pros, realized: review.realizedPros }, { label: t.outcome.consHappened, items: predicted.cons, realized: review.realizedCons }].map(({ label, items, realized }) => (
+            <div key={label} className="space-y-2">
+              <p className="text-xs font-black text-slate-600">{label}</p>
+              <ul className="space-y-1">
+                {items.map((item, i) => (
+                  <li key={i} className={`text-xs font-bold px-3 py-2 rounded-xl flex items-start gap-2 ${realized.includes(i) ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-50 text-slate-400'}`}>
+                    <i className={`fas ${realized.includes(i) ? 'fa-check' : 'fa-minus'} mt-0.5`} aria-label={realized.includes(i) ? t.outcome.realized : t.outcome.notRealized}></i>
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <button onClick={startReview} className="text-xs font-black text-indigo-600 hover:underline">{t.outcome.editReview}</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <button onClick={startReview} className="py-3 px-6 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl shadow-xl transition-all flex items-center gap-2 text-sm">
+            <i className="fas fa-clipboard-check"></i> {t.outcome.reviewNow}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutcomePanel;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Participant, Question } from '../types';
+import { isAnswered } from '../answers';
+import { useMessages } from '../i18n';
+
+interface ParticipantBarProps {
+  participants: Participant[];
+  activeId: string | null;
+  questions: Question[];
+  onSelect: (id: string) => void;
+  onAdd: (name: string) => void;
+  onExportSheet: () => void;
+  onImportSheet: (file: File) => void;
+}
+
+/**
+ * 그룹 모드에서 누가 답하고 있는지와 참여자별 진행 상황을 보여주고, 답변지를 주고받습니다.
+ */
+const ParticipantBar: React.FC<ParticipantBarProps> = ({ participants, activeId, questions, onSelect, onAdd, onExportSheet, onImportSheet }) => {
+  const t = useMessages();
+  const [newName, setNewName] = useState('');
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onAdd(newName.trim());
+    setNewName('');
+  };
+
+  return (
+    <div className="p-5 bg-slate-50 border border-slate-100 rounded-[2rem] space-y-4 no-print">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <i className="fas fa-users text-indigo-400"></i> {t.group.participants}
+        </span>
+        <div className="flex items-center gap-3 text-[11px] font-black">
+          <button onClick={onExportSheet} className="text-slate-400 hover:text-indigo-600 flex items-center gap-1">
+            <i className="fas fa-file-export"></i> {t.group.exportSheet}
+          </button>
+          <label className="text-slate-400 hover:text-indigo-600 flex items-center gap-1 cursor-pointer">
+            <i className="fas fa-file-import"></i> {t.group.importSheet}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportSheet(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {participants.map(participant => {
+          const answered = questions.filter(q => isAnswered(q, participant.answers[q.id])).length;
+          const active = participant.id === activeId;
+          return (
+            <button
+              key={participant.id}
+              onClick={() => onSelect(participant.id)}
+              className={`px-4 py-2 rounded-full text-xs font-black border transition-all flex items-center gap-2 ${
+                active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-100 text-slate-500 hover:border-indigo-200'
+              }`}
+            >
+              {answered === questions.length && <i className="fas fa-circle-check text-emerald-400"></i>}
+              {participant.name}
+              <span className="opacity-60">{answered}/{questions.length}</span>
+            </button>
+          );
+        })}
+        <div className="flex items-center gap-1">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            placeholder={t.group.addPlaceholder}
+            className="w-32 px-3 py-2 bg-white border border-slate-100 rounded-full text-xs font-bold text-slate-700 outline-none focus:border-indigo-500"
+          />
+          <button onClick={handleAdd} disabled={!newName.trim()} className="px-3 py-2 rounded-full text-xs font-black text-indigo-600 hover:bg-indigo-50 disabled:text-slate-300">
+            <i className="fas fa-plus"></i> {t.group.add}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantBar;
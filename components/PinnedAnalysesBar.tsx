@@ -0,0 +1,45 @@
+import React from 'react';
+import { AnalysisVersion } from '../types';
+import { useMessages } from '../i18n';
+
+interface PinnedAnalysesBarProps {
+  pinned: AnalysisVersion[];
+  current: AnalysisVersion;
+  onSelect: (version: AnalysisVersion) => void;
+  onTogglePin: () => void;
+}
+
+const PinnedAnalysesBar: React.FC<PinnedAnalysesBarProps> = ({ pinned, current, onSelect, onTogglePin }) => {
+  const t = useMessages();
+  const isPinned = pinned.some(version => version.id === current.id);
+  const tabs = isPinned ? pinned : [...pinned, current];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 no-print">
+      {tabs.length > 1 && tabs.map(version => {
+        const active = version.id === current.id;
+        return (
+          <button
+            key={version.id}
+            onClick={() => onSelect(version)}
+            className={`px-4 py-2 rounded-full text-xs font-black border transition-all max-w-[14rem] truncate ${
+              active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-100 text-slate-500 hover:border-indigo-200'
+            }`}
+          >
+            {version.analysis.finalRecommendation} <span className="opacity-60">{version.analysis.score}%</span>
+          </button>
+        );
+      })}
+      <button
+        onClick={onTogglePin}
+        className={`ml-auto px-4 py-2 rounded-full text-xs font-black transition-all flex items-center gap-2 ${
+          isPinned ? 'bg-amber-50 text-amber-700 border border-amber-100' : 'text-slate-400 hover:text-indigo-600'
+        }`}
+      >
+        <i className="fas fa-thumbtack"></i> {isPinned ? t.pinned.pinned : t.pinned.pin}
+      </button>
+    </div>
+  );
+};
+
+export default PinnedAnalysesBar;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { DEFAULT_SERVER_URL, PROVIDERS, ProviderId, ProviderSettings } from '../providers';
+import { useMessages } from '../i18n';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const t = useMessages();
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const info = PROVIDERS[draft.provider];
+  const isServer = draft.provider === 'server';
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // 공급자를 바꾸면 모델명도 해당 공급자의 기본값으로 맞춰줍니다.
+    setDraft(prev => ({ ...prev, provider, model: PROVIDERS[provider].defaultModel }));
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-6 p-8 bg-white border border-slate-100 rounded-[2.5rem] shadow-sm space-y-6 animate-fadeIn no-print">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-black text-slate-800 flex items-center gap-3"><i className="fas fa-sliders text-indigo-500"></i> {t.settings.title}</h3>
+        <button onClick={onClose} className="text-slate-300 hover:text-slate-500"><i className="fas fa-times"></i></button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => handleProviderChange(id)}
+            className={`py-3 px-2 rounded-2xl border-2 text-xs font-black transition-all ${
+              draft.provider === id ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-500 hover:border-indigo-100'
+            }`}
+          >
+            {t.settings.providers[id]}
+          </button>
+        ))}
+      </div>
+
+      {/* 앱 서버는 서버에 설정된 모델을 쓰므로 모델명을 받지 않습니다. */}
+      {!isServer && (
+        <label className="block space-y-2">
+          <span className="text-xs font-black text-slate-500">{t.settings.model}</span>
+          <input
+            value={draft.model}
+            onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+            placeholder={info.defaultModel}
+            className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-50 rounded-2xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500 focus:bg-white"
+          />
+        </label>
+      )}
+
+      {(info.usesEndpoint || isServer) && (
+        <label className="block space-y-2">
+          <span className="text-xs font-black text-slate-500">{t.settings.baseUrl}</span>
+          <input
+            value={draft.baseUrl}
+            onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+            placeholder={isServer ? DEFAULT_SERVER_URL : 'http://localhost:11434/v1'}
+            className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-50 rounded-2xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500 focus:bg-white"
+          />
+        </label>
+      )}
+
+      {info.usesEndpoint && (
+        <label className="block space-y-2">
+          <span className="text-xs font-black text-slate-500">{t.settings.apiKey}</span>
+          <input
+            type="password"
+            value={draft.apiKey}
+            onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+            className="w-full px-5 py-3 bg-slate-50 border-2 border-slate-50 rounded-2xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500 focus:bg-white"
+          />
+        </label>
+      )}
+
+      {isServer && (
+        <p className="text-xs text-slate-400 font-medium">{t.settings.serverHint}</p>
+      )}
+
+      {draft.provider === 'mock' && (
+        <p className="text-xs text-slate-400 font-medium">{t.settings.mockHint}</p>
+      )}
+
+      <button
+        onClick={() => onSave(draft)}
+        className="w-full py-4 bg-slate-900 hover:bg-indigo-600 text-white font-black rounded-2xl transition-all text-sm"
+      >
+        {t.common.save}
+      </button>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Question, QuestionType } from '../types';
+import { cleanQuestion, isQuestionComplete, nextQuestionId } from '../questionSet';
+import { MAX_QUESTIONS } from '../validation';
+import { useMessages } from '../i18n';
+
+interface QuestionEditorProps {
+  questions: Question[];
+  /** 이미 답한 질문이 있으면 내용을 바꿀 때 답변이 지워진다는 안내를 보여줍니다. */
+  hasAnswers: boolean;
+  /** 편집 중인 목록을 맥락으로 넘겨 해당 질문 하나를 모델로 다시 만듭니다. 실패하면 null을 반환합니다. */
+  onRegenerate: (draft: Question[], questionId: number) => Promise<Question | null>;
+  onConfirm: (questions: Question[]) => void;
+  /** 지금 초안을 이름 붙인 템플릿으로 저장합니다. */
+  onSaveTemplate: (questions: Question[], name: string) => void;
+}
+
+const QUESTION_TYPES: QuestionType[] = ['single', 'multi', 'text', 'number'];
+const DEFAULT_RANGE = { min: 0, max: 100, step: 1 };
+
+const fieldClass = 'px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500 focus:bg-white transition-all';
+const iconButtonClass = 'w-9 h-9 rounded-xl flex items-center justify-center text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:text-slate-200 disabled:hover:bg-transparent transition-all';
+
+/**
+ * 생성된 질문지를 답하기 전에 다듬는 편집 화면입니다. 확정하기 전까지는 로컬 초안만 바뀝니다.
+ */
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ questions, hasAnswers, onRegenerate, onConfirm, onSaveTemplate }) => {
+  const t = useMessages();
+  const [draft, setDraft] = useState<Question[]>(questions);
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [savedTemplateName, setSavedTemplateName] = useState<string | null>(null);
+
+  const update = (id: number, patch: Partial<Question>) =>
+    setDraft(prev => prev.map(q => (q.id === id ? { ...q, ...patch } : q)));
+
+  const changeType = (question: Question, type: QuestionType) => {
+    if (type === 'number') {
+      update(question.id, { type, range: question.range ?? DEFAULT_RANGE });
+    } else if (type === 'text') {
+      update(question.id, { type });
+    } else {
+      update(question.id, { type, options: question.options.length ? question.options : ['', ''] });
+    }
+  };
+
+  const move = (index: number, offset: number) =>
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addQuestion = () =>
+    setDraft(prev => [...prev, { id: nextQuestionId(prev, questions), type: 'single', text: '', options: ['', ''] }]);
+
+  const regenerate = async (id: number) => {
+    setRegeneratingId(id);
+    const replacement = await onRegenerate(draft, id);
+    setRegeneratingId(null);
+    // 다시 만든 질문은 새 id를 받아 기존 답변과 섞이지 않게 합니다.
+    if (replacement) {
+      setDraft(prev => prev.map(q => (q.id === id ? { ...replacement, id: nextQuestionId(prev, questions) } : q)));
+    }
+  };
+
+  const isComplete = draft.length > 0 && draft.every(q => isQuestionComplete(cleanQuestion(q)));
+
+  const saveTemplate = () => {
+    const name = templateName.trim();
+    if (!name || !isComplete) return;
+    onSaveTemplate(draft, name);
+    setSavedTemplateName(name);
+    setTemplateName('');
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-black text-slate-800 tracking-tight">{t.editor.title}</h2>
+        <p className="text-sm text-slate-400 font-medium">{t.editor.description}</p>
+        {hasAnswers && <p className="text-xs text-amber-600 font-bold">{t.editor.answersReset}</p>}
+      </div>
+
+      <div className="space-y-4">
+        {draft.map((question, index) => (
+          <div key={question.id} className="p-6 bg-white border border-slate-100 rounded-[2rem] space-y-4 shadow-sm">
+            <div className="flex items-start gap-3">
+              <span className="flex-shrink-0 w-9 h-9 rounded-xl bg-indigo-50 text-indigo-600 font-black text-sm flex items-center justify-center">{index + 1}</span>
+              <textarea
+                value={question.text}
+                onChange={(e) => update(question.id, { text: e.target.value })}
+                placeholder={t.editor.textPlaceholder}
+                rows={2}
+                className={`${fieldClass} flex-1 resize-none`}
+              />
+              <div className="flex flex-col">
+                <button onClick={() => move(index, -1)} disabled={index === 0} title={t.editor.moveUp} className={iconButtonClass}>
+                  <i className="fas fa-chevron-up"></i>
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === draft.length - 1} title={t.editor.moveDown} className={iconButtonClass}>
+                  <i className="fas fa-chevron-down"></i>
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 pl-12">
+              <select value={question.type} onChange={(e) => changeType(question, e.target.value as QuestionType)} className={fieldClass}>
+                {QUESTION_TYPES.map(type => <option key={type} value={type}>{t.editor.types[type]}</option>)}
+              </select>
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={() => regenerate(question.id)}
+                  disabled={regeneratingId !== null}
+                  className="px-3 py-2 rounded-xl text-xs font-black text-indigo-600 hover:bg-indigo-50 disabled:text-slate-300 flex items-center gap-2"
+                >
+                  <i className={`fas ${regeneratingId === question.id ? 'fa-spinner fa-spin' : 'fa-wand-magic-sparkles'}`}></i> {t.editor.regenerate}
+                </button>
+                <button
+                  onClick={() => setDraft(prev => prev.filter(q => q.id !== question.id))}
+                  disabled={draft.length === 1 || regeneratingId === question.id}
+                  className="px-3 py-2 rounded-xl text-xs font-black text-slate-400 hover:text-rose-600 hover:bg-rose-50 disabled:text-slate-200 flex items-center gap-2"
+                >
+                  <i className="fas fa-trash-can"></i> {t.editor.remove}
+                </button>
+              </div>
+            </div>
+
+            {(question.type === 'single' || question.type === 'multi') && (
+              <div className="pl-12 space-y-2">
+                {question.options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <input
+                      value={option}
+                      onChange={(e) => update(question.id, { options: question.options.map((o, i) => (i === optionIndex ? e.target.value : o)) })}
+                      placeholder={t.editor.optionPlaceholder(optionIndex + 1)}
+                      className={`${fieldClass} flex-1`}
+                    />
+                    <button
+                      onClick={() => update(question.id, { options: question.options.filter((_, i) => i !== optionIndex) })}
+                      title={t.editor.remove}
+                      className={iconButtonClass}
+                    >
+                      <i className="fas fa-xmark"></i>
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <button onClick={() => update(question.id, { options: [...question.options, ''] })} className="text-xs font-black text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+                    <i className="fas fa-plus"></i> {t.editor.addOption}
+                  </button>
+                  <label className="text-xs font-bold text-slate-500 flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!question.allowOther}
+                      onChange={(e) => update(question.id, { allowOther: e.target.checked })}
+                      className="accent-indigo-600"
+                    />
+                    {t.editor.allowOther}
+                  </label>
+                </div>
+              </div>
+            )}
+
+            {question.type === 'number' && (
+              <div className="pl-12 grid grid-cols-2 md:grid-cols-4 gap-2">
+                {(['min', 'max', 'step'] as const).map(key => (
+                  <label key={key} className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.editor[key]}</span>
+                    <input
+                      type="number"
+                      value={question.range?.[key] ?? ''}
+                      onChange={(e) => update(question.id, { range: { ...DEFAULT_RANGE, ...question.range, [key]: Number(e.target.value) } })}
+                      className={`${fieldClass} w-full`}
+                    />
+                  </label>
+                ))}
+                <label className="space-y-1">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.editor.unit}</span>
+                  <input
+                    value={question.range?.unit ?? ''}
+                    onChange={(e) => update(question.id, { range: { ...DEFAULT_RANGE, ...question.range, unit: e.target.value || undefined } })}
+                    className={`${fieldClass} w-full`}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addQuestion}
+        disabled={draft.length >= MAX_QUESTIONS}
+        className="w-full py-5 border-2 border-dashed border-slate-200 rounded-[2rem] text-sm font-black text-slate-400 hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-40 transition-all flex items-center justify-center gap-2"
+      >
+        <i className="fas fa-plus"></i> {t.editor.addQuestion}
+      </button>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={templateName}
+          onChange={(e) => { setTemplateName(e.target.value); setSavedTemplateName(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') saveTemplate(); }}
+          placeholder={t.templates.namePlaceholder}
+          className={`${fieldClass} flex-1`}
+        />
+        <button
+          onClick={saveTemplate}
+          disabled={!templateName.trim() || !isComplete}
+          className="px-5 py-3 rounded-2xl text-xs font-black text-indigo-600 border border-indigo-100 hover:bg-indigo-50 disabled:text-slate-300 disabled:border-slate-100 flex items-center gap-2"
+        >
+          <i className="fas fa-bookmark"></i> {t.editor.saveTemplate}
+        </button>
+      </div>
+      {savedTemplateName && <p className="text-xs font-bold text-emerald-600">{t.editor.templateSaved(savedTemplateName)}</p>}
+
+      <div className="space-y-3">
+        {!isComplete && <p className="text-center text-xs font-bold text-rose-500">{t.editor.incomplete}</p>}
+        <button
+          onClick={() => onConfirm(draft)}
+          disabled={!isComplete || regeneratingId !== null}
+          className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-xl hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 shadow-xl shadow-indigo-100 transition-all flex items-center justify-center gap-3"
+        >
+          {t.editor.confirm} <i className="fas fa-arrow-right"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,255 @@
+import React, { useEffect, useRef } from 'react';
+import { Answer, Question } from '../types';
+import { createEmptyAnswer, MAX_WEIGHT, MIN_WEIGHT } from '../answers';
+import { hasModifier, isTypingTarget, optionIndexForKey, optionLetter } from '../keyboard';
+import { useMessages } from '../i18n';
+
+interface QuestionInputProps {
+  question: Question;
+  answer?: Answer;
+  onChange: (answer: Answer) => void;
+  /** 선택지 묶음의 접근성 이름으로 쓸 질문 제목 요소의 id */
+  labelledBy?: string;
+}
+
+const optionClass = (selected: boolean) =>
+  `p-7 text-left rounded-[2rem] border-2 transition-all flex items-center gap-6 group ${
+    selected ? 'border-indigo-600 bg-indigo-50/50 shadow-md translate-x-1' : 'border-slate-50 hover:border-indigo-100 bg-slate-50/50 hover:bg-white'
+  }`;
+
+const badgeClass = (selected: boolean) =>
+  `flex-shrink-0 w-12 h-12 rounded-2xl flex items-center justify-center font-black text-lg ${
+    selected ? 'bg-indigo-600 text-white shadow-lg rotate-3' : 'bg-white text-slate-300 group-hover:text-indigo-400'
+  }`;
+
+const labelClass = (selected: boolean) =>
+  `font-bold text-lg ${selected ? 'text-indigo-900' : 'text-slate-600'}`;
+
+const QuestionInput: React.FC<QuestionInputProps> = ({ question, answer, onChange, labelledBy }) => {
+  const t = useMessages();
+  const choiceRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const weightRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const current = answer ?? createEmptyAnswer(question);
+  const update = (patch: Partial<Answer>) => onChange({ ...current, ...patch });
+
+  const selectedOptions = Array.isArray(current.value) ? current.value : [];
+  const isOtherSelected = current.other !== undefined;
+
+  const handleOption = (option: string) => {
+    if (question.type === 'multi') {
+      const next = selectedOptions.includes(option)
+        ? selectedOptions.filter(item => item !== option)
+        : [...selectedOptions, option];
+      update({ value: next });
+    } else {
+      update({ value: option, other: undefined });
+    }
+  };
+
+  const handleOther = () => {
+    if (question.type === 'multi') {
+      update({ other: isOtherSelected ? undefined : '' });
+    } else {
+      update({ value: null, other: current.other ?? '' });
+    }
+  };
+
+  const isSelected = (option: string) =>
+    question.type === 'multi' ? selectedOptions.includes(option) : current.value === option;
+
+  const isChoice = question.type === 'single' || question.type === 'multi';
+  const choiceCount = question.options.length + (question.allowOther ? 1 : 0);
+
+  /** 선택지 번호로 고릅니다. 마지막 번호는 '기타'입니다. */
+  const pickChoice = (index: number) => {
+    if (index < question.options.length) handleOption(question.options[index]);
+    else handleOther();
+  };
+
+  // 글자를 입력하는 중이 아니면 A–D 또는 1–4로 바로 선택지를 고릅니다.
+  useEffect(() => {
+    if (!isChoice) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (hasModifier(event) || isTypingTarget(event.target)) return;
+      const index = optionIndexForKey(event.key);
+      if (index === null || index >= choiceCount) return;
+      event.preventDefault();
+      pickChoice(index);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // 단일 선택은 라디오 그룹처럼 위아래 화살표로 이동하면서 고릅니다.
+  const handleChoiceKeyDown = (event: React.KeyboardEvent, index: number) => {
+    if (event.key !== 'ArrowDown' && event.key !== 'ArrowUp') return;
+    event.preventDefault();
+    const next = (index + (event.key === 'ArrowDown' ? 1 : -1) + choiceCount) % choiceCount;
+    choiceRefs.current[next]?.focus();
+    if (question.type === 'single') pickChoice(next);
+  };
+
+  const selectedChoice = question.options.findIndex(isSelected);
+  const focusableChoice = selectedChoice >= 0 ? selectedChoice : isOtherSelected ? question.options.length : 0;
+  /** 단일 선택은 선택된 항목 하나만 Tab으로 들어오고, 나머지는 화살표로 이동합니다. */
+  const choiceTabIndex = (index: number) => (question.type === 'multi' || index === focusableChoice ? 0 : -1);
+  const choiceRole = question.type === 'multi' ? 'checkbox' : 'radio';
+
+  const renderControl = () => {
+    switch (question.type) {
+      case 'text':
+        return (
+          <textarea
+            value={typeof current.value === 'string' ? current.value : ''}
+            onChange={(e) => update({ value: e.target.value })}
+            placeholder={t.question.textPlaceholder}
+            aria-labelledby={labelledBy}
+            className="w-full p-8 border-2 border-slate-50 bg-slate-50 rounded-[2.5rem] focus:border-indigo-500 focus:bg-white focus:ring-[12px] focus:ring-indigo-50 transition-all text-lg h-40 resize-none outline-none leading-relaxed"
+          />
+        );
+
+      case 'number': {
+        const range = question.range ?? { min: 0, max: 100, step: 1 };
+        const value = typeof current.value === 'number' ? current.value : null;
+        return (
+          <div className="p-8 bg-slate-50/50 border-2 border-slate-50 rounded-[2rem] space-y-6">
+            <div className="flex items-end justify-center gap-2">
+              <input
+                type="number"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={value ?? ''}
+                placeholder="-"
+                aria-labelledby={labelledBy}
+                onChange={(e) => update({ value: e.target.value === '' ? null : Number(e.target.value) })}
+                className="w-48 text-center text-4xl font-black text-indigo-700 bg-transparent outline-none border-b-2 border-indigo-100 focus:border-indigo-500"
+              />
+              {range.unit && <span className="text-lg font-bold text-slate-500 pb-1">{range.unit}</span>}
+            </div>
+            <input
+              type="range"
+              min={range.min}
+              max={range.max}
+              step={range.step}
+              value={value ?? (range.min + range.max) / 2}
+              aria-labelledby={labelledBy}
+              aria-valuetext={value === null ? undefined : t.a11y.rangeValue(`${value.toLocaleString(t.locale)}${range.unit ?? ''}`)}
+              onChange={(e) => update({ value: Number(e.target.value) })}
+              className="w-full accent-indigo-600"
+            />
+            <div className="flex justify-between text-xs font-bold text-slate-400">
+              <span>{range.min.toLocaleString(t.locale)}{range.unit}</span>
+              <span>{range.max.toLocaleString(t.locale)}{range.unit}</span>
+            </div>
+          </div>
+        );
+      }
+
+      case 'single':
+      case 'multi':
+      default:
+        return (
+          <div
+            role={question.type === 'multi' ? 'group' : 'radiogroup'}
+            aria-labelledby={labelledBy}
+            className="grid grid-cols-1 gap-4"
+          >
+            {question.type === 'multi' && (
+              <p className="text-xs font-black text-indigo-500 uppercase tracking-widest">{t.question.multiHint}</p>
+            )}
+            {question.options.map((option, idx) => (
+              <button
+                key={idx}
+                ref={el => { choiceRefs.current[idx] = el; }}
+                role={choiceRole}
+                aria-checked={isSelected(option)}
+                tabIndex={choiceTabIndex(idx)}
+                onClick={() => handleOption(option)}
+                onKeyDown={(e) => handleChoiceKeyDown(e, idx)}
+                className={optionClass(isSelected(option))}
+              >
+                <span className={badgeClass(isSelected(option))} aria-hidden="true">
+                  {question.type === 'multi' && isSelected(option) ? <i className="fas fa-check"></i> : optionLetter(idx)}
+                </span>
+                <span className={labelClass(isSelected(option))}>{option}</span>
+              </button>
+            ))}
+            {question.allowOther && (
+              <div className="space-y-3">
+                <button
+                  ref={el => { choiceRefs.current[question.options.length] = el; }}
+                  role={choiceRole}
+                  aria-checked={isOtherSelected}
+                  tabIndex={choiceTabIndex(question.options.length)}
+                  onClick={handleOther}
+                  onKeyDown={(e) => handleChoiceKeyDown(e, question.options.length)}
+                  className={optionClass(isOtherSelected)}
+                >
+                  <span className={badgeClass(isOtherSelected)} aria-hidden="true"><i className="fas fa-pen"></i></span>
+                  <span className={labelClass(isOtherSelected)}>{t.question.other}</span>
+                </button>
+                {isOtherSelected && (
+                  <input
+                    autoFocus
+                    value={current.other}
+                    onChange={(e) => update({ other: e.target.value })}
+                    placeholder={t.question.otherPlaceholder}
+                    aria-label={t.question.other}
+                    className="w-full px-7 py-5 bg-white border-2 border-indigo-100 rounded-[2rem] font-bold text-slate-700 outline-none focus:border-indigo-500"
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const weights = Array.from({ length: MAX_WEIGHT - MIN_WEIGHT + 1 }, (_, i) => MIN_WEIGHT + i);
+
+  // 중요도는 좌우(또는 위아래) 화살표로 한 칸씩 바꿉니다. 질문 이동 단축키로 번지지 않게 막습니다.
+  const handleWeightKeyDown = (event: React.KeyboardEvent) => {
+    const step = { ArrowRight: 1, ArrowUp: 1, ArrowLeft: -1, ArrowDown: -1 }[event.key];
+    if (!step) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const weight = Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, current.weight + step));
+    update({ weight });
+    weightRefs.current[weight - MIN_WEIGHT]?.focus();
+  };
+
+  return (
+    <div className="space-y-8">
+      {renderControl()}
+      {isChoice && <p className="hidden md:block text-[11px] font-bold text-slate-300 text-center">{t.a11y.shortcuts}</p>}
+      <div className="p-6 bg-white border border-slate-100 rounded-[2rem] space-y-4">
+        <div className="flex items-center justify-between">
+          <span id={`importance-${question.id}`} className="text-xs font-black text-slate-500 flex items-center gap-2"><i className="fas fa-weight-hanging text-indigo-400" aria-hidden="true"></i> {t.question.importance}</span>
+          <span className="text-xs font-black text-indigo-600" aria-hidden="true">{t.weights[current.weight]}</span>
+        </div>
+        <div role="radiogroup" aria-labelledby={`importance-${question.id}`} onKeyDown={handleWeightKeyDown} className="grid grid-cols-5 gap-2">
+          {weights.map((weight, i) => (
+            <button
+              key={weight}
+              ref={el => { weightRefs.current[i] = el; }}
+              role="radio"
+              aria-checked={weight === current.weight}
+              aria-label={t.a11y.importanceOption(weight, t.weights[weight])}
+              tabIndex={weight === current.weight ? 0 : -1}
+              onClick={() => update({ weight })}
+              title={t.weights[weight]}
+              className={`py-2 rounded-xl text-sm font-black transition-all ${
+                weight <= current.weight ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-300 hover:bg-indigo-50'
+              }`}
+            >
+              {weight}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionInput;
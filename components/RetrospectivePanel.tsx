@@ -0,0 +1,110 @@
+import React from 'react';
+import { DecisionRecord } from '../types';
+import { summarizeOutcomes } from '../outcomes';
+import { useMessages } from '../i18n';
+
+interface RetrospectivePanelProps {
+  records: DecisionRecord[];
+  onOpen: (record: DecisionRecord) => void;
+}
+
+/** 확신도와 실제 결과의 차이가 이 값(%p) 이하면 잘 맞았다고 봅니다. */
+const CALIBRATED_MARGIN = 10;
+
+/**
+ * 시작 화면에서 지난 결정들의 결과를 모아 보여줍니다. 점검일이 된 결정과 확신도 보정표가 들어갑니다.
+ */
+const RetrospectivePanel: React.FC<RetrospectivePanelProps> = ({ records, onOpen }) => {
+  const t = useMessages();
+  const summary = summarizeOutcomes(records);
+  if (summary.decided === 0) return null;
+
+  const { overconfidence } = summary;
+  const stats = [
+    { label: t.retrospective.decided, value: summary.decided },
+    { label: t.retrospective.reviewed, value: summary.reviewed },
+    { label: t.retrospective.satisfactionFollowed, value: summary.satisfaction.followed === null ? '–' : `${summary.satisfaction.followed}/5` },
+    { label: t.retrospective.satisfactionOther, value: summary.satisfaction.other === null ? '–' : `${summary.satisfaction.other}/5` },
+    { label: t.retrospective.prosRealized, value: summary.prosRealized === null ? '–' : `${summary.prosRealized}%` },
+    { label: t.retrospective.consRealized, value: summary.consRealized === null ? '–' : `${summary.consRealized}%` }
+  ];
+
+  return (
+    <div className="space-y-6 pt-10 border-t border-slate-100">
+      <div className="space-y-1">
+        <h3 className="text-lg font-black text-slate-800 flex items-center gap-3">
+          <i className="fas fa-chart-line text-indigo-500"></i> {t.retrospective.title}
+        </h3>
+        <p className="text-xs font-medium text-slate-500">{t.retrospective.description}</p>
+      </div>
+
+      {summary.due.length > 0 && (
+        <div className="p-5 bg-amber-50 border border-amber-100 rounded-2xl space-y-3">
+          <p className="text-xs font-black text-amber-800 flex items-center gap-2"><i className="fas fa-bell"></i> {t.retrospective.dueTitle}</p>
+          <ul className="space-y-2">
+            {summary.due.map(record => (
+              <li key={record.id} className="flex items-center gap-3">
+                <span className="flex-1 min-w-0 text-sm font-bold text-slate-800 truncate">{record.title}</span>
+                <span className="text-[11px] font-bold text-amber-700">{t.retrospective.dueOn(record.outcome!.checkInDate!)}</span>
+                <button onClick={() => onOpen(record)} className="px-3 py-1 bg-white border border-amber-200 text-amber-700 rounded-xl text-xs font-black hover:bg-amber-600 hover:text-white transition-all">
+                  {t.retrospective.review}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.reviewed === 0 ? (
+        <p className="text-sm font-medium text-slate-400">{t.retrospective.empty}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+                <p className="text-[10px] font-black text-slate-400">{stat.label}</p>
+                <p className="text-xl font-black text-slate-800">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {summary.bands.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-xs font-black text-slate-600">{t.retrospective.calibration}</p>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-slate-400">
+                    <th className="py-2 font-black">{t.retrospective.band}</th>
+                    <th className="py-2 font-black text-right">{t.retrospective.count}</th>
+                    <th className="py-2 font-black text-right">{t.retrospective.averageScore}</th>
+                    <th className="py-2 font-black text-right">{t.retrospective.goodRate}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.bands.map(band => (
+                    <tr key={band.min} className="border-t border-slate-100 font-bold text-slate-700">
+                      <td className="py-2">{band.min}–{band.max}%</td>
+                      <td className="py-2 text-right">{band.count}</td>
+                      <td className="py-2 text-right">{band.averageScore}%</td>
+                      <td className={`py-2 text-right ${Math.abs(band.averageScore - band.goodRate) <= CALIBRATED_MARGIN ? 'text-emerald-600' : 'text-amber-600'}`}>{band.goodRate}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {overconfidence !== null && (
+                <p className="text-sm font-bold text-slate-700">
+                  {Math.abs(overconfidence) <= CALIBRATED_MARGIN
+                    ? t.retrospective.calibrated
+                    : overconfidence > 0 ? t.retrospective.overconfident(overconfidence) : t.retrospective.underconfident(-overconfidence)}
+                </p>
+              )}
+              <p className="text-[11px] font-medium text-slate-400">{t.retrospective.goodRateHint}</p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RetrospectivePanel;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { AnalysisResult, DecisionScoring } from '../types';
+import { MAX_WEIGHT } from '../answers';
+import { analyzeSensitivity, computeScores, findDisagreement } from '../scoring';
+import { useMessages } from '../i18n';
+
+interface ScoreBreakdownPanelProps {
+  analysis: AnalysisResult;
+  scoring: DecisionScoring;
+}
+
+/** 기준 순서대로 막대와 범례에 쓰는 색 */
+const CRITERION_COLORS = ['bg-indigo-500', 'bg-emerald-400', 'bg-amber-400', 'bg-rose-400', 'bg-sky-400', 'bg-violet-400', 'bg-lime-400', 'bg-slate-400'];
+
+/**
+ * 결과 화면에서 모델의 서술 옆에 앱이 직접 계산한 가중 점수, 기준별 기여도, 가중치 민감도를 보여줍니다.
+ */
+const ScoreBreakdownPanel: React.FC<ScoreBreakdownPanelProps> = ({ analysis, scoring }) => {
+  const t = useMessages();
+  const { criteria } = scoring;
+  const ranking = computeScores(scoring);
+  const sensitivity = analyzeSensitivity(scoring);
+  const disagreement = findDisagreement(analysis, ranking);
+
+  return (
+    <div className="space-y-8 pt-10 border-t border-slate-100">
+      <div className="text-center space-y-2">
+        <h3 className="text-2xl font-black text-slate-800">{t.scoring.title}</h3>
+        <p className="text-sm text-slate-400 font-medium">{t.scoring.description}</p>
+      </div>
+
+      {disagreement && (
+        <div className="p-5 bg-amber-50 border border-amber-100 rounded-2xl text-sm font-bold text-amber-800 flex items-start gap-3">
+          <i className="fas fa-triangle-exclamation mt-0.5"></i>
+          {disagreement.kind === 'topChoice'
+            ? t.scoring.topChoiceMismatch(disagreement.engineTop)
+            : t.scoring.confidenceMismatch(disagreement.engineScore, analysis.score)}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.scoring.criteria}</h4>
+          <ul className="space-y-3">
+            {criteria.map((criterion, i) => (
+              <li key={criterion.name} className="flex items-center gap-3">
+                <span className={`w-3 h-3 rounded-full flex-shrink-0 ${CRITERION_COLORS[i % CRITERION_COLORS.length]}`}></span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-black text-slate-800">{criterion.name}</p>
+                  {criterion.questionIds.length > 0 && (
+                    <p className="text-[11px] font-medium text-slate-400">{t.scoring.basedOn(criterion.questionIds.map(id => `#${id}`).join(', '))}</p>
+                  )}
+                </div>
+                <span className="text-xs font-black text-slate-600">{criterion.weight} / {MAX_WEIGHT}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-4">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.scoring.ranking}</h4>
+          <div className="space-y-4">
+            {ranking.map((option, rank) => (
+              <div key={option.title} className="space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <p className={`text-sm font-black truncate ${rank === 0 ? 'text-indigo-600' : 'text-slate-700'}`}>
+                    {rank === 0 && <i className="fas fa-crown text-[10px] mr-1"></i>}
+                    {option.title}
+                  </p>
+                  <span className="text-sm font-black text-slate-800">{option.total}</span>
+                </div>
+                <div className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden flex">
+                  {option.contributions.map((value, i) => (
+                    <div key={criteria[i].name} title={`${criteria[i].name} ${value}`} className={CRITERION_COLORS[i % CRITERION_COLORS.length]} style={{ width: `${value}%` }}></div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.scoring.sensitivity}</h4>
+        <ul className="space-y-2">
+          {sensitivity.map(item => (
+            <li key={item.criterion} className={`text-xs font-bold flex items-start gap-2 ${item.rival ? 'text-rose-700' : 'text-slate-500'}`}>
+              <i className={`fas ${item.rival ? 'fa-shuffle' : 'fa-anchor'} mt-0.5`}></i>
+              {item.rival && item.flipWeight !== null
+                ? t.scoring.flips(item.criterion, item.weight, item.flipWeight, item.rival)
+                : t.scoring.stable(item.criterion, MAX_WEIGHT)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreBreakdownPanel;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AnalysisResult } from '../types';
+import { useMessages } from '../i18n';
+
+interface StreamingAnalysisPreviewProps {
+  partial: Partial<AnalysisResult>;
+}
+
+/**
+ * 분석 응답이 스트리밍되는 동안 도착한 부분부터 결과 화면과 같은 순서로 보여줍니다.
+ */
+const StreamingAnalysisPreview: React.FC<StreamingAnalysisPreviewProps> = ({ partial }) => {
+  const t = useMessages();
+  const { finalRecommendation, summary, reasoning, pros, cons } = partial;
+  if (!finalRecommendation && !summary) return null;
+
+  return (
+    <div className="w-full space-y-8 text-left animate-fadeIn">
+      <div className="text-center space-y-4">
+        <span className="inline-block px-5 py-2 bg-indigo-50 text-indigo-700 rounded-full text-xs font-black uppercase tracking-widest border border-indigo-100">{t.streaming.drafting}</span>
+        {finalRecommendation && <h2 className="text-3xl font-black text-slate-900 leading-tight tracking-tight">{finalRecommendation}</h2>}
+        {summary && <p className="text-slate-500 text-lg font-medium max-w-xl mx-auto">{summary}</p>}
+      </div>
+      {reasoning && reasoning.length > 0 && (
+        <div className="space-y-3">
+          {reasoning.map((item, i) => (
+            <div key={i} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm flex items-start gap-4">
+              <span className="text-indigo-500 font-black text-xs mt-1">{i+1}.</span>
+              <p className="text-sm font-bold text-slate-700 leading-relaxed">{item}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {((pros && pros.length > 0) || (cons && cons.length > 0)) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {pros && pros.length > 0 && (
+            <ul className="p-5 bg-emerald-50 rounded-[2rem] border border-emerald-100 space-y-2">
+              {pros.map((item, i) => <li key={i} className="text-emerald-800 text-sm font-bold flex items-center gap-3"><i className="fas fa-check-circle text-emerald-400"></i> {item}</li>)}
+            </ul>
+          )}
+          {cons && cons.length > 0 && (
+            <ul className="p-5 bg-rose-50 rounded-[2rem] border border-rose-100 space-y-2">
+              {cons.map((item, i) => <li key={i} className="text-rose-800 text-sm font-bold flex items-center gap-3"><i className="fas fa-circle-info text-rose-300"></i> {item}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamingAnalysisPreview;
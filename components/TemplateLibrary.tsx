@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { DecisionTemplate } from '../types';
+import { useMessages } from '../i18n';
+
+interface TemplateLibraryProps {
+  templates: DecisionTemplate[];
+  /** 주제를 적기 전에는 템플릿으로 시작할 수 없습니다. */
+  canStart: boolean;
+  onStart: (template: DecisionTemplate, extend: boolean) => void;
+  onExport: (template: DecisionTemplate) => void;
+  onImport: (file: File) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * 시작 화면에서 기본 템플릿과 저장한 템플릿을 보여주고, 고른 템플릿의 질문지로 바로 세션을 시작합니다.
+ */
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ templates, canStart, onStart, onExport, onImport, onDelete }) => {
+  const t = useMessages();
+  const [extend, setExtend] = useState(false);
+
+  const handleDelete = (template: DecisionTemplate) => {
+    if (window.confirm(t.templates.confirmDelete(template.name))) onDelete(template.id);
+  };
+
+  return (
+    <div className="space-y-5 pt-10 border-t border-slate-100">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-black text-slate-800 flex items-center gap-3">
+          <i className="fas fa-layer-group text-indigo-500"></i> {t.templates.title}
+        </h3>
+        <label className="text-xs font-bold text-slate-400 hover:text-indigo-600 cursor-pointer flex items-center gap-2 transition-colors">
+          <i className="fas fa-file-import"></i> {t.templates.import}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-slate-400 font-medium">{t.templates.description}</p>
+      <label className="flex items-center gap-3 cursor-pointer select-none">
+        <input type="checkbox" checked={extend} onChange={(e) => setExtend(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+        <span className="text-xs font-bold text-slate-600">{t.templates.extend}</span>
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {templates.map(template => (
+          <div key={template.id} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl space-y-3 hover:bg-white hover:shadow-md transition-all">
+            <div className="space-y-1">
+              <p className="text-sm font-black text-slate-800 flex items-center gap-2">
+                {template.name}
+                {template.builtIn && <span className="px-2 py-0.5 bg-indigo-50 text-indigo-500 rounded-full text-[10px] font-black">{t.templates.builtIn}</span>}
+              </p>
+              {template.description && <p className="text-xs font-medium text-slate-500 leading-relaxed">{template.description}</p>}
+              <p className="text-[11px] font-bold text-slate-400">{t.templates.questionCount(template.questions.length)}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => onStart(template, extend)}
+                disabled={!canStart}
+                className="px-4 py-2 bg-white border border-indigo-100 text-indigo-600 rounded-xl text-xs font-black hover:bg-indigo-600 hover:text-white disabled:border-slate-100 disabled:text-slate-300 disabled:hover:bg-white transition-all"
+              >
+                {t.templates.start}
+              </button>
+              <button onClick={() => onExport(template)} className="ml-auto text-slate-300 hover:text-indigo-500" title={t.templates.export}>
+                <i className="fas fa-file-export"></i>
+              </button>
+              {!template.builtIn && (
+                <button onClick={() => handleDelete(template)} className="text-slate-300 hover:text-rose-500" title={t.templates.delete}>
+                  <i className="fas fa-trash-can"></i>
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { AnalysisResult, AnalysisVersion, VersionTrigger } from '../types';
+import { DIFF_LIST_KEYS, diffAnalyses, ListDiff } from '../analysisDiff';
+import { Messages, useMessages } from '../i18n';
+
+interface VersionHistoryProps {
+  versions: AnalysisVersion[];
+  current: AnalysisResult;
+  onSelect: (version: AnalysisVersion) => void;
+}
+
+const describeTrigger = (trigger: VersionTrigger, t: Messages) => {
+  switch (trigger.kind) {
+    case 'refinement':
+      return { icon: 'fa-wand-magic-sparkles', label: t.versions.refinement(trigger.input) };
+    case 'alternative':
+      return { icon: 'fa-code-branch', label: t.versions.alternative(trigger.title) };
+    case 'initial':
+    default:
+      return { icon: 'fa-flag', label: t.versions.initial };
+  }
+};
+
+const ListDiffView: React.FC<{ label: string; diff: ListDiff }> = ({ label, diff }) => {
+  const t = useMessages();
+  if (diff.added.length === 0 && diff.removed.length === 0) {
+    return <p className="text-xs font-bold text-slate-400">{label}: {t.versions.unchanged}</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-black text-slate-600">{label}</p>
+      <ul className="space-y-1">
+        {diff.added.map((item, i) => (
+          <li key={`a${i}`} className="text-xs font-bold text-emerald-700 bg-emerald-50 px-3 py-2 rounded-xl"><i className="fas fa-plus mr-2"></i>{item}</li>
+        ))}
+        {diff.removed.map((item, i) => (
+          <li key={`r${i}`} className="text-xs font-bold text-rose-600 bg-rose-50 px-3 py-2 rounded-xl line-through decoration-rose-300"><i className="fas fa-minus mr-2"></i>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, current, onSelect }) => {
+  const t = useMessages();
+  const latest = versions[versions.length - 1];
+  const [baseId, setBaseId] = useState(versions.length > 1 ? versions[versions.length - 2].id : latest.id);
+  const [targetId, setTargetId] = useState(latest.id);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const base = versions.find(v => v.id === baseId) ?? versions[0];
+  const target = versions.find(v => v.id === targetId) ?? latest;
+  const diff = diffAnalyses(base.analysis, target.analysis);
+
+  const versionSelect = (value: number, onChange: (id: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-indigo-500"
+    >
+      {versions.map(v => <option key={v.id} value={v.id}>v{v.id} · {v.analysis.finalRecommendation}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6 pt-10 border-t border-slate-100 no-print">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-black text-slate-800 flex items-center gap-3">
+          <i className="fas fa-timeline text-indigo-500"></i> {t.versions.title}
+        </h3>
+        <button onClick={() => setShowDiff(prev => !prev)} className="text-xs font-black text-indigo-600 hover:underline">
+          {showDiff ? t.versions.hideDiff : t.versions.showDiff}
+        </button>
+      </div>
+
+      <ol className="relative border-l-2 border-indigo-100 ml-3 space-y-4">
+        {versions.map(version => {
+          const { icon, label } = describeTrigger(version.trigger, t);
+          const active = version.analysis === current;
+          return (
+            <li key={version.id} className="ml-6">
+              <span className={`absolute -left-[11px] w-5 h-5 rounded-full flex items-center justify-center text-[9px] ${active ? 'bg-indigo-600 text-white' : 'bg-white border-2 border-indigo-100 text-indigo-300'}`}>
+                <i className={`fas ${icon}`}></i>
+              </span>
+              <button
+                onClick={() => onSelect(version)}
+                className={`w-full text-left p-4 rounded-2xl border transition-all ${active ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-white hover:border-indigo-100'}`}
+              >
+                <p className="text-[11px] font-black text-slate-400">
+                  v{version.id} &bull; {new Date(version.createdAt).toLocaleString(t.locale, { dateStyle: 'short', timeStyle: 'short' })} &bull; {version.analysis.score}%
+                </p>
+                <p className="text-sm font-black text-slate-800 truncate">{version.analysis.finalRecommendation}</p>
+                <p className="text-xs font-medium text-slate-500 truncate">{label}</p>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {showDiff && (
+        <div className="p-6 bg-slate-50 border border-slate-100 rounded-[2rem] space-y-5 animate-fadeIn">
+          <div className="flex flex-wrap items-center gap-2">
+            {versionSelect(base.id, setBaseId)}
+            <i className="fas fa-arrow-right-long text-slate-300"></i>
+            {versionSelect(target.id, setTargetId)}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-black text-slate-600">{t.versions.recommendation}</p>
+            {diff.recommendation.changed ? (
+              <p className="text-sm font-bold">
+                <span className="text-rose-500 line-through">{diff.recommendation.before}</span>
+                <i className="fas fa-arrow-right-long mx-2 text-slate-300"></i>
+                <span className="text-emerald-700">{diff.recommendation.after}</span>
+              </p>
+            ) : (
+              <p className="text-xs font-bold text-slate-400">{t.versions.unchanged} ({diff.recommendation.after})</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-black text-slate-600">{t.versions.confidence}</p>
+            <p className="text-sm font-bold text-slate-700">
+              {diff.score.before}% → {diff.score.after}%
+              <span className={`ml-2 ${diff.score.delta > 0 ? 'text-emerald-600' : diff.score.delta < 0 ? 'text-rose-500' : 'text-slate-400'}`}>
+                ({diff.score.delta > 0 ? '+' : ''}{diff.score.delta})
+              </span>
+            </p>
+          </div>
+          {DIFF_LIST_KEYS.map(key => <ListDiffView key={key} label={t.versions.lists[key]} diff={diff[key]} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
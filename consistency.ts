@@ -0,0 +1,42 @@
+import { isAnswered, MIN_WEIGHT } from "./answers";
+import { DEFAULT_LANGUAGE, getMessages } from "./i18n";
+import { Answer, ConsistencyIssue, Language, Question } from "./types";
+
+/** 자유 서술 답변이 이보다 짧으면 결정에 쓸 정보가 없다고 봅니다. */
+export const MIN_TEXT_ANSWER_LENGTH = 5;
+/** 모든 중요도가 최저인지 따질 때 필요한 최소 답변 수 */
+const MIN_ANSWERS_FOR_WEIGHT_CHECK = 3;
+
+/**
+ * 모델을 부르지 않고도 알 수 있는 정보 부족 답변을 찾습니다. 모든 중요도를 최저로 고른 경우와 너무 짧은 자유 서술입니다.
+ */
+export const findLowInformationAnswers = (
+  questions: Question[],
+  answers: Record<number, Answer>,
+  language: Language = DEFAULT_LANGUAGE
+): ConsistencyIssue[] => {
+  const t = getMessages(language).consistency;
+  const answered = questions.filter(q => isAnswered(q, answers[q.id]));
+  const issues: ConsistencyIssue[] = [];
+
+  if (answered.length >= MIN_ANSWERS_FOR_WEIGHT_CHECK && answered.every(q => answers[q.id].weight === MIN_WEIGHT)) {
+    issues.push({ kind: 'lowInformation', questionIds: answered.map(q => q.id), message: t.allMinimumWeight });
+  }
+  answered
+    .filter(q => q.type === 'text' && String(answers[q.id].value).trim().length < MIN_TEXT_ANSWER_LENGTH)
+    .forEach(q => issues.push({ kind: 'lowInformation', questionIds: [q.id], message: t.shortText }));
+  return issues;
+};
+
+/**
+ * 로컬 점검과 모델 점검 결과를 합칩니다. 같은 종류로 같은 질문들을 가리키는 항목은 앞의 것만 남깁니다.
+ */
+export const mergeIssues = (...lists: ConsistencyIssue[][]): ConsistencyIssue[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter(issue => {
+    const key = `${issue.kind}:${[...issue.questionIds].sort((a, b) => a - b).join(',')}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { AuthError, classifyError, DecisionError, OverloadedError, QuotaError, SafetyBlockedError } from './errors';
+
+/** @google/genai의 ApiError처럼 status를 싣고, 메시지 뒤에 응답 본문을 붙인 오류 */
+const apiError = (status: number, body: unknown) =>
+  Object.assign(new Error(`got status: ${status}. ${JSON.stringify(body)}`), { status });
+
+describe('classifyError', () => {
+  it('SDK 오류의 status로 분류하고, 응답 본문의 RetryInfo에서 대기 시간을 읽습니다', () => {
+    const error = classifyError(apiError(429, {
+      error: { code: 429, status: 'RESOURCE_EXHAUSTED', details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '23s' }] }
+    }));
+    expect(error).toBeInstanceOf(QuotaError);
+    expect((error as QuotaError).retryAfterMs).toBe(23000);
+  });
+
+  it('400으로 오는 잘못된 키는 본문의 reason으로 인증 오류로 분류합니다', () => {
+    const error = classifyError(apiError(400, {
+      error: { code: 400, status: 'INVALID_ARGUMENT', details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }] }
+    }));
+    expect(error).toBeInstanceOf(AuthError);
+  });
+
+  it('status 없이 본문의 gRPC 상태 이름만 있어도 분류합니다', () => {
+    expect(classifyError(new Error(JSON.stringify({ error: { status: 'UNAVAILABLE' } })))).toBeInstanceOf(OverloadedError);
+  });
+
+  it('앱 서버 오류 본문의 kind를 그대로 따릅니다', () => {
+    expect(classifyError({ error: { kind: 'safety', message: 'blocked' } })).toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('메시지에 들어 있는 숫자만으로는 상태 코드로 읽지 않습니다', () => {
+    const error = classifyError(new Error('예산 500만 원을 넘는 선택지를 처리하지 못했습니다.'));
+    expect(error.constructor).toBe(DecisionError);
+    expect(error.kind).toBe('unknown');
+  });
+});
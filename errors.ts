@@ -0,0 +1,228 @@
+/**
+ * 서비스 계층이 던지는 오류의 분류입니다. 화면은 메시지 문자열이 아니라 이 값으로 안내 문구와 복구 동작을 고릅니다.
+ */
+export type ErrorKind = 'auth' | 'quota' | 'overloaded' | 'safety' | 'invalidOutput' | 'network' | 'unknown';
+
+export class DecisionError extends Error {
+  readonly kind: ErrorKind = 'unknown';
+  /** 같은 요청을 잠시 뒤 다시 보내면 성공할 가능성이 있는지 여부 */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, public readonly detail?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** API 키가 없거나 잘못되었거나 권한이 없는 경우 */
+export class AuthError extends DecisionError {
+  readonly kind = 'auth';
+}
+
+/** 사용 한도를 넘은 경우(429). 서버가 알려준 대기 시간이 있으면 retryAfterMs에 담깁니다. */
+export class QuotaError extends DecisionError {
+  readonly kind = 'quota';
+  readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs?: number, detail?: unknown) {
+    super(message, detail);
+  }
+}
+
+/** 서버가 일시적으로 혼잡하거나 내부 오류가 난 경우(5xx) */
+export class OverloadedError extends DecisionError {
+  readonly kind = 'overloaded';
+  readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs?: number, detail?: unknown) {
+    super(message, detail);
+  }
+}
+
+/** 안전 정책으로 프롬프트나 응답이 차단된 경우 */
+export class SafetyBlockedError extends DecisionError {
+  readonly kind = 'safety';
+}
+
+/** 응답이 비어있거나 약속한 형식을 끝내 지키지 못한 경우 */
+export class InvalidOutputError extends DecisionError {
+  readonly kind = 'invalidOutput';
+}
+
+/** 네트워크에 연결할 수 없는 경우 */
+export class NetworkError extends DecisionError {
+  readonly kind = 'network';
+  readonly retryable = true;
+}
+
+const MESSAGES = {
+  auth: "API 키가 없거나 올바르지 않습니다. 하단의 'API 키 설정' 또는 '모델 설정'에서 키를 확인해주세요.",
+  quota: "무료 사용 한도를 초과했습니다. 1분 뒤 다시 시도하거나 유료 API 키를 설정해주세요.",
+  overloaded: "AI 서버가 일시적으로 혼잡합니다. 잠시 후 다시 시도해주세요.",
+  safety: "AI 안전 정책에 의해 응답이 차단되었습니다. 표현을 바꿔 다시 시도해주세요.",
+  network: "네트워크에 연결할 수 없습니다. 인터넷 연결을 확인한 뒤 다시 시도해주세요."
+};
+
+/**
+ * Retry-After 헤더 값(초 또는 HTTP 날짜)을 밀리초로 바꿉니다.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Gemini 오류 본문의 RetryInfo("retryDelay": "23s")에서 대기 시간을 읽습니다.
+ */
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * HTTP 상태 코드로 오류 종류를 정합니다. 분류할 수 없으면 null을 반환합니다.
+ */
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number): DecisionError | null => {
+  if (status === 401 || status === 403) return new AuthError(MESSAGES.auth, detail);
+  if (status === 429) return new QuotaError(MESSAGES.quota, retryAfterMs ?? parseRetryDelay(detail), detail);
+  if (status >= 500) return new OverloadedError(MESSAGES.overloaded, retryAfterMs, detail);
+  return null;
+};
+
+const ERROR_KINDS: readonly ErrorKind[] = ['auth', 'quota', 'overloaded', 'safety', 'invalidOutput', 'network', 'unknown'];
+
+export const isErrorKind = (value: unknown): value is ErrorKind =>
+  typeof value === 'string' && (ERROR_KINDS as readonly string[]).includes(value);
+
+/** Google API 오류 본문의 status(gRPC 상태 이름)별 오류 종류 */
+const KIND_BY_RPC_STATUS: Record<string, ErrorKind> = {
+  UNAUTHENTICATED: 'auth',
+  PERMISSION_DENIED: 'auth',
+  RESOURCE_EXHAUSTED: 'quota',
+  UNAVAILABLE: 'overloaded',
+  INTERNAL: 'overloaded',
+  DEADLINE_EXCEEDED: 'overloaded'
+};
+
+/** 오류 객체와 그 응답 본문에서 읽은 구조화된 값들 */
+interface StructuredError {
+  status?: number;
+  rpcStatus?: string;
+  /** 앱 서버 오류 본문(ServerErrorBody)의 kind */
+  kind?: ErrorKind;
+  retryAfterMs?: number;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null ? value as Record<string, unknown> : undefined;
+
+/**
+ * SDK 오류 메시지 뒤에 붙은 JSON 응답 본문({"error": {...}})을 읽습니다. 없거나 JSON이 아니면 undefined입니다.
+ */
+const parseEmbeddedBody = (message: string): unknown => {
+  const start = message.indexOf('{');
+  if (start < 0) return undefined;
+  try {
+    return JSON.parse(message.slice(start));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Google API 오류 본문의 details에서 RetryInfo("retryDelay": "23s")와 ErrorInfo의 reason을 읽습니다.
+ * 잘못된 키는 상태가 400 INVALID_ARGUMENT라 reason(API_KEY_INVALID)으로만 알 수 있습니다.
+ */
+const readDetails = (details: unknown): { retryAfterMs?: number; invalidKey: boolean } => {
+  const result: { retryAfterMs?: number; invalidKey: boolean } = { invalidKey: false };
+  if (!Array.isArray(details)) return result;
+  for (const detail of details.map(asRecord)) {
+    const delay = detail?.retryDelay;
+    const seconds = typeof delay === 'string' && delay.endsWith('s') ? Number(delay.slice(0, -1)) : NaN;
+    if (Number.isFinite(seconds)) result.retryAfterMs ??= seconds * 1000;
+    if (detail?.reason === 'API_KEY_INVALID') result.invalidKey = true;
+  }
+  return result;
+};
+
+/**
+ * 오류 객체의 status·code, 그 안이나 메시지에 담긴 응답 본문의 error.status·error.code·error.kind를 모읍니다.
+ * 앞에 있는 값(오류 객체 자체)이 우선합니다.
+ */
+const readStructured = (error: unknown, message: string): StructuredError => {
+  const outer = asRecord(error);
+  const body = asRecord(outer?.error) ? outer : asRecord(parseEmbeddedBody(message));
+  const sources = [outer, asRecord(body?.error)];
+  const result: StructuredError = {};
+  for (const source of sources) {
+    if (!source) continue;
+    for (const value of [source.status, source.code]) {
+      if (typeof value === 'number' && Number.isInteger(value) && result.status === undefined) result.status = value;
+      if (typeof value === 'string' && value in KIND_BY_RPC_STATUS && result.rpcStatus === undefined) result.rpcStatus = value;
+    }
+    const details = readDetails(source.details);
+    const kind = details.invalidKey ? 'auth' : source.kind;
+    if (isErrorKind(kind) && result.kind === undefined) result.kind = kind;
+    result.retryAfterMs ??= details.retryAfterMs;
+  }
+  return result;
+};
+
+/**
+ * 공급자 SDK나 fetch가 던진 임의의 오류를 DecisionError로 분류합니다.
+ * 오류 객체와 응답 본문의 구조화된 상태 값을 먼저 보고, 메시지 문구는 그것이 없을 때만 봅니다.
+ */
+export const classifyError = (error: unknown): DecisionError => {
+  if (error instanceof DecisionError) return error;
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const structured = readStructured(error, message);
+
+  /** 종류만 알 때는 그 종류의 기본 안내 문구로 오류를 만듭니다. */
+  const fromKind = (kind: ErrorKind) =>
+    errorFromKind(kind, kind in MESSAGES ? MESSAGES[kind as keyof typeof MESSAGES] : message, structured.retryAfterMs);
+
+  if (structured.kind && structured.kind !== 'unknown') return fromKind(structured.kind);
+  if (structured.status !== undefined) {
+    const byStatus = errorFromStatus(structured.status, message, structured.retryAfterMs);
+    if (byStatus) return byStatus;
+  }
+  if (structured.rpcStatus) return fromKind(KIND_BY_RPC_STATUS[structured.rpcStatus]);
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) ||
+      (error instanceof TypeError && /fetch|network|load failed/i.test(message))) {
+    return new NetworkError(MESSAGES.network, message);
+  }
+
+  // 상태 값을 전혀 싣지 않은 오류만 메시지 문구로 짐작합니다.
+  if (/API[ _]?key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthError(MESSAGES.auth, message);
+  }
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new QuotaError(MESSAGES.quota, parseRetryDelay(message), message);
+  }
+  if (/overloaded|UNAVAILABLE/i.test(message)) {
+    return new OverloadedError(MESSAGES.overloaded, undefined, message);
+  }
+  return new DecisionError(message || "알 수 없는 오류가 발생했습니다.", error);
+};
+
+/**
+ * 앱 서버가 돌려준 오류 종류와 메시지로 같은 종류의 DecisionError를 다시 만듭니다.
+ */
+export const errorFromKind = (kind: ErrorKind, message: string, retryAfterMs?: number): DecisionError => {
+  switch (kind) {
+    case 'auth': return new AuthError(message);
+    case 'quota': return new QuotaError(message, retryAfterMs);
+    case 'overloaded': return new OverloadedError(message, retryAfterMs);
+    case 'safety': return new SafetyBlockedError(message);
+    case 'invalidOutput': return new InvalidOutputError(message);
+    case 'network': return new NetworkError(message);
+    default: return new DecisionError(message);
+  }
+};
+
+export const createAuthError = (message: string = MESSAGES.auth) => new AuthError(message);
+export const createSafetyError = (detail?: string) => new SafetyBlockedError(MESSAGES.safety, detail);
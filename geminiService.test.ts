@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_ANALYSIS, MOCK_QUESTIONS } from './providers/mockProvider';
+import { stubModel } from './test/stubProvider';
+import { analyzeDecision, generateQuestions } from './geminiService';
+import { AuthError, InvalidOutputError, OverloadedError, QuotaError } from './errors';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, setRetryPolicy } from './retryPolicy';
+import { ValidationError } from './validation';
+
+vi.mock('./providers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./providers')>();
+  const { stubModel } = await import('./test/stubProvider');
+  return { ...actual, createProvider: () => stubModel.provider };
+});
+
+const QUESTIONS_JSON = JSON.stringify(MOCK_QUESTIONS);
+const ANALYSIS_JSON = JSON.stringify(MOCK_ANALYSIS);
+
+beforeEach(() => {
+  stubModel.reset();
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  setRetryPolicy(DEFAULT_RETRY_POLICY);
+});
+
+describe('getRetryDelay', () => {
+  it('대기 시간을 두 배씩 늘리고 지터만큼 흔들되, 최대 대기 시간을 넘지 않습니다', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 10 };
+    const error = new OverloadedError('busy');
+    expect(getRetryDelay(error, 1, policy, () => 0.5)).toBe(2000);
+    expect(getRetryDelay(error, 1, policy, () => 0)).toBe(1400);
+    expect(getRetryDelay(error, 1, policy, () => 1)).toBe(2600);
+    expect(getRetryDelay(error, 8, { ...policy, jitter: 0 })).toBe(30000);
+  });
+});
+
+describe('재시도 (callWithRetry)', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setRetryPolicy({ jitter: 0 });
+  });
+
+  it('일시적인 오류는 1초, 2초를 기다리며 다시 시도합니다', async () => {
+    stubModel.reply('questions', new OverloadedError('busy'), new OverloadedError('busy'), QUESTIONS_JSON);
+    const result = generateQuestions('이직할까?');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(stubModel.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(stubModel.requests).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(stubModel.requests).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toHaveLength(MOCK_QUESTIONS.length);
+    expect(stubModel.requests).toHaveLength(3);
+  });
+
+  it('서버가 알려준 Retry-After만큼 기다립니다', async () => {
+    stubModel.reply('questions', new QuotaError('quota', 5000), QUESTIONS_JSON);
+    const result = generateQuestions('이직할까?');
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(stubModel.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toHaveLength(MOCK_QUESTIONS.length);
+  });
+
+  it('Retry-After가 최대 대기 시간보다 길면 기다리지 않고 실패합니다', async () => {
+    stubModel.reply('questions', new QuotaError('quota', 60_000));
+    await expect(generateQuestions('이직할까?')).rejects.toBeInstanceOf(QuotaError);
+    expect(stubModel.requests).toHaveLength(1);
+  });
+
+  it('인증 오류는 재시도하지 않습니다', async () => {
+    stubModel.reply('questions', new AuthError('bad key'));
+    await expect(generateQuestions('이직할까?')).rejects.toBeInstanceOf(AuthError);
+    expect(stubModel.requests).toHaveLength(1);
+  });
+
+  it('최대 시도 횟수를 넘기면 마지막 오류로 실패합니다', async () => {
+    stubModel.reply('questions', new OverloadedError('busy'), new OverloadedError('busy'), new OverloadedError('still busy'));
+    const assertion = expect(generateQuestions('이직할까?')).rejects.toThrow('still busy');
+
+    await vi.advanceTimersByTimeAsync(3000);
+    await assertion;
+    expect(stubModel.requests).toHaveLength(3);
+  });
+
+  it('SDK가 던진 원래 오류도 분류해서 재시도합니다', async () => {
+    stubModel.reply('questions', new Error('503 UNAVAILABLE: The model is overloaded.'), QUESTIONS_JSON);
+    const result = generateQuestions('이직할까?');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toHaveLength(MOCK_QUESTIONS.length);
+    expect(stubModel.requests).toHaveLength(2);
+  });
+
+  it('기다리는 중에 취소하면 AbortError로 바로 끝납니다', async () => {
+    stubModel.reply('questions', new OverloadedError('busy'));
+    const controller = new AbortController();
+    const assertion = expect(generateQuestions('이직할까?', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await assertion;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(stubModel.requests).toHaveLength(1);
+  });
+});
+
+describe('generateQuestions 응답 파싱', () => {
+  it('코드 펜스나 앞뒤 설명이 붙은 응답에서 JSON만 읽습니다', async () => {
+    stubModel.reply('questions', `\`\`\`json\n${QUESTIONS_JSON}\n\`\`\``, `Here are your questions:\n${QUESTIONS_JSON}\nGood luck!`);
+    await expect(generateQuestions('이직할까?')).resolves.toHaveLength(MOCK_QUESTIONS.length);
+    const questions = await generateQuestions('이직할까?');
+    expect(questions.map(q => q.text)).toEqual(MOCK_QUESTIONS.map(q => q.text));
+  });
+
+  it('형식이 어긋나면 위반 사항을 알려주며 다시 요청합니다', async () => {
+    stubModel.reply('questions', JSON.stringify(MOCK_QUESTIONS.slice(0, 1)), QUESTIONS_JSON);
+    await expect(generateQuestions('이직할까?')).resolves.toHaveLength(MOCK_QUESTIONS.length);
+
+    expect(stubModel.requests).toHaveLength(2);
+    expect(stubModel.requests[0].prompt).not.toContain('[이전 응답의 문제]');
+    expect(stubModel.requests[1].prompt).toContain(`[이전 응답의 문제]\n<user_input name="issues">\n- 유효한 질문이 1개뿐입니다.`);
+  });
+
+  it('다시 요청해도 고쳐지지 않으면 ValidationError로 실패합니다', async () => {
+    stubModel.reply('questions', 'not json', 'still not json', '{}');
+    await expect(generateQuestions('이직할까?')).rejects.toBeInstanceOf(ValidationError);
+    expect(stubModel.requests).toHaveLength(3);
+  });
+
+  it('빈 응답은 다시 요청하지 않고 InvalidOutputError로 실패합니다', async () => {
+    stubModel.reply('questions', '');
+    await expect(generateQuestions('이직할까?')).rejects.toThrow(new InvalidOutputError("질문을 생성하는 도중 AI 응답이 비어있습니다."));
+    expect(stubModel.requests).toHaveLength(1);
+  });
+});
+
+describe('analyzeDecision 응답 파싱', () => {
+  it('코드 펜스에 싸인 분석을 읽습니다', async () => {
+    stubModel.reply('analysis', `\`\`\`\n${ANALYSIS_JSON}\n\`\`\``);
+    const result = await analyzeDecision('이직할까?', MOCK_QUESTIONS, {});
+    expect(result.finalRecommendation).toBe(MOCK_ANALYSIS.finalRecommendation);
+    expect(result.alternatives.map(alt => alt.title)).toEqual(MOCK_ANALYSIS.alternatives.map(alt => alt.title));
+  });
+
+  it('빠진 항목을 알려주며 다시 요청합니다', async () => {
+    stubModel.reply('analysis', JSON.stringify({ ...MOCK_ANALYSIS, summary: '' }), ANALYSIS_JSON);
+    const result = await analyzeDecision('이직할까?', MOCK_QUESTIONS, {});
+
+    expect(result.summary).toBe(MOCK_ANALYSIS.summary);
+    expect(stubModel.requests[1].prompt).toContain(`[이전 응답의 문제]\n<user_input name="issues">\n- summary가 비어있습니다.`);
+  });
+
+  it('다시 요청해도 JSON이 아니면 ValidationError로 실패합니다', async () => {
+    stubModel.reply('analysis', 'Sorry,', 'I cannot', 'help with that.');
+    await expect(analyzeDecision('이직할까?', MOCK_QUESTIONS, {})).rejects.toThrow("응답이 올바른 JSON이 아닙니다.");
+    expect(stubModel.requests).toHaveLength(3);
+  });
+
+  it('빈 응답은 InvalidOutputError로 실패합니다', async () => {
+    stubModel.reply('analysis', '');
+    await expect(analyzeDecision('이직할까?', MOCK_QUESTIONS, {})).rejects.toThrow(new InvalidOutputError("분석 결과가 비어있습니다."));
+  });
+});
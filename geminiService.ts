@@ -1,169 +1,355 @@
+import { AnalysisResult, Answer, Attachment, ChatMessage, ComparisonResult, ConsistencyIssue, Language, Participant, Question, QuestionRound } from "./types";
+import { DEFAULT_LANGUAGE } from "./i18n";
+import { createProvider, GenerateOptions, getProviderSettings, LLMProvider } from "./providers";
+import { CacheOptions, createCacheKey, withAnalysisCache } from "./analysisCache";
+import { parsePartialJSON } from "./partialJSON";
+import { classifyError, InvalidOutputError } from "./errors";
+import { getRetryDelay, getRetryPolicy, RetryPolicy } from "./retryPolicy";
+import { attachmentLabel } from "./attachments";
+import { restoreAnalysis } from "./sessionExport";
+import { buildRequest, extensionLimit, optionTitlesOf, PromptInput, roundBudget } from "./prompts";
+import { parseModelJSON, readPartialAnalysis, readPartialFollowUp, readPartialQuestions, validateAnalysis, validateCitations, validateComparison, validateConsistency, validateFollowUp, validateGroupAnalysis, validateQuestion, validateQuestionExtension, validateQuestionRound, validateQuestions, ValidationError } from "./validation";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Question } from "./types";
+export type { Alternative, AnalysisResult } from "./types";
 
 /**
- * 호출 시점의 process.env.API_KEY를 사용하여 최신 AI 인스턴스를 생성합니다.
+ * 모든 호출에 공통인 옵션입니다. language는 질문과 분석 결과를 받을 언어입니다.
  */
-const getAI = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey || apiKey === 'undefined' || apiKey.trim() === '') {
-    throw new Error("API 키가 설정되지 않았습니다. 하단의 'API 키 선택'을 통해 키를 설정해주세요.");
-  }
-  return new GoogleGenAI({ apiKey });
+export interface RequestOptions {
+  signal?: AbortSignal;
+  language?: Language;
+}
+
+/**
+ * 스트리밍과 취소를 지원하는 호출의 옵션입니다.
+ * onPartial을 넘기면 응답을 스트리밍으로 받으며, 지금까지 읽을 수 있는 부분을 계속 전달합니다.
+ */
+export interface StreamOptions<P> extends RequestOptions {
+  onPartial?: (partial: P) => void;
+}
+
+/** 사용자가 첨부한 자료를 참고하는 호출의 옵션입니다. */
+export interface AttachmentOptions {
+  attachments?: Attachment[];
+}
+
+/** 분석 호출의 옵션입니다. 같은 입력의 분석은 캐시된 결과를 돌려주며, fresh로 새 분석을 강제할 수 있습니다. */
+export type AnalysisOptions = StreamOptions<Partial<AnalysisResult>> & CacheOptions & AttachmentOptions;
+
+/** 같은 입력이라도 공급자나 모델이 다르면 다른 분석으로 봅니다. */
+const modelFingerprint = () => {
+  const { provider, model } = getProviderSettings();
+  return `${provider}:${model}`;
 };
 
+const createAbortError = () => new DOMException('요청이 취소되었습니다.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError' ||
+  (typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    }, { once: true });
+  });
+
 /**
- * 일시적인 서버 오류(503)나 할당량 초과(429) 발생 시 지수 백오프를 적용하여 재시도합니다.
+ * 일시적인 오류(혼잡, 한도 초과, 네트워크)가 나면 재시도 정책에 따라 다시 시도합니다.
+ * 서버가 알려준 Retry-After를 우선하고, 없으면 지터를 섞은 지수 백오프로 기다립니다.
+ * 마지막에 던지는 오류는 항상 DecisionError로 분류되어 있습니다.
  */
-async function callWithRetry<T>(fn: (ai: GoogleGenAI) => Promise<T>, maxRetries = 3): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
+async function callWithRetry<T>(fn: (provider: LLMProvider) => Promise<T>, signal?: AbortSignal, policy: RetryPolicy = getRetryPolicy()): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw createAbortError();
     try {
-      const ai = getAI();
-      return await fn(ai);
-    } catch (error: any) {
-      lastError = error;
-      const errorMsg = error.message || "";
-      const isRetryable = 
-        errorMsg.includes("503") || 
-        errorMsg.includes("overloaded") || 
-        errorMsg.includes("429") ||
-        errorMsg.includes("RESOURCE_EXHAUSTED");
-
-      if (isRetryable && i < maxRetries - 1) {
-        const waitTime = Math.pow(2, i) * 1000;
-        console.warn(`AI 서버 응답 지연 혹은 한도 초과. ${waitTime}ms 후 재시도... (${i + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        continue;
-      }
-      throw error;
+      const provider = createProvider();
+      return await fn(provider);
+    } catch (error) {
+      // 사용자가 취소한 요청은 재시도하지 않습니다.
+      if (signal?.aborted || isAbortError(error)) throw createAbortError();
+      const classified = classifyError(error);
+      const waitTime = getRetryDelay(classified, attempt, policy);
+      if (waitTime === null) throw classified;
+
+      console.warn(`AI 서버 응답 지연 혹은 한도 초과(${classified.kind}). ${waitTime}ms 후 재시도... (${attempt + 1}/${policy.maxAttempts})`);
+      await sleep(waitTime, signal);
     }
   }
-  throw lastError;
 }
 
-export const generateQuestions = async (topic: string): Promise<Question[]> => {
-  return callWithRetry(async (ai) => {
-    const prompt = `I want to make a decision about: "${topic}". 
-    Please determine the optimal number of questions needed to make a high-quality recommendation.
-    Generate at least 5 but no more than 20 multiple-choice questions. 
-    Each question must have 3 to 4 clear options. 
-    Ensure the questions cover all critical factors for "${topic}".`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.INTEGER },
-              text: { type: Type.STRING },
-              options: { 
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-              }
-            },
-            required: ["id", "text", "options"],
-            propertyOrdering: ["id", "text", "options"]
-          }
-        }
-      }
-    });
+/** 형식이 어긋난 응답에 대해 위반 사항을 알려주며 다시 요청하는 최대 횟수 */
+const MAX_REPAIR_ATTEMPTS = 2;
 
-    if (!response.text) {
-      throw new Error("질문을 생성하는 도중 AI 응답이 차단되었습니다.");
+/**
+ * 작업 입력으로 요청을 만들어 모델 응답을 파싱·검증하고, 형식을 벗어나면 위반 사항을 입력에 담아 다시 요청합니다.
+ */
+async function generateValidated<T>(
+  provider: LLMProvider,
+  input: PromptInput,
+  options: { label: string; emptyMessage: string; validate: (raw: unknown) => T },
+  generateOptions: GenerateOptions = {}
+): Promise<T> {
+  let request = buildRequest(input);
+  for (let attempt = 0; ; attempt++) {
+    const text = await provider.generateJSON(request, generateOptions);
+    if (!text) throw new InvalidOutputError(options.emptyMessage);
+
+    try {
+      return options.validate(parseModelJSON(text, options.label));
+    } catch (error) {
+      if (!(error instanceof ValidationError) || attempt >= MAX_REPAIR_ATTEMPTS) throw error;
+      console.warn(`${options.label} 형식 오류로 재요청합니다. (${attempt + 1}/${MAX_REPAIR_ATTEMPTS})`, error.issues);
+      request = buildRequest({ ...input, issues: error.issues });
     }
+  }
+}
 
-    const questions: Question[] = JSON.parse(response.text);
-    return questions.map((q, index) => ({ ...q, id: index + 1 }));
-  });
+/** 같은 프롬프트라도 공급자나 모델이 다르면 다른 분석으로 봅니다. */
+const analysisCacheKey = (input: PromptInput) =>
+  createCacheKey({ task: input.task, prompt: buildRequest(input).prompt, model: modelFingerprint() });
+
+/**
+ * 모델이 라벨로 적은 인용을 파일 이름으로 바꿔 분석에 붙입니다. 첨부가 없는 분석에는 붙이지 않습니다.
+ */
+const withCitations = (analysis: AnalysisResult, raw: unknown, attachments: Attachment[] = []): AnalysisResult => {
+  if (attachments.length === 0) return analysis;
+  const sources = Object.fromEntries(attachments.map((attachment, i) => [attachmentLabel(i), attachment.name]));
+  const citations = validateCitations(raw, analysis.reasoning.length, sources);
+  return citations.length > 0 ? { ...analysis, citations } : analysis;
 };
 
-export interface Alternative {
-  title: string;
-  summary: string;
-  whyThis: string;
-}
+/**
+ * 스트리밍 중에는 지금까지 생성된 질문 문장들을 onPartial로 전달합니다.
+ */
+export const generateQuestions = async (topic: string, options: StreamOptions<string[]> & AttachmentOptions = {}): Promise<Question[]> => {
+  const { signal, onPartial, language = DEFAULT_LANGUAGE, attachments = [] } = options;
+  return callWithRetry(async (provider) => {
+    return generateValidated(provider, { task: 'questions', topic, language, attachments }, {
+      label: '질문 목록',
+      emptyMessage: "질문을 생성하는 도중 AI 응답이 비어있습니다.",
+      validate: validateQuestions
+    }, {
+      signal,
+      onText: onPartial && ((text) => onPartial(readPartialQuestions(parsePartialJSON(text))))
+    });
+  }, signal);
+};
 
-export interface AnalysisResult {
-  finalRecommendation: string;
-  summary: string;
-  reasoning: string[];
-  pros: string[];
-  cons: string[];
-  nextSteps: string[];
-  score: number;
-  alternatives: Alternative[];
-  refinedInsight?: string;
-}
+/**
+ * 편집 단계에서 질문 하나만 다시 생성합니다. 다른 질문과 겹치지 않는 새 질문을 받아 원래 id를 그대로 붙입니다.
+ */
+export const regenerateQuestion = async (
+  topic: string,
+  questions: Question[],
+  questionId: number,
+  options: RequestOptions = {}
+): Promise<Question> => {
+  const { signal, language = DEFAULT_LANGUAGE } = options;
+
+  return callWithRetry(async (provider) => {
+    const question = await generateValidated(provider, { task: 'question', topic, language, questions, questionId }, {
+      label: '질문',
+      emptyMessage: "질문을 다시 생성하는 도중 AI 응답이 비어있습니다.",
+      validate: validateQuestion
+    }, { signal });
+    return { ...question, id: questionId };
+  }, signal);
+};
+
+/**
+ * 템플릿 질문지에 이번 주제에만 필요한 질문을 덧붙입니다. 새 질문의 id는 템플릿 질문 뒤로 이어집니다.
+ */
+export const extendQuestions = async (
+  topic: string,
+  questions: Question[],
+  options: RequestOptions & AttachmentOptions = {}
+): Promise<Question[]> => {
+  const { signal, language = DEFAULT_LANGUAGE, attachments = [] } = options;
+  const limit = extensionLimit(questions);
+  if (limit <= 0) return [];
+
+  return callWithRetry(async (provider) => {
+    const added = await generateValidated(provider, { task: 'questionExtension', topic, language, questions, attachments }, {
+      label: '추가 질문',
+      emptyMessage: "템플릿 질문을 보완하는 도중 AI 응답이 비어있습니다.",
+      validate: validateQuestionExtension
+    }, { signal });
+    const lastId = questions.reduce((max, q) => Math.max(max, q.id), 0);
+    return added.slice(0, limit).map((question, index) => ({ ...question, id: lastId + index + 1 }));
+  }, signal);
+};
+
+/**
+ * 분석 전에 서로 모순되는 답이나 결정에 쓸 정보가 거의 없는 답을 찾습니다. 문제가 없으면 빈 배열을 반환합니다.
+ */
+export const checkConsistency = async (
+  topic: string,
+  questions: Question[],
+  answers: Record<number, Answer>,
+  options: RequestOptions = {}
+): Promise<ConsistencyIssue[]> => {
+  const { signal, language = DEFAULT_LANGUAGE } = options;
+
+  return callWithRetry(async (provider) => {
+    return generateValidated(provider, { task: 'consistency', topic, language, questions, answers }, {
+      label: '답변 점검 결과',
+      emptyMessage: "답변을 점검하는 도중 AI 응답이 비어있습니다.",
+      validate: (raw) => validateConsistency(raw, questions.map(q => q.id))
+    }, { signal });
+  }, signal);
+};
+
+/**
+ * 적응형 모드에서 지금까지의 답변을 바탕으로 다음 라운드의 질문을 생성합니다.
+ * 새 질문의 id는 기존 질문 뒤에 이어서 매겨집니다.
+ */
+export const generateQuestionRound = async (
+  topic: string,
+  questions: Question[],
+  answers: Record<number, Answer>,
+  round: number,
+  options: StreamOptions<string[]> & AttachmentOptions = {}
+): Promise<QuestionRound> => {
+  const { signal, onPartial, language = DEFAULT_LANGUAGE, attachments = [] } = options;
+  const budget = roundBudget(questions);
+
+  return callWithRetry(async (provider) => {
+    const result = await generateValidated(provider, { task: 'questionRound', topic, language, questions, answers, round, attachments }, {
+      label: '후속 질문',
+      emptyMessage: "후속 질문을 생성하는 도중 AI 응답이 비어있습니다.",
+      validate: validateQuestionRound
+    }, {
+      signal,
+      onText: onPartial && ((text) => onPartial(readPartialQuestions(parsePartialJSON(text))))
+    });
+
+    const knownIds = new Set(questions.map(q => q.id));
+    const nextId = questions.reduce((max, q) => Math.max(max, q.id), 0) + 1;
+    return {
+      ...result,
+      questions: result.questions.slice(0, budget).map((q, index) => ({ ...q, id: nextId + index })),
+      prunedQuestionIds: result.prunedQuestionIds.filter(id => knownIds.has(id))
+    };
+  }, signal);
+};
 
 export const analyzeDecision = async (
   topic: string, 
   questions: Question[], 
-  answers: Record<number, string>, 
+  answers: Record<number, Answer>, 
   additionalInput?: string,
-  targetAlternative?: string
+  targetAlternative?: string,
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> => {
-  const qAndA = questions.map(q => {
-    const answer = answers[q.id] || "답변 없음";
-    return `질문: ${q.text}\n답변: ${answer}`;
-  }).join('\n\n');
-
-  let prompt = `당신은 세계 최고의 의사결정 컨설턴트입니다.
-사용자의 주제: "${topic}"
-
-[기본 데이터]
-${qAndA}
-
-${additionalInput ? `[사용자의 추가 요청 사항]\n${additionalInput}\n` : ""}
-${targetAlternative ? `[강조 대안]\n사용자가 기존 추천안 대신 "${targetAlternative}" 이라는 선택지에 대해 더 깊이 알고 싶어합니다. 이 대안을 '주 추천안(finalRecommendation)'으로 설정하여 그에 따른 상세 분석 리포트를 다시 작성하세요.` : ""}
-
-위 데이터를 바탕으로 전문적인 리포트를 작성하세요. 
-만약 강조 대안이 지정되었다면, 그 대안이 왜 합리적인 선택이 될 수 있는지 집중적으로 분석하여 근거(reasoning), 장점(pros), 단점(cons), 그리고 실행 가이드(nextSteps)를 그에 맞춰 새롭게 생성해야 합니다.
-결과는 JSON 형식으로 출력하며, 모든 텍스트는 한국어로 마크다운 없이 작성하세요.`;
-
-  return callWithRetry(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            finalRecommendation: { type: Type.STRING },
-            summary: { type: Type.STRING },
-            reasoning: { type: Type.ARRAY, items: { type: Type.STRING } },
-            pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-            cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-            nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } },
-            score: { type: Type.NUMBER },
-            alternatives: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  summary: { type: Type.STRING },
-                  whyThis: { type: Type.STRING }
-                },
-                required: ["title", "summary", "whyThis"]
-              }
-            },
-            refinedInsight: { type: Type.STRING }
-          },
-          required: ["finalRecommendation", "summary", "reasoning", "pros", "cons", "nextSteps", "score", "alternatives"]
-        }
-      }
+  const { language = DEFAULT_LANGUAGE, attachments = [] } = options;
+  const input: PromptInput = {
+    task: 'analysis', topic, language, questions, answers, attachments,
+    ...(additionalInput && { additionalInput }),
+    ...(targetAlternative && { targetAlternative })
+  };
+
+  return withAnalysisCache(analysisCacheKey(input), options, ({ signal, onPartial }) => callWithRetry(async (provider) => {
+    return generateValidated(provider, input, {
+      label: '분석 결과',
+      emptyMessage: "분석 결과가 비어있습니다.",
+      validate: (raw) => withCitations(validateAnalysis(raw), raw, attachments)
+    }, {
+      signal,
+      onText: onPartial && ((text) => onPartial(readPartialAnalysis(parsePartialJSON(text))))
     });
+  }, signal), (value) => restoreAnalysis(value, { questionIds: questions.map(q => q.id), participantNames: [] }));
+};
 
-    const text = response.text;
-    if (!text) throw new Error("분석 결과가 비어있습니다.");
-    return JSON.parse(text.replace(/^```json/, '').replace(/```$/, '').trim());
-  });
+/**
+ * 그룹 모드의 분석입니다. 모든 참여자의 답변을 함께 보고 합의안을 추천하며,
+ * 의견이 갈린 질문(conflicts)과 참여자별 유의 사항(group.caveats)을 함께 돌려줍니다.
+ */
+export const analyzeGroupDecision = async (
+  topic: string,
+  questions: Question[],
+  participants: Participant[],
+  additionalInput?: string,
+  targetAlternative?: string,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { language = DEFAULT_LANGUAGE, attachments = [] } = options;
+  const names = participants.map(p => p.name);
+  const input: PromptInput = {
+    task: 'groupAnalysis', topic, language, questions, participants, attachments,
+    ...(additionalInput && { additionalInput }),
+    ...(targetAlternative && { targetAlternative })
+  };
+
+  return withAnalysisCache(analysisCacheKey(input), options, ({ signal, onPartial }) => callWithRetry(async (provider) => {
+    return generateValidated(provider, input, {
+      label: '그룹 분석 결과',
+      emptyMessage: "그룹 분석 결과가 비어있습니다.",
+      validate: (raw) => withCitations(validateGroupAnalysis(raw, questions.map(q => q.id), names), raw, attachments)
+    }, {
+      signal,
+      onText: onPartial && ((text) => onPartial(readPartialAnalysis(parsePartialJSON(text))))
+    });
+  }, signal), (value) => restoreAnalysis(value, { questionIds: questions.map(q => q.id), participantNames: names }));
+};
+
+export interface CompareOptions extends RequestOptions {
+  /** 그룹 모드라면 answers 대신 참여자별 답변을 근거로 평가합니다. */
+  participants?: Participant[];
+}
+
+/**
+ * 추천안과 모든 대안을 질문에서 도출한 같은 기준으로 평가해 비교표를 만듭니다.
+ */
+export const compareOptions = async (
+  topic: string,
+  questions: Question[],
+  answers: Record<number, Answer>,
+  analysis: AnalysisResult,
+  options: CompareOptions = {}
+): Promise<ComparisonResult> => {
+  const { signal, language = DEFAULT_LANGUAGE, participants } = options;
+
+  return callWithRetry(async (provider) => {
+    return generateValidated(provider, { task: 'comparison', topic, language, questions, answers, analysis, ...(participants && { participants }) }, {
+      label: '비교표',
+      emptyMessage: "비교 결과가 비어있습니다.",
+      validate: (raw) => validateComparison(raw, optionTitlesOf(analysis))
+    }, { signal });
+  }, signal);
+};
+
+export interface FollowUpOptions extends StreamOptions<string>, AttachmentOptions {
+  /** 그룹 모드라면 answers 대신 참여자별 답변을 근거로 답합니다. */
+  participants?: Participant[];
+}
+
+/**
+ * 결과 보고서에 대한 후속 질문에 답합니다. 주제, 질문과 답변, 현재 보고서와 이전 대화를 근거로 하며 보고서 자체는 다시 쓰지 않습니다.
+ * onPartial을 넘기면 지금까지 생성된 답을 계속 전달합니다.
+ */
+export const askFollowUp = async (
+  topic: string,
+  questions: Question[],
+  answers: Record<number, Answer>,
+  analysis: AnalysisResult,
+  history: ChatMessage[],
+  message: string,
+  options: FollowUpOptions = {}
+): Promise<string> => {
+  const { signal, onPartial, language = DEFAULT_LANGUAGE, participants, attachments = [] } = options;
+
+  return callWithRetry(async (provider) => {
+    return generateValidated(provider, { task: 'followUp', topic, language, questions, answers, analysis, history, message, attachments, ...(participants && { participants }) }, {
+      label: '후속 답변',
+      emptyMessage: "후속 질문에 대한 AI 응답이 비어있습니다.",
+      validate: validateFollowUp
+    }, {
+      signal,
+      onText: onPartial && ((text) => onPartial(readPartialFollowUp(parsePartialJSON(text))))
+    });
+  }, signal);
 };
@@ -0,0 +1,91 @@
+import { formatAnswer, isAnswered } from "./answers";
+import { Answer, Language, Participant, Question } from "./types";
+
+export type AgreementLevel = 'agree' | 'mixed' | 'conflict';
+
+export interface QuestionAgreement {
+  questionId: number;
+  /** 0(모두 다름) ~ 1(모두 같음). 답한 사람이 둘 미만이거나 자유 서술 질문이면 null입니다. */
+  score: number | null;
+  level: AgreementLevel | null;
+  responses: { name: string; answer: string; weight: number }[];
+}
+
+const AGREE_THRESHOLD = 0.75;
+const MIXED_THRESHOLD = 0.5;
+
+const toLevel = (score: number): AgreementLevel =>
+  score >= AGREE_THRESHOLD ? 'agree' : score >= MIXED_THRESHOLD ? 'mixed' : 'conflict';
+
+/** 기타 답변도 하나의 선택지처럼 비교할 수 있도록 정규화한 선택 목록 */
+const choicesOf = (answer: Answer): string[] => {
+  const values = Array.isArray(answer.value) ? answer.value : typeof answer.value === 'string' ? [answer.value] : [];
+  const other = answer.other?.trim().toLowerCase();
+  return [...values, ...(other ? [`other:${other}`] : [])];
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 1;
+  return [...a].filter(item => b.has(item)).length / union.size;
+};
+
+const scoreAnswers = (question: Question, answers: Answer[]): number | null => {
+  if (answers.length < 2) return null;
+  switch (question.type) {
+    case 'text':
+      return null;
+    case 'number': {
+      const values = answers.map(answer => answer.value as number);
+      const range = question.range ? question.range.max - question.range.min : Math.max(...values.map(Math.abs));
+      if (!range) return 1;
+      return Math.max(0, 1 - (Math.max(...values) - Math.min(...values)) / range);
+    }
+    case 'multi': {
+      const sets = answers.map(answer => new Set(choicesOf(answer)));
+      let total = 0;
+      let pairs = 0;
+      for (let i = 0; i < sets.length; i++) {
+        for (let j = i + 1; j < sets.length; j++) {
+          total += jaccard(sets[i], sets[j]);
+          pairs++;
+        }
+      }
+      return total / pairs;
+    }
+    case 'single':
+    default: {
+      // 가장 많이 고른 답의 비율을, 모두 다르게 답한 경우가 0이 되도록 환산합니다.
+      const counts = new Map<string, number>();
+      answers.forEach(answer => {
+        const key = choicesOf(answer).join('|');
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      });
+      const share = Math.max(...counts.values()) / answers.length;
+      const chance = 1 / answers.length;
+      return (share - chance) / (1 - chance);
+    }
+  }
+};
+
+/**
+ * 한 질문에 대해 참여자들의 답이 얼마나 일치하는지 계산합니다. 답하지 않은 참여자는 제외합니다.
+ */
+export const measureAgreement = (question: Question, participants: Participant[], language?: Language): QuestionAgreement => {
+  const answered = participants.filter(p => isAnswered(question, p.answers[question.id]));
+  const score = scoreAnswers(question, answered.map(p => p.answers[question.id]));
+  return {
+    questionId: question.id,
+    score,
+    level: score === null ? null : toLevel(score),
+    responses: answered.map(p => ({
+      name: p.name,
+      answer: formatAnswer(question, p.answers[question.id], language),
+      weight: p.answers[question.id].weight
+    }))
+  };
+};
+
+export const summarizeAgreement = (questions: Question[], participants: Participant[], language?: Language): QuestionAgreement[] =>
+  questions.map(question => measureAgreement(question, participants, language));
+
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listDecisions, saveDecision } from './historyStore';
+import { DecisionState } from './types';
+import { MOCK_QUESTIONS } from './providers/mockProvider';
+
+/** 저장하려는 문자열이 limit보다 길면 브라우저처럼 QuotaExceededError를 던지는 저장소입니다. */
+const stubStorage = (limit: number) => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > limit) throw new DOMException('full', 'QuotaExceededError');
+      store.set(key, value);
+    },
+    removeItem: (key: string) => store.delete(key)
+  });
+};
+
+const session = (topic: string, attachmentSize = 0): DecisionState => ({
+  topic,
+  questions: MOCK_QUESTIONS,
+  answers: {},
+  currentStep: 0,
+  result: null,
+  ...(attachmentSize > 0 && {
+    attachments: [{ id: topic, name: `${topic}.txt`, kind: 'text', size: attachmentSize, chunks: ['x'.repeat(attachmentSize)], truncated: false, addedAt: 0 }]
+  })
+});
+
+const sizeOf = (state: DecisionState) => JSON.stringify([{ ...state, id: 'id', title: state.topic, createdAt: 0, updatedAt: 0 }]).length + 200;
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('저장 공간 부족', () => {
+  it('공간이 모자라면 다른 기록의 첨부 파일부터 빼고 저장합니다', () => {
+    stubStorage(sizeOf(session('a', 2000)) + sizeOf(session('b')) + 100);
+    expect(saveDecision('a', session('a', 2000))).toBe('saved');
+    expect(saveDecision('b', session('b', 2000))).toBe('trimmed');
+
+    const records = listDecisions();
+    expect(records.map(record => record.id).sort()).toEqual(['a', 'b']);
+    expect(records.find(record => record.id === 'a')?.attachments).toBeUndefined();
+    expect(records.find(record => record.id === 'b')?.attachments).toHaveLength(1);
+  });
+
+  it('그래도 모자라면 가장 오래된 기록부터 지웁니다', () => {
+    vi.useFakeTimers();
+    stubStorage(sizeOf(session('a')) * 2 + 100);
+    expect(saveDecision('a', session('a'))).toBe('saved');
+    vi.advanceTimersByTime(1000);
+    expect(saveDecision('b', session('b'))).toBe('saved');
+    vi.advanceTimersByTime(1000);
+    expect(saveDecision('c', session('c'))).toBe('trimmed');
+
+    expect(listDecisions().map(record => record.id)).toEqual(['c', 'b']);
+  });
+
+  it('지금 기록 하나도 저장할 수 없으면 failed를 돌려주고 기존 기록은 그대로 둡니다', () => {
+    stubStorage(sizeOf(session('a')) + 100);
+    expect(saveDecision('a', session('a'))).toBe('saved');
+    expect(saveDecision('b', session('b'.repeat(5000)))).toBe('failed');
+    expect(listDecisions().map(record => record.id)).toEqual(['a']);
+  });
+});
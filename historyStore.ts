@@ -0,0 +1,105 @@
+import { migrateAnswer, migrateQuestion } from "./answers";
+import { DecisionRecord, DecisionState } from "./types";
+
+const STORAGE_KEY = 'decider20.history';
+
+const migrateRecord = (record: DecisionRecord): DecisionRecord => ({
+  ...record,
+  questions: record.questions.map(migrateQuestion),
+  answers: Object.fromEntries(
+    Object.entries(record.answers).map(([id, answer]) => [id, migrateAnswer(answer)])
+  ),
+  // 이전 버전은 고정한 분석 객체를 저장했으므로 버전 번호만 남깁니다.
+  ...(record.pinned && { pinned: (record.pinned as unknown[]).filter((id): id is number => typeof id === 'number') })
+});
+
+const readAll = (): DecisionRecord[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(migrateRecord) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 기록을 저장한 결과입니다. trimmed는 저장 공간이 모자라 다른 기록의 첨부 파일이나 오래된 기록을 지우고 저장한 경우,
+ * failed는 그래도 저장하지 못한 경우입니다.
+ */
+export type SaveOutcome = 'saved' | 'trimmed' | 'failed';
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/** 저장 공간이 모자라면 false를, 그 밖의 오류는 그대로 던집니다. */
+const tryWrite = (records: DecisionRecord[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    return true;
+  } catch (error) {
+    if (isQuotaError(error)) return false;
+    throw error;
+  }
+};
+
+const withoutAttachments = (record: DecisionRecord): DecisionRecord =>
+  record.attachments ? { ...record, attachments: undefined } : record;
+
+/**
+ * 기록 전체를 저장합니다. 공간이 모자라면 keepId가 아닌 기록의 첨부 파일을 먼저 빼고, 그래도 모자라면
+ * 오래된 기록부터 지우며, 마지막으로 keepId 기록의 첨부 파일까지 빼서 다시 시도합니다.
+ */
+const writeAll = (records: DecisionRecord[], keepId?: string): SaveOutcome => {
+  try {
+    if (tryWrite(records)) return 'saved';
+    let remaining = records.map(record => record.id === keepId ? record : withoutAttachments(record));
+    if (tryWrite(remaining)) return 'trimmed';
+    const oldestFirst = remaining.filter(record => record.id !== keepId).sort((a, b) => a.updatedAt - b.updatedAt);
+    for (const evicted of oldestFirst) {
+      remaining = remaining.filter(record => record !== evicted);
+      if (tryWrite(remaining)) return 'trimmed';
+    }
+    if (tryWrite(remaining.map(withoutAttachments))) return 'trimmed';
+    console.warn("저장 공간이 모자라 의사결정 기록을 저장하지 못했습니다.");
+  } catch (error) {
+    console.warn("의사결정 기록을 저장하지 못했습니다.", error);
+  }
+  return 'failed';
+};
+
+export const createDecisionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * 최근에 수정된 순서대로 저장된 기록을 반환합니다.
+ */
+export const listDecisions = (): DecisionRecord[] =>
+  readAll().sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const getDecision = (id: string): DecisionRecord | undefined =>
+  readAll().find(record => record.id === id);
+
+/**
+ * 세션 상태를 저장합니다. 이미 있는 기록이면 사용자가 바꾼 제목과 생성 시각은 그대로 유지합니다.
+ */
+export const saveDecision = (id: string, state: DecisionState): SaveOutcome => {
+  const records = readAll();
+  const existing = records.find(record => record.id === id);
+  const now = Date.now();
+  const record: DecisionRecord = {
+    ...state,
+    id,
+    title: existing?.title ?? state.topic.trim(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  return writeAll([record, ...records.filter(r => r.id !== id)], id);
+};
+
+export const renameDecision = (id: string, title: string): SaveOutcome =>
+  writeAll(readAll().map(record => record.id === id ? { ...record, title: title.trim() || record.topic } : record), id);
+
+export const deleteDecision = (id: string): SaveOutcome =>
+  writeAll(readAll().filter(record => record.id !== id));
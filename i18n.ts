@@ -0,0 +1,917 @@
+import { createContext, useContext } from 'react';
+import { ErrorKind } from './errors';
+import { ProviderId } from './providers/types';
+import { Language, QuestionType } from './types';
+
+export type { Language } from './types';
+
+/** 오류 문구에 넣는 값들. 문구마다 필요한 값만 씁니다. */
+export interface ErrorParams {
+  max?: number;
+  version?: number;
+  /** 1부터 세는 항목 번호 */
+  index?: number;
+  /** HTTP 응답 상태 코드 */
+  status?: number;
+}
+
+export const LANGUAGES: Record<Language, { label: string; locale: string; promptName: string }> = {
+  ko: { label: '한국어', locale: 'ko-KR', promptName: 'Korean' },
+  en: { label: 'English', locale: 'en-US', promptName: 'English' }
+};
+
+/** 언어가 저장되지 않은 이전 세션은 한국어로 만들어졌습니다. */
+export const DEFAULT_LANGUAGE: Language = 'ko';
+
+const STORAGE_KEY = 'decider20.language';
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && value in LANGUAGES;
+
+/**
+ * 새 세션에 사용할 언어입니다. 마지막으로 고른 언어가 없으면 브라우저 언어를 따릅니다.
+ */
+export const getPreferredLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch {
+    // 저장소를 쓸 수 없으면 브라우저 언어를 따릅니다.
+  }
+  return typeof navigator !== 'undefined' && !navigator.language.toLowerCase().startsWith('ko') ? 'en' : DEFAULT_LANGUAGE;
+};
+
+export const setPreferredLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (error) {
+    console.warn("언어 설정을 저장하지 못했습니다.", error);
+  }
+};
+
+const ko = {
+  locale: 'ko-KR',
+  common: {
+    cancel: '취소',
+    save: '저장',
+    close: '닫기'
+  },
+  app: {
+    tagline: 'AI 맞춤형 의사결정 프레임워크',
+    language: '언어',
+    start: {
+      title: '결정이 필요한 분야가 무엇인가요?',
+      placeholder: '예: 이직 제안을 수락할까요? / 이번 달에 어떤 적금 상품에 가입할까요?',
+      adaptiveMode: '적응형 질문 모드',
+      adaptiveHint: '답변에 따라 후속 질문을 몇 개씩 생성합니다',
+      generate: '진단 질문 생성',
+      importSession: '내보낸 세션·답변지(JSON) 가져오기'
+    },
+    loading: {
+      questions: '당신의 고민에 꼭 필요한 핵심 질문들을 생성 중입니다...',
+      analysis: '제공하신 답변들을 정밀 분석하여 최적의 해답을 도출 중입니다...',
+      refining: '심층 분석 중입니다...',
+      extending: '템플릿에 이번 주제에 필요한 질문을 덧붙이는 중입니다...',
+      refiningBadge: 'Processing deep-dive analysis...'
+    },
+    answering: {
+      progress: (current: number, total: string) => `Question ${current} / ${total}`,
+      approximately: (count: number) => `약 ${count}`,
+      prev: '이전',
+      skip: '건너뛰기',
+      loadingRound: '후속 질문 생성 중',
+      finish: '최종 분석 리포트',
+      next: '다음'
+    },
+    result: {
+      confidence: 'Decision Confidence',
+      recommended: 'Recommended Path',
+      refinedInsight: '심층 분석 통찰',
+      reasoning: '분석 근거',
+      prosCons: '장단점 체크',
+      refineEyebrow: 'Custom Refinement',
+      refineTitle: '더 반영할 내용이 있나요?',
+      refineDescription: '놓친 변수나 현재 가장 크게 걸리는 고민을 적어주시면 즉시 재분석해 드립니다.',
+      refinePlaceholder: "예: '예산보다는 효율성이 더 중요해요' 혹은 '현실적인 제약 사항이 생겼어요' 등...",
+      refine: '심층 재분석',
+      alternativesTitle: '다른 추천 대안들',
+      alternativesDescription: '선택 시 해당 대안을 중심으로 리포트가 재구성됩니다.',
+      whyThis: '차선책 사유:',
+      viewPinned: '고정된 분석 보기',
+      analyzeAlternative: '해당 대안으로 심층 분석',
+      comparisonTitle: '비교 리포트',
+      comparisonDescription: '추천안과 대안들을 같은 기준으로 평가합니다. 선택지 이름을 누르면 해당 분석으로 전환됩니다.',
+      comparing: '기준별로 평가하는 중...',
+      compare: '기준별 비교표 만들기',
+      nextSteps: '실행 가이드',
+      restart: '처음으로'
+    },
+    footer: {
+      settings: '모델 설정',
+      apiKey: 'API 키 설정',
+      billing: 'API 한도 및 결제'
+    },
+    failures: {
+      shareLink: '공유 링크를 여는 중 문제가 발생했습니다.',
+      questions: '질문 생성 중 문제가 발생했습니다.',
+      firstRoundEmpty: '첫 질문을 생성하지 못했습니다. 다시 시도해주세요.',
+      round: '후속 질문 생성 중 문제가 발생했습니다.',
+      analysis: '최종 분석 중 문제가 발생했습니다.',
+      refine: '심층 분석 중 문제가 발생했습니다.',
+      importFile: '파일을 가져오는 중 문제가 발생했습니다.',
+      importSheet: '답변지를 가져오는 중 문제가 발생했습니다.',
+      compare: '비교 리포트 생성 중 문제가 발생했습니다.',
+      alternative: '대안 상세 분석 중 문제가 발생했습니다.',
+      regenerate: '질문을 다시 만드는 중 문제가 발생했습니다.',
+      extend: '템플릿 질문을 보완하는 중 문제가 발생했습니다.',
+      importTemplate: '템플릿을 가져오는 중 문제가 발생했습니다.',
+      followUp: '후속 질문에 답하는 중 문제가 발생했습니다.',
+      attachment: '파일을 첨부하는 중 문제가 발생했습니다.'
+    }
+  },
+  errors: {
+    kinds: {
+      auth: "API 키가 없거나 올바르지 않습니다. 하단의 'API 키 설정' 또는 '모델 설정'에서 키를 확인해주세요.",
+      quota: '무료 사용 한도를 초과했습니다. 1분 뒤 다시 시도하거나 유료 API 키를 설정해주세요.',
+      overloaded: 'AI 서버가 일시적으로 혼잡합니다. 잠시 후 다시 시도해주세요.',
+      safety: 'AI 안전 정책에 의해 응답이 차단되었습니다. 표현을 바꿔 다시 시도해주세요.',
+      invalidOutput: 'AI 응답이 비어있거나 형식이 올바르지 않습니다. 다시 시도해주세요.',
+      network: '네트워크에 연결할 수 없습니다. 인터넷 연결을 확인한 뒤 다시 시도해주세요.',
+      unknown: '알 수 없는 오류가 발생했습니다.'
+    } as Record<ErrorKind, string>,
+    retryAfter: (seconds: number) => `(약 ${seconds}초 후 다시 시도할 수 있습니다.)`,
+    retry: '다시 시도',
+    keySettings: 'API 키 설정',
+    quotaUpgrade: '(한도 증설)',
+    safetyHint: '주제나 추가 요청의 표현을 조금 바꿔서 다시 시도해보세요.',
+    attachment: {
+      tooMany: ({ max }: ErrorParams) => `파일은 최대 ${max}개까지 첨부할 수 있습니다.`,
+      unsupported: () => '지원하지 않는 파일 형식입니다. 텍스트(.txt), Markdown(.md), CSV(.csv), PDF(.pdf) 파일을 첨부해주세요.',
+      tooLarge: ({ max }: ErrorParams) => `파일이 너무 큽니다. ${max}MB 이하의 파일을 첨부해주세요.`,
+      empty: () => '파일에 내용이 없습니다.',
+      noPdfText: () => 'PDF에서 텍스트를 찾지 못했습니다. 스캔한 문서라면 내용을 텍스트 파일로 옮겨 첨부해주세요.',
+      unreadablePdf: () => 'PDF를 읽을 수 없습니다. 암호가 걸려 있거나 손상된 파일일 수 있습니다.'
+    },
+    import: {
+      notJSON: () => 'JSON 파일을 읽을 수 없습니다.',
+      notSession: () => 'decider20 세션 파일이 아닙니다.',
+      invalid: () => '파일의 버전 정보가 올바르지 않습니다.',
+      newerVersion: ({ version }: ErrorParams) => `더 최신 버전(v${version})의 파일입니다. 앱을 업데이트한 뒤 다시 시도해주세요.`,
+      noTopic: () => '세션에 결정 주제가 없습니다.',
+      badQuestions: () => '세션의 질문 목록이 올바르지 않습니다.',
+      badAnswers: () => '세션의 답변 형식이 올바르지 않습니다.',
+      badAnalysis: () => '세션의 분석 결과가 올바르지 않습니다.',
+      brokenLink: () => '공유 링크가 손상되었거나 잘렸습니다.',
+      notAnswerSheet: () => 'decider20 답변지 파일이 아닙니다.',
+      noParticipants: () => '답변지에 참여자가 없습니다.',
+      otherQuestionnaire: () => '현재 세션과 다른 질문지에 대한 답변지입니다.',
+      notTemplate: () => 'decider20 템플릿 파일이 아닙니다.',
+      noTemplateName: () => '템플릿에 이름이 없습니다.',
+      noTemplateQuestions: () => '템플릿에 질문이 없습니다.',
+      badTemplateQuestion: ({ index }: ErrorParams) => `템플릿의 ${index}번 질문이 올바르지 않습니다.`    },
+    webhook: {
+      invalidUrl: () => '웹훅 주소가 올바르지 않습니다.',
+      timeout: () => '웹훅 응답이 너무 늦습니다.',
+      unreachable: () => '웹훅 주소에 연결하지 못했습니다.',
+      rejected: ({ status }: ErrorParams) => `웹훅이 요청을 거절했습니다. (${status})`
+    }
+  },
+  group: {
+    mode: '그룹 모드',
+    modeHint: '여러 사람이 같은 질문지에 답하고 합의안을 찾습니다',
+    namesPlaceholder: '참여자 이름을 쉼표로 구분해 적어주세요 (예: 민수, 지영, 현우)',
+    participants: '참여자',
+    answeringAs: (name: string) => `${name}님의 답변`,
+    addPlaceholder: '참여자 이름',
+    add: '추가',
+    exportSheet: '답변지 내보내기',
+    importSheet: '답변지 가져오기',
+    nextParticipant: (name: string) => `다음 참여자: ${name}`,
+    agreementTitle: '참여자 간 일치도',
+    agreementDescription: '질문별로 참여자들의 답이 얼마나 같은지 보여줍니다. 의견이 갈린 질문이 먼저 표시됩니다.',
+    levels: { agree: '합의', mixed: '부분 합의', conflict: '의견 충돌' },
+    notComparable: '비교 불가',
+    caveatsTitle: '참여자별 유의 사항'
+  },
+  settings: {
+    title: '모델 설정',
+    providers: {
+      server: '앱 서버',
+      gemini: 'Google Gemini',
+      openai: 'OpenAI 호환 서버',
+      mock: '오프라인 Mock'
+    } as Record<ProviderId, string>,
+    model: '모델',
+    baseUrl: '서버 주소',
+    apiKey: 'API 키 (선택)',
+    mockHint: '네트워크 없이 항상 같은 예시 질문과 분석 결과를 반환합니다.',
+    serverHint: 'API 키는 앱 서버에만 있습니다. 모델은 서버 설정을 따르며, 서버 주소를 비워두면 같은 출처의 /api를 씁니다.'
+  },
+  editor: {
+    title: '질문 다듬기',
+    description: '답하기 전에 질문과 선택지를 고치거나, 빼거나, 순서를 바꿀 수 있습니다.',
+    textPlaceholder: '질문 내용',
+    types: { single: '하나 선택', multi: '여러 개 선택', text: '자유 서술', number: '숫자' } as Record<QuestionType, string>,
+    optionPlaceholder: (index: number) => `선택지 ${index}`,
+    addOption: '선택지 추가',
+    allowOther: "'기타' 직접 입력 허용",
+    min: '최소',
+    max: '최대',
+    step: '간격',
+    unit: '단위',
+    moveUp: '위로',
+    moveDown: '아래로',
+    regenerate: '다시 만들기',
+    remove: '삭제',
+    addQuestion: '질문 추가',
+    incomplete: '질문 내용과 선택지(2개 이상) 또는 올바른 숫자 범위를 채워주세요.',
+    answersReset: '내용을 바꾼 질문의 기존 답변은 지워집니다.',
+    confirm: '답변 시작',
+    edit: '질문 편집',
+    saveTemplate: '템플릿으로 저장',
+    templateSaved: (name: string) => `'${name}' 템플릿으로 저장했습니다.`
+  },
+  templates: {
+    title: '템플릿',
+    description: '자주 내리는 결정은 저장해 둔 질문지로 바로 시작할 수 있습니다. 위에 주제를 먼저 적어주세요.',
+    builtIn: '기본',
+    questionCount: (count: number) => `질문 ${count}개`,
+    start: '이 템플릿으로 시작',
+    extend: '주제에 맞는 질문을 AI로 덧붙이기',
+    export: '내보내기',
+    import: '템플릿 가져오기',
+    delete: '삭제',
+    namePlaceholder: '템플릿 이름',
+    confirmDelete: (name: string) => `'${name}' 템플릿을 삭제할까요?`
+  },
+  history: {
+    title: '지난 의사결정',
+    done: '분석 완료',
+    inProgress: (step: number, total: number) => `진행 중 ${step} / ${total}`,
+    view: '결과 보기',
+    resume: '이어하기',
+    rename: '이름 바꾸기',
+    delete: '삭제',
+    confirmDelete: (title: string) => `'${title}' 기록을 삭제할까요?`,
+    decided: '결정함',
+    checkInDue: '결과 점검일',
+    reviewed: (satisfaction: number) => `만족도 ${satisfaction}/5`,
+    storage: {
+      trimmed: '브라우저 저장 공간이 모자라 오래된 기록이나 다른 기록의 첨부 파일을 지우고 저장했습니다.',
+      failed: '브라우저 저장 공간이 모자라 이번 기록을 저장하지 못했습니다. 지난 기록을 지우거나 세션을 파일로 내보내 주세요.'
+    } as Record<'trimmed' | 'failed', string>
+  },
+  question: {
+    textPlaceholder: '생각나는 대로 자유롭게 적어주세요.',
+    multiHint: '해당하는 항목을 모두 선택하세요',
+    other: '기타 (직접 입력)',
+    otherPlaceholder: '선택지에 없는 답변을 적어주세요.',
+    importance: '이 질문의 중요도',
+    why: '왜 이 질문을 하나요?'
+  },
+  a11y: {
+    confidence: (score: number) => `결정 확신도 ${score}%`,
+    shortcuts: '키보드: A–D 또는 1–4로 선택 · Enter 다음 · ← → 이전/다음 질문',
+    importanceOption: (weight: number, label: string) => `중요도 ${weight}: ${label}`,
+    reduceMotion: '동작 줄이기',
+    rangeValue: (value: string) => `현재 값 ${value}`
+  },
+  consistency: {
+    checking: '분석 전에 답변이 서로 맞는지 점검하고 있습니다...',
+    title: '분석 전에 확인해 주세요',
+    description: '서로 맞지 않거나 정보가 부족한 답변이 있습니다. 해당 질문으로 돌아가 고치거나 그대로 분석할 수 있습니다.',
+    kinds: { contradiction: '모순', lowInformation: '정보 부족' },
+    goTo: (index: number) => `${index}번 질문으로 이동`,
+    proceed: '그대로 분석하기',
+    allMinimumWeight: "모든 질문의 중요도를 '거의 상관없음'으로 답했습니다. 정말 중요한 항목이 있다면 중요도를 높여주세요.",
+    shortText: '답변이 너무 짧아 분석에 반영하기 어렵습니다. 조금 더 자세히 적어주세요.'
+  },
+  weights: {
+    1: '거의 상관없음',
+    2: '조금 중요',
+    3: '보통',
+    4: '중요',
+    5: '매우 중요'
+  } as Record<number, string>,
+  answer: {
+    none: '답변 없음',
+    other: (text: string) => `기타: ${text}`
+  },
+  comparison: {
+    criterion: '기준',
+    total: '종합'
+  },
+  tasks: {
+    progress: (done: number, total: number) => `${done} / ${total} 완료`,
+    toggle: (step: string) => `'${step}' 완료`,
+    details: '마감일·담당자',
+    due: '마감일',
+    owner: '담당자',
+    exportIcs: '캘린더(.ics)',
+    exportMarkdown: 'Markdown 할 일',
+    exportCsv: 'CSV',
+    noDueDates: '캘린더로 내보내려면 마감일을 하나 이상 정해주세요.',
+    send: '트래커로 보내기',
+    sending: '보내는 중...',
+    sent: '보냈습니다',
+    sendFailed: '보내지 못했습니다',
+    webhook: '트래커 웹훅 주소',
+    webhookPlaceholder: 'https://example.com/hooks/decider20',
+    webhookHint: '할 일 목록을 JSON으로 POST합니다. 받는 서버는 이 앱의 출처에 대해 CORS를 허용해야 합니다.',
+    invalidWebhook: 'http 또는 https 주소를 입력해주세요.'
+  },
+  outcome: {
+    title: '무엇을 결정했나요?',
+    description: '실제로 고른 선택지와 결과를 돌아볼 날짜를 남겨두면, 나중에 추천이 얼마나 맞았는지 확인할 수 있습니다.',
+    recommended: '추천',
+    custom: '직접 입력',
+    customPlaceholder: '실제로 고른 선택지',
+    checkIn: '결과를 돌아볼 날짜',
+    decide: '결정 기록하기',
+    decided: (choice: string) => `'${choice}'을(를) 선택했습니다`,
+    decidedAt: (date: string) => `${date}에 결정`,
+    checkInOn: (date: string) => `${date}에 결과 점검`,
+    due: '점검일이 되었습니다. 결과를 기록해 주세요.',
+    reviewNow: '결과 기록하기',
+    reviewTitle: '실제로 어떻게 되었나요?',
+    notesPlaceholder: '결정 이후 실제로 일어난 일을 적어주세요.',
+    satisfaction: '만족도',
+    satisfactionLevels: ['', '매우 불만족', '불만족', '보통', '만족', '매우 만족'],
+    prosHappened: '예상한 장점 중 실제로 나타난 것',
+    consHappened: '예상한 단점 중 실제로 나타난 것',
+    saveReview: '결과 저장',
+    editReview: '결과 수정',
+    clear: '결정 기록 지우기',
+    confirmClear: '결정과 결과 기록을 지울까요?',
+    predicted: '결정할 때의 확신도',
+    actual: '실제 만족도',
+    realized: '실제로 나타남',
+    notRealized: '나타나지 않음',
+    followed: '추천을 따름',
+    notFollowed: '다른 선택'
+  },
+  retrospective: {
+    title: '돌아보기',
+    description: '결과를 기록한 결정들로 확신도가 실제 결과와 얼마나 맞았는지 보여줍니다.',
+    dueTitle: '결과를 기다리는 결정',
+    dueOn: (date: string) => `점검일 ${date}`,
+    review: '결과 기록',
+    decided: '기록한 결정',
+    reviewed: '결과까지 기록',
+    satisfactionFollowed: '추천을 따랐을 때 만족도',
+    satisfactionOther: '다른 선택을 했을 때 만족도',
+    prosRealized: '예상한 장점이 나타난 비율',
+    consRealized: '예상한 단점이 나타난 비율',
+    calibration: '확신도 보정',
+    band: '확신도 구간',
+    count: '결정 수',
+    averageScore: '평균 확신도',
+    goodRate: '잘 된 비율',
+    goodRateHint: '만족도 4 이상을 잘 된 결정으로 봅니다. 추천을 따른 결정만 셉니다.',
+    overconfident: (points: number) => `확신도가 실제보다 평균 ${points}%p 높았습니다.`,
+    underconfident: (points: number) => `확신도가 실제보다 평균 ${points}%p 낮았습니다.`,
+    calibrated: '확신도가 실제 결과와 잘 맞았습니다.',
+    empty: '결과를 기록한 결정이 아직 없습니다. 결과 화면에서 결정을 기록하고 점검일에 결과를 남겨주세요.'
+  },
+  safety: {
+    injectionWarning: 'AI에게 지시를 바꾸라고 요구하는 문장처럼 보입니다. 이 내용은 지시가 아니라 결정에 참고할 정보로만 전달됩니다.',
+    count: (length: number, max: number) => `${length.toLocaleString()} / ${max.toLocaleString()}자`
+  },
+  attachments: {
+    title: '참고 자료',
+    hint: '제안서, 계약 조건, 사양서, 표(.txt, .md, .csv, .pdf)를 첨부하면 질문과 분석에 참고합니다. 파일에서 추출한 텍스트만 세션에 저장되며, 질문과 분석을 요청할 때 모델에 함께 전달됩니다.',
+    add: '파일 첨부',
+    reading: '읽는 중...',
+    remove: (name: string) => `${name} 삭제`,
+    parts: (count: number) => `${count}개 조각`,
+    truncated: '내용이 길어 앞부분만 사용합니다.',
+    limit: (max: number) => `파일은 최대 ${max}개까지 첨부할 수 있습니다.`,
+    injectionWarning: '지시문처럼 보이는 문장이 있습니다. 모델에는 참고 자료로만 전달됩니다.',
+    kinds: { text: '텍스트', markdown: 'Markdown', csv: 'CSV', pdf: 'PDF' },
+    source: '출처'
+  },
+  chat: {
+    title: '결과에 대해 물어보기',
+    description: '보고서를 다시 쓰지 않고 궁금한 점만 물어볼 수 있습니다. 답을 바탕으로 전체를 다시 분석할 수도 있습니다.',
+    suggestions: ['예산이 절반으로 줄면 결론이 달라지나요?', '분석 근거 1번을 더 자세히 설명해 주세요.', '가장 큰 위험은 무엇인가요?'],
+    placeholder: '이 결과에 대해 궁금한 점을 입력하세요',
+    send: '보내기',
+    thinking: '답을 작성하는 중...',
+    promote: '이 질문을 반영해 다시 분석'
+  },
+  cache: {
+    badge: (time: string) => `저장된 분석 결과 · ${time}`,
+    refresh: '새로 분석하기'
+  },
+  scoring: {
+    title: '점수 계산 내역',
+    description: '모델이 답변에서 뽑은 기준별 가중치와 평가로 앱이 직접 계산한 가중 점수입니다.',
+    criteria: '기준과 가중치',
+    basedOn: (ids: string) => `근거 질문 ${ids}`,
+    ranking: '선택지별 종합 점수',
+    sensitivity: '가중치 민감도',
+    flips: (criterion: string, from: number, to: number, rival: string) => `'${criterion}' 가중치를 ${from} → ${to}(으)로 바꾸면 '${rival}'이(가) 1위가 됩니다.`,
+    stable: (criterion: string, max: number) => `'${criterion}' 가중치를 0~${max} 사이에서 바꿔도 1위는 그대로입니다.`,
+    topChoiceMismatch: (title: string) => `계산된 점수로는 '${title}'이(가) 1위입니다. 모델의 추천과 다르니 근거를 함께 살펴보세요.`,
+    confidenceMismatch: (engine: number, model: number) => `계산된 점수(${engine}점)와 모델의 확신도(${model}%)가 크게 다릅니다.`,
+    mismatchBadge: '계산 점수와 불일치'
+  },
+  exportMenu: {
+    pdf: 'PDF 보관',
+    shareLink: '공유 링크',
+    copied: '링크 복사됨',
+    failed: '복사 실패'
+  },
+  pinned: {
+    pinned: '고정됨',
+    pin: '이 분석 고정'
+  },
+  streaming: {
+    drafting: 'Drafting'
+  },
+  versions: {
+    title: '분석 버전',
+    showDiff: '버전 비교',
+    hideDiff: '비교 닫기',
+    initial: '최초 분석',
+    refinement: (input: string) => `재분석: "${input}"`,
+    alternative: (title: string) => `대안 분석: ${title}`,
+    recommendation: '추천안',
+    confidence: '확신도',
+    unchanged: '변경 없음',
+    lists: {
+      pros: '장점',
+      cons: '단점',
+      nextSteps: '실행 가이드'
+    }
+  },
+  markdown: {
+    questionsAndAnswers: '질문과 답변',
+    answer: '답변',
+    importance: '중요도',
+    recommendation: '추천',
+    confidence: '확신도',
+    reasoning: '분석 근거',
+    pros: '장점',
+    cons: '단점',
+    nextSteps: '실행 가이드',
+    alternatives: '다른 대안',
+    comparison: '비교표',
+    criterion: '기준',
+    total: '종합',
+    scoring: '점수 계산 내역',
+    weight: '가중치',
+    conflicts: '의견이 갈린 부분',
+    caveats: '참여자별 유의 사항',
+    followUp: '후속 질문',
+    question: '질문',
+    outcome: '결정과 결과',
+    chosen: '선택',
+    checkIn: '점검일',
+    satisfaction: '만족도',
+    realizedPros: '실제로 나타난 장점',
+    realizedCons: '실제로 나타난 단점',
+    attachments: '참고 자료',
+    source: '출처'
+  }
+};
+
+export type Messages = typeof ko;
+
+const en: Messages = {
+  locale: 'en-US',
+  common: {
+    cancel: 'Cancel',
+    save: 'Save',
+    close: 'Close'
+  },
+  app: {
+    tagline: 'AI-powered decision framework',
+    language: 'Language',
+    start: {
+      title: 'What do you need to decide?',
+      placeholder: 'e.g. Should I accept the job offer? / Which savings plan should I open this month?',
+      adaptiveMode: 'Adaptive questions',
+      adaptiveHint: 'Asks follow-up questions a few at a time based on your answers',
+      generate: 'Generate questions',
+      importSession: 'Import a session or answer sheet (JSON)'
+    },
+    loading: {
+      questions: 'Generating the key questions for your decision...',
+      analysis: 'Analyzing your answers to find the best path...',
+      refining: 'Running a deeper analysis...',
+      extending: 'Adding questions specific to this topic to the template...',
+      refiningBadge: 'Processing deep-dive analysis...'
+    },
+    answering: {
+      progress: (current: number, total: string) => `Question ${current} / ${total}`,
+      approximately: (count: number) => `~${count}`,
+      prev: 'Back',
+      skip: 'Skip',
+      loadingRound: 'Generating follow-ups',
+      finish: 'Final report',
+      next: 'Next'
+    },
+    result: {
+      confidence: 'Decision Confidence',
+      recommended: 'Recommended Path',
+      refinedInsight: 'Deep-dive insight',
+      reasoning: 'Reasoning',
+      prosCons: 'Pros and cons',
+      refineEyebrow: 'Custom Refinement',
+      refineTitle: 'Anything else to consider?',
+      refineDescription: 'Tell us about a factor we missed or what worries you most, and we will re-run the analysis.',
+      refinePlaceholder: "e.g. 'Efficiency matters more than budget' or 'A new constraint came up'...",
+      refine: 'Re-analyze',
+      alternativesTitle: 'Other alternatives',
+      alternativesDescription: 'Pick one to rebuild the report around that alternative.',
+      whyThis: 'Why consider it:',
+      viewPinned: 'View pinned analysis',
+      analyzeAlternative: 'Analyze this alternative',
+      comparisonTitle: 'Comparison report',
+      comparisonDescription: 'Scores the recommendation and alternatives against the same criteria. Click an option name to switch to its analysis.',
+      comparing: 'Scoring each criterion...',
+      compare: 'Build comparison matrix',
+      nextSteps: 'Next steps',
+      restart: 'Start over'
+    },
+    footer: {
+      settings: 'Model settings',
+      apiKey: 'API key',
+      billing: 'API limits & billing'
+    },
+    failures: {
+      shareLink: 'Something went wrong while opening the share link.',
+      questions: 'Something went wrong while generating questions.',
+      firstRoundEmpty: 'Could not generate the first questions. Please try again.',
+      round: 'Something went wrong while generating follow-up questions.',
+      analysis: 'Something went wrong during the final analysis.',
+      refine: 'Something went wrong during the deeper analysis.',
+      importFile: 'Something went wrong while importing the file.',
+      importSheet: 'Something went wrong while importing the answer sheet.',
+      compare: 'Something went wrong while building the comparison report.',
+      alternative: 'Something went wrong while analyzing the alternative.',
+      regenerate: 'Something went wrong while regenerating the question.',
+      extend: 'Something went wrong while extending the template.',
+      importTemplate: 'Something went wrong while importing the template.',
+      followUp: 'Something went wrong while answering your follow-up question.',
+      attachment: 'Something went wrong while attaching the file.'
+    }
+  },
+  errors: {
+    kinds: {
+      auth: "The API key is missing or invalid. Check it under 'API key' or 'Model settings' below.",
+      quota: 'You have exceeded the free usage limit. Try again in a minute or set a paid API key.',
+      overloaded: 'The AI server is temporarily busy. Please try again shortly.',
+      safety: 'The response was blocked by the AI safety policy. Please rephrase and try again.',
+      invalidOutput: 'The AI response was empty or malformed. Please try again.',
+      network: 'Cannot reach the network. Check your internet connection and try again.',
+      unknown: 'An unknown error occurred.'
+    },
+    retryAfter: (seconds: number) => `(You can retry in about ${seconds}s.)`,
+    retry: 'Try again',
+    keySettings: 'API key',
+    quotaUpgrade: '(raise limit)',
+    safetyHint: 'Try rewording your topic or additional request slightly.',
+    attachment: {
+      tooMany: ({ max }: ErrorParams) => `You can attach up to ${max} files.`,
+      unsupported: () => 'Unsupported file type. Attach a text (.txt), Markdown (.md), CSV (.csv) or PDF (.pdf) file.',
+      tooLarge: ({ max }: ErrorParams) => `The file is too large. Attach a file of ${max}MB or less.`,
+      empty: () => 'The file is empty.',
+      noPdfText: () => 'No text was found in the PDF. If it is a scanned document, copy its contents into a text file and attach that.',
+      unreadablePdf: () => 'The PDF could not be read. It may be password-protected or damaged.'
+    },
+    import: {
+      notJSON: () => 'The file is not valid JSON.',
+      notSession: () => 'This is not a decider20 session file.',
+      invalid: () => "The file's version information is invalid.",
+      newerVersion: ({ version }: ErrorParams) => `This file is from a newer version (v${version}). Update the app and try again.`,
+      noTopic: () => 'The session has no decision topic.',
+      badQuestions: () => 'The question list in the session is invalid.',
+      badAnswers: () => 'The answers in the session are in an invalid format.',
+      badAnalysis: () => 'The analysis result in the session is invalid.',
+      brokenLink: () => 'The share link is damaged or truncated.',
+      notAnswerSheet: () => 'This is not a decider20 answer sheet.',
+      noParticipants: () => 'The answer sheet has no participants.',
+      otherQuestionnaire: () => 'This answer sheet is for a different questionnaire than the current session.',
+      notTemplate: () => 'This is not a decider20 template file.',
+      noTemplateName: () => 'The template has no name.',
+      noTemplateQuestions: () => 'The template has no questions.',
+      badTemplateQuestion: ({ index }: ErrorParams) => `Question ${index} in the template is invalid.`    },
+    webhook: {
+      invalidUrl: () => 'The webhook URL is invalid.',
+      timeout: () => 'The webhook took too long to respond.',
+      unreachable: () => 'Could not connect to the webhook URL.',
+      rejected: ({ status }: ErrorParams) => `The webhook rejected the request. (${status})`
+    }
+  },
+  group: {
+    mode: 'Group mode',
+    modeHint: 'Several people answer the same questionnaire and look for a consensus',
+    namesPlaceholder: 'Participant names, separated by commas (e.g. Alex, Sam, Jordan)',
+    participants: 'Participants',
+    answeringAs: (name: string) => `Answering as ${name}`,
+    addPlaceholder: 'Participant name',
+    add: 'Add',
+    exportSheet: 'Export answer sheet',
+    importSheet: 'Import answer sheet',
+    nextParticipant: (name: string) => `Next: ${name}`,
+    agreementTitle: 'Agreement between participants',
+    agreementDescription: 'Shows how similarly participants answered each question. Questions with the most disagreement come first.',
+    levels: { agree: 'Agree', mixed: 'Partly agree', conflict: 'Conflict' },
+    notComparable: 'Not comparable',
+    caveatsTitle: 'Caveats per participant'
+  },
+  settings: {
+    title: 'Model settings',
+    providers: {
+      server: 'App server',
+      gemini: 'Google Gemini',
+      openai: 'OpenAI-compatible server',
+      mock: 'Offline mock'
+    },
+    model: 'Model',
+    baseUrl: 'Server URL',
+    apiKey: 'API key (optional)',
+    mockHint: 'Always returns the same sample questions and analysis without a network.',
+    serverHint: 'API keys stay on the app server. The model follows the server configuration; leave the server URL empty to use /api on the same origin.'
+  },
+  editor: {
+    title: 'Review questions',
+    description: 'Before answering, you can edit, remove or reorder questions and their options.',
+    textPlaceholder: 'Question text',
+    types: { single: 'Single choice', multi: 'Multiple choice', text: 'Free text', number: 'Number' },
+    optionPlaceholder: (index: number) => `Option ${index}`,
+    addOption: 'Add option',
+    allowOther: "Allow an 'Other' write-in",
+    min: 'Min',
+    max: 'Max',
+    step: 'Step',
+    unit: 'Unit',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    regenerate: 'Regenerate',
+    remove: 'Delete',
+    addQuestion: 'Add question',
+    incomplete: 'Fill in the question text and at least 2 options, or a valid number range.',
+    answersReset: 'Existing answers to questions you change will be cleared.',
+    confirm: 'Start answering',
+    edit: 'Edit questions',
+    saveTemplate: 'Save as template',
+    templateSaved: (name: string) => `Saved as the '${name}' template.`
+  },
+  templates: {
+    title: 'Templates',
+    description: 'Start recurring decisions from a saved questionnaire. Write your topic above first.',
+    builtIn: 'Built-in',
+    questionCount: (count: number) => `${count} questions`,
+    start: 'Start with this template',
+    extend: 'Let the AI add topic-specific questions',
+    export: 'Export',
+    import: 'Import template',
+    delete: 'Delete',
+    namePlaceholder: 'Template name',
+    confirmDelete: (name: string) => `Delete the '${name}' template?`
+  },
+  history: {
+    title: 'Past decisions',
+    done: 'Analyzed',
+    inProgress: (step: number, total: number) => `In progress ${step} / ${total}`,
+    view: 'View result',
+    resume: 'Resume',
+    rename: 'Rename',
+    delete: 'Delete',
+    confirmDelete: (title: string) => `Delete '${title}'?`,
+    decided: 'Decided',
+    checkInDue: 'Check-in due',
+    reviewed: (satisfaction: number) => `Satisfaction ${satisfaction}/5`,
+    storage: {
+      trimmed: 'Browser storage was full, so older decisions or attachments on other decisions were removed to save this one.',
+      failed: 'Browser storage is full, so this decision could not be saved. Delete past decisions or export the session to a file.'
+    } as Record<'trimmed' | 'failed', string>
+  },
+  question: {
+    textPlaceholder: 'Write freely, whatever comes to mind.',
+    multiHint: 'Select all that apply',
+    other: 'Other (write in)',
+    otherPlaceholder: 'Write an answer that is not in the options.',
+    importance: 'How important is this question?',
+    why: 'Why are we asking this?'
+  },
+  a11y: {
+    confidence: (score: number) => `Decision confidence ${score}%`,
+    shortcuts: 'Keyboard: A–D or 1–4 to pick · Enter for next · ← → previous/next question',
+    importanceOption: (weight: number, label: string) => `Importance ${weight}: ${label}`,
+    reduceMotion: 'Reduce motion',
+    rangeValue: (value: string) => `Current value ${value}`
+  },
+  consistency: {
+    checking: 'Checking that your answers are consistent before the analysis...',
+    title: 'Please check before the analysis',
+    description: 'Some answers conflict or carry little information. Go back to those questions to revise them, or analyze as is.',
+    kinds: { contradiction: 'Contradiction', lowInformation: 'Low information' },
+    goTo: (index: number) => `Go to question ${index}`,
+    proceed: 'Analyze as is',
+    allMinimumWeight: "You rated every question as 'Barely matters'. If some of them really matter, raise their importance.",
+    shortText: 'This answer is too short to inform the analysis. Please add a little more detail.'
+  },
+  weights: {
+    1: 'Barely matters',
+    2: 'Somewhat',
+    3: 'Moderate',
+    4: 'Important',
+    5: 'Critical'
+  },
+  answer: {
+    none: 'No answer',
+    other: (text: string) => `Other: ${text}`
+  },
+  comparison: {
+    criterion: 'Criterion',
+    total: 'Total'
+  },
+  tasks: {
+    progress: (done: number, total: number) => `${done} / ${total} done`,
+    toggle: (step: string) => `Mark '${step}' done`,
+    details: 'Due date & owner',
+    due: 'Due',
+    owner: 'Owner',
+    exportIcs: 'Calendar (.ics)',
+    exportMarkdown: 'Markdown tasks',
+    exportCsv: 'CSV',
+    noDueDates: 'Set at least one due date to export to a calendar.',
+    send: 'Send to tracker',
+    sending: 'Sending...',
+    sent: 'Sent',
+    sendFailed: 'Could not send',
+    webhook: 'Tracker webhook URL',
+    webhookPlaceholder: 'https://example.com/hooks/decider20',
+    webhookHint: 'The task list is POSTed as JSON. The receiving server must allow CORS from this app.',
+    invalidWebhook: 'Enter an http or https URL.'
+  },
+  outcome: {
+    title: 'What did you decide?',
+    description: 'Record the option you actually chose and when to look back, so you can later check how good the recommendation was.',
+    recommended: 'Recommended',
+    custom: 'Something else',
+    customPlaceholder: 'The option you actually chose',
+    checkIn: 'Check-in date',
+    decide: 'Record decision',
+    decided: (choice: string) => `You chose '${choice}'`,
+    decidedAt: (date: string) => `Decided on ${date}`,
+    checkInOn: (date: string) => `Check in on ${date}`,
+    due: 'The check-in date has arrived. Record how it went.',
+    reviewNow: 'Record outcome',
+    reviewTitle: 'How did it actually go?',
+    notesPlaceholder: 'Describe what actually happened after the decision.',
+    satisfaction: 'Satisfaction',
+    satisfactionLevels: ['', 'Very unsatisfied', 'Unsatisfied', 'Neutral', 'Satisfied', 'Very satisfied'],
+    prosHappened: 'Predicted pros that actually happened',
+    consHappened: 'Predicted cons that actually happened',
+    saveReview: 'Save outcome',
+    editReview: 'Edit outcome',
+    clear: 'Clear decision',
+    confirmClear: 'Clear the recorded decision and outcome?',
+    predicted: 'Confidence at decision time',
+    actual: 'Actual satisfaction',
+    realized: 'Happened',
+    notRealized: 'Did not happen',
+    followed: 'Followed the recommendation',
+    notFollowed: 'Chose differently'
+  },
+  retrospective: {
+    title: 'Retrospective',
+    description: 'Shows how well the confidence scores matched what actually happened, across decisions with a recorded outcome.',
+    dueTitle: 'Waiting for an outcome',
+    dueOn: (date: string) => `Check-in ${date}`,
+    review: 'Record outcome',
+    decided: 'Decisions recorded',
+    reviewed: 'With outcome',
+    satisfactionFollowed: 'Satisfaction when following the recommendation',
+    satisfactionOther: 'Satisfaction when choosing differently',
+    prosRealized: 'Predicted pros that happened',
+    consRealized: 'Predicted cons that happened',
+    calibration: 'Confidence calibration',
+    band: 'Confidence',
+    count: 'Decisions',
+    averageScore: 'Avg. confidence',
+    goodRate: 'Went well',
+    goodRateHint: 'A decision went well if satisfaction is 4 or higher. Only decisions that followed the recommendation count.',
+    overconfident: (points: number) => `Confidence was ${points} points higher than the actual results on average.`,
+    underconfident: (points: number) => `Confidence was ${points} points lower than the actual results on average.`,
+    calibrated: 'Confidence matched the actual results well.',
+    empty: 'No outcomes recorded yet. Record your decision on the result screen and come back on the check-in date.'
+  },
+  safety: {
+    injectionWarning: 'This looks like it is trying to give the AI new instructions. It will be passed on only as information about your decision, not as instructions.',
+    count: (length: number, max: number) => `${length.toLocaleString()} / ${max.toLocaleString()} characters`
+  },
+  attachments: {
+    title: 'Reference files',
+    hint: 'Attach offers, contract terms, spec sheets or tables (.txt, .md, .csv, .pdf) and they are used when generating questions and analyzing. Only the text extracted from each file is saved with the session, and it is sent to the model with those requests.',
+    add: 'Attach files',
+    reading: 'Reading...',
+    remove: (name: string) => `Remove ${name}`,
+    parts: (count: number) => `${count} ${count === 1 ? 'part' : 'parts'}`,
+    truncated: 'This file is long, so only the beginning is used.',
+    limit: (max: number) => `You can attach up to ${max} files.`,
+    injectionWarning: 'Some sentences look like instructions. They will be passed to the model only as reference material.',
+    kinds: { text: 'Text', markdown: 'Markdown', csv: 'CSV', pdf: 'PDF' },
+    source: 'Source'
+  },
+  chat: {
+    title: 'Ask about this result',
+    description: 'Ask follow-up questions without rewriting the report. You can turn any question into a full re-analysis.',
+    suggestions: ['Would the answer change if my budget were halved?', 'Explain reasoning #1 in more detail.', 'What is the biggest risk here?'],
+    placeholder: 'Ask anything about this result',
+    send: 'Send',
+    thinking: 'Writing an answer...',
+    promote: 'Re-analyze with this question'
+  },
+  cache: {
+    badge: (time: string) => `Cached analysis · ${time}`,
+    refresh: 'Run a fresh analysis'
+  },
+  scoring: {
+    title: 'Score breakdown',
+    description: 'A weighted score the app computes itself from the criterion weights and ratings the model derived from your answers.',
+    criteria: 'Criteria and weights',
+    basedOn: (ids: string) => `Based on ${ids}`,
+    ranking: 'Total score per option',
+    sensitivity: 'Weight sensitivity',
+    flips: (criterion: string, from: number, to: number, rival: string) => `Changing the '${criterion}' weight from ${from} to ${to} makes '${rival}' the top choice.`,
+    stable: (criterion: string, max: number) => `The top choice holds for any '${criterion}' weight between 0 and ${max}.`,
+    topChoiceMismatch: (title: string) => `By the computed score, '${title}' comes first. This differs from the model's recommendation, so review the reasoning carefully.`,
+    confidenceMismatch: (engine: number, model: number) => `The computed score (${engine}) differs sharply from the model's confidence (${model}%).`,
+    mismatchBadge: 'Disagrees with computed score'
+  },
+  exportMenu: {
+    pdf: 'Save PDF',
+    shareLink: 'Share link',
+    copied: 'Link copied',
+    failed: 'Copy failed'
+  },
+  pinned: {
+    pinned: 'Pinned',
+    pin: 'Pin this analysis'
+  },
+  streaming: {
+    drafting: 'Drafting'
+  },
+  versions: {
+    title: 'Analysis versions',
+    showDiff: 'Compare versions',
+    hideDiff: 'Close comparison',
+    initial: 'Initial analysis',
+    refinement: (input: string) => `Refined: "${input}"`,
+    alternative: (title: string) => `Alternative: ${title}`,
+    recommendation: 'Recommendation',
+    confidence: 'Confidence',
+    unchanged: 'No change',
+    lists: {
+      pros: 'Pros',
+      cons: 'Cons',
+      nextSteps: 'Next steps'
+    }
+  },
+  markdown: {
+    questionsAndAnswers: 'Questions and answers',
+    answer: 'Answer',
+    importance: 'importance',
+    recommendation: 'Recommendation',
+    confidence: 'Confidence',
+    reasoning: 'Reasoning',
+    pros: 'Pros',
+    cons: 'Cons',
+    nextSteps: 'Next steps',
+    alternatives: 'Other alternatives',
+    comparison: 'Comparison',
+    criterion: 'Criterion',
+    total: 'Total',
+    scoring: 'Score breakdown',
+    weight: 'Weight',
+    conflicts: 'Where the group disagrees',
+    caveats: 'Caveats per participant',
+    followUp: 'Follow-up questions',
+    question: 'Question',
+    outcome: 'Decision and outcome',
+    chosen: 'Chosen',
+    checkIn: 'Check-in',
+    satisfaction: 'Satisfaction',
+    realizedPros: 'Pros that happened',
+    realizedCons: 'Cons that happened',
+    attachments: 'Reference files',
+    source: 'Source'
+  }
+};
+
+export const MESSAGES: Record<Language, Messages> = { ko, en };
+
+export const getMessages = (language: Language = DEFAULT_LANGUAGE): Messages => MESSAGES[language];
+
+export const I18nContext = createContext<Messages>(ko);
+
+/**
+ * 현재 화면 언어의 메시지를 가져옵니다. App이 I18nContext로 제공합니다.
+ */
+export const useMessages = () => useContext(I18nContext);
@@ -0,0 +1,25 @@
+/**
+ * 글자를 입력하는 중인 요소에서는 단축키가 입력을 가로채지 않도록 합니다.
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'range'].includes(target.type);
+};
+
+/**
+ * 선택지 단축키(A, B, C… 또는 1, 2, 3…)를 0부터 시작하는 선택지 번호로 바꿉니다. 해당하지 않으면 null입니다.
+ */
+export const optionIndexForKey = (key: string): number | null => {
+  if (/^[1-9]$/.test(key)) return Number(key) - 1;
+  if (/^[a-z]$/i.test(key)) return key.toLowerCase().charCodeAt(0) - 97;
+  return null;
+};
+
+/** 선택지 배지에 쓰는 글자 (0 → A) */
+export const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+/** 수정 키와 함께 누른 조합은 브라우저 단축키로 남겨둡니다. */
+export const hasModifier = (event: Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'altKey'>) =>
+  event.ctrlKey || event.metaKey || event.altKey;
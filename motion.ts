@@ -0,0 +1,22 @@
+const STORAGE_KEY = 'decider20.reducedMotion';
+
+/**
+ * 저장된 설정이 있으면 그대로, 없으면 운영체제의 '동작 줄이기' 설정을 따릅니다.
+ */
+export const getReducedMotion = (): boolean => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved !== null) return saved === 'true';
+  } catch {
+    // 저장소를 쓸 수 없으면 운영체제 설정을 따릅니다.
+  }
+  return typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+};
+
+export const setReducedMotion = (reduced: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(reduced));
+  } catch (error) {
+    console.warn("동작 줄이기 설정을 저장하지 못했습니다.", error);
+  }
+};
@@ -0,0 +1,126 @@
+import { AnalysisResult, DecisionOutcome, DecisionRecord } from "./types";
+
+export const MIN_SATISFACTION = 1;
+export const MAX_SATISFACTION = 5;
+/** 만족도가 이 값 이상이면 결정이 잘 됐다고 봅니다. */
+export const GOOD_SATISFACTION = 4;
+/** 결정을 기록할 때 제안하는 점검일까지의 날짜 수 */
+export const DEFAULT_CHECK_IN_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 확신도 구간의 하한. 각 구간은 다음 하한 직전까지입니다. */
+const CONFIDENCE_BANDS = [0, 60, 75, 90];
+
+/** 로컬 시간 기준의 날짜 문자열(YYYY-MM-DD). 날짜 입력칸의 값과 같은 형식입니다. */
+export const toDateString = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const defaultCheckInDate = (now: number = Date.now()): string =>
+  toDateString(now + DEFAULT_CHECK_IN_DAYS * DAY_MS);
+
+/**
+ * 지금 보고 있는 분석을 기준으로 실제 결정을 기록합니다.
+ */
+export const createOutcome = (analysis: AnalysisResult, choice: string, checkInDate: string, now: number = Date.now()): DecisionOutcome => ({
+  choice: choice.trim(),
+  followedRecommendation: choice.trim() === analysis.finalRecommendation,
+  predicted: {
+    finalRecommendation: analysis.finalRecommendation,
+    score: analysis.score,
+    pros: analysis.pros,
+    cons: analysis.cons
+  },
+  decidedAt: now,
+  ...(checkInDate && { checkInDate })
+});
+
+/** 점검일이 지났는데 아직 결과를 기록하지 않은 결정인지 확인합니다. */
+export const isCheckInDue = (outcome: DecisionOutcome | undefined, now: number = Date.now()): boolean =>
+  !!outcome && !outcome.review && !!outcome.checkInDate && outcome.checkInDate <= toDateString(now);
+
+export interface CalibrationBand {
+  /** 확신도 구간(포함) */
+  min: number;
+  max: number;
+  count: number;
+  /** 구간에 속한 결정들의 평균 확신도 */
+  averageScore: number;
+  /** 그중 만족도가 GOOD_SATISFACTION 이상이었던 비율(0~100) */
+  goodRate: number;
+}
+
+export interface Retrospective {
+  /** 결정을 기록한 수 */
+  decided: number;
+  /** 결과까지 기록한 수 */
+  reviewed: number;
+  /** 점검일이 지나 결과를 기다리는 기록. 점검일이 이른 순서입니다. */
+  due: DecisionRecord[];
+  /** 추천안을 따른 결정의 확신도 구간별 실제 결과. 결정이 없는 구간은 빠집니다. */
+  bands: CalibrationBand[];
+  /** 평균 확신도에서 실제로 잘 된 비율을 뺀 값. 양수면 확신도가 높게 나온 것입니다. */
+  overconfidence: number | null;
+  /** 추천안을 따랐을 때와 다른 선택을 했을 때의 평균 만족도 */
+  satisfaction: { followed: number | null; other: number | null };
+  /** 예상한 장점과 단점 중 실제로 나타난 비율(0~100) */
+  prosRealized: number | null;
+  consRealized: number | null;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const percent = (part: number, total: number): number | null =>
+  total > 0 ? Math.round(part / total * 100) : null;
+
+/**
+ * 지난 결정들의 결과를 모아 확신도가 실제 결과와 얼마나 맞았는지 정리합니다.
+ * 확신도는 추천안에 대한 것이므로 보정(calibration)에는 추천안을 따른 결정만 씁니다.
+ */
+export const summarizeOutcomes = (records: DecisionRecord[], now: number = Date.now()): Retrospective => {
+  const decided = records.filter(record => record.outcome);
+  const reviewed = decided.filter(record => record.outcome!.review);
+  const followed = reviewed.filter(record => record.outcome!.followedRecommendation);
+  const isGood = (record: DecisionRecord) => record.outcome!.review!.satisfaction >= GOOD_SATISFACTION;
+
+  const bands = CONFIDENCE_BANDS.flatMap((min, i) => {
+    const max = (CONFIDENCE_BANDS[i + 1] ?? 101) - 1;
+    const inBand = followed.filter(record => record.outcome!.predicted.score >= min && record.outcome!.predicted.score <= max);
+    if (inBand.length === 0) return [];
+    return [{
+      min,
+      max,
+      count: inBand.length,
+      averageScore: Math.round(average(inBand.map(record => record.outcome!.predicted.score))!),
+      goodRate: percent(inBand.filter(isGood).length, inBand.length)!
+    }];
+  });
+
+  const meanScore = average(followed.map(record => record.outcome!.predicted.score));
+  const goodRate = percent(followed.filter(isGood).length, followed.length);
+  const satisfactionOf = (list: DecisionRecord[]) => {
+    const value = average(list.map(record => record.outcome!.review!.satisfaction));
+    return value === null ? null : Math.round(value * 10) / 10;
+  };
+  const count = (pick: (outcome: DecisionOutcome) => number) => reviewed.reduce((sum, record) => sum + pick(record.outcome!), 0);
+
+  return {
+    decided: decided.length,
+    reviewed: reviewed.length,
+    due: decided
+      .filter(record => isCheckInDue(record.outcome, now))
+      .sort((a, b) => a.outcome!.checkInDate!.localeCompare(b.outcome!.checkInDate!)),
+    bands,
+    overconfidence: meanScore === null || goodRate === null ? null : Math.round(meanScore - goodRate),
+    satisfaction: {
+      followed: satisfactionOf(followed),
+      other: satisfactionOf(reviewed.filter(record => !record.outcome!.followedRecommendation))
+    },
+    prosRealized: percent(count(o => o.review!.realizedPros.length), count(o => o.predicted.pros.length)),
+    consRealized: percent(count(o => o.review!.realizedCons.length), count(o => o.predicted.cons.length))
+  };
+};
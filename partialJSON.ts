@@ -0,0 +1,51 @@
+/**
+ * 열린 문자열과 괄호를 닫아 불완전한 JSON을 파싱 가능한 형태로 만듭니다.
+ */
+const closeJSON = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+  }
+  let closed = text;
+  if (inString) closed += escaped ? '\\"' : '"';
+  return closed + stack.reverse().join('');
+};
+
+/**
+ * 스트리밍 중인 JSON 텍스트에서 지금까지 완성된 부분만 읽어냅니다.
+ * 끝부분이 키 이름이나 숫자처럼 애매하게 잘려 있으면 직전 구분자까지 되돌아가며 다시 시도하고,
+ * 아직 읽을 수 있는 내용이 없으면 undefined를 반환합니다.
+ */
+export const parsePartialJSON = (text: string): unknown => {
+  let body = text.replace(/^\s*```(?:json|JSON)?/, '').replace(/```\s*$/, '');
+  const start = body.search(/[[{]/);
+  if (start === -1) return undefined;
+  body = body.slice(start);
+
+  let end = body.length;
+  while (end > 0) {
+    const candidate = body.slice(0, end).replace(/[\s,:]+$/, '');
+    try {
+      return JSON.parse(closeJSON(candidate));
+    } catch {
+      const cut = Math.max(
+        body.lastIndexOf(',', end - 1),
+        body.lastIndexOf('{', end - 1) + 1,
+        body.lastIndexOf('[', end - 1) + 1
+      );
+      end = cut < end ? cut : end - 1;
+    }
+  }
+  return undefined;
+};
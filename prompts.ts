@@ -0,0 +1,633 @@
+import { formatAnswer, MAX_WEIGHT, MIN_WEIGHT } from "./answers";
+import { AnalysisResult, Answer, Attachment, ChatMessage, Language, Participant, Question, QuestionType } from "./types";
+import { getMessages, LANGUAGES } from "./i18n";
+import { GenerateJSONRequest, JsonSchema, ProviderTask } from "./providers/types";
+import { measureAgreement } from "./groupAgreement";
+import { MAX_REFINEMENT_LENGTH, MAX_TOPIC_LENGTH, quoteUserInput, USER_INPUT_GUIDE } from "./promptSafety";
+import { attachmentLabel, buildAttachmentContext } from "./attachments";
+import { MAX_CRITERIA, MAX_EXTENSION_QUESTIONS, MAX_OPTIONS, MAX_QUESTIONS, MAX_ROUND_QUESTIONS, MIN_CRITERIA, MIN_OPTIONS, MIN_QUESTIONS } from "./validation";
+
+/**
+ * 작업마다 프롬프트를 만드는 데 필요한 입력입니다. 앱 서버는 클라이언트가 보낸 이 입력으로 프롬프트와 스키마를 직접 만들며,
+ * 클라이언트가 만든 프롬프트는 받지 않습니다.
+ */
+interface PromptBase {
+  topic: string;
+  language: Language;
+  /** 직전 응답이 형식을 벗어났을 때의 위반 사항. 있으면 고쳐서 다시 출력하라는 지시를 덧붙입니다. */
+  issues?: string[];
+}
+
+export interface QuestionsInput extends PromptBase {
+  task: 'questions';
+  attachments: Attachment[];
+}
+
+export interface QuestionInput extends PromptBase {
+  task: 'question';
+  questions: Question[];
+  /** 다시 만들 질문의 id */
+  questionId: number;
+}
+
+export interface QuestionExtensionInput extends PromptBase {
+  task: 'questionExtension';
+  questions: Question[];
+  attachments: Attachment[];
+}
+
+export interface ConsistencyInput extends PromptBase {
+  task: 'consistency';
+  questions: Question[];
+  answers: Record<number, Answer>;
+}
+
+export interface QuestionRoundInput extends PromptBase {
+  task: 'questionRound';
+  questions: Question[];
+  answers: Record<number, Answer>;
+  /** 적응형 질문의 몇 번째 라운드인지(0부터) */
+  round: number;
+  attachments: Attachment[];
+}
+
+export interface AnalysisInput extends PromptBase {
+  task: 'analysis';
+  questions: Question[];
+  answers: Record<number, Answer>;
+  additionalInput?: string;
+  targetAlternative?: string;
+  attachments: Attachment[];
+}
+
+export interface GroupAnalysisInput extends PromptBase {
+  task: 'groupAnalysis';
+  questions: Question[];
+  participants: Participant[];
+  additionalInput?: string;
+  targetAlternative?: string;
+  attachments: Attachment[];
+}
+
+export interface ComparisonInput extends PromptBase {
+  task: 'comparison';
+  questions: Question[];
+  answers: Record<number, Answer>;
+  /** 그룹 모드라면 answers 대신 참여자별 답변을 근거로 평가합니다. */
+  participants?: Participant[];
+  analysis: AnalysisResult;
+}
+
+export interface FollowUpInput extends PromptBase {
+  task: 'followUp';
+  questions: Question[];
+  answers: Record<number, Answer>;
+  /** 그룹 모드라면 answers 대신 참여자별 답변을 근거로 답합니다. */
+  participants?: Participant[];
+  analysis: AnalysisResult;
+  history: ChatMessage[];
+  message: string;
+  attachments: Attachment[];
+}
+
+export type PromptInput =
+  | QuestionsInput
+  | QuestionInput
+  | QuestionExtensionInput
+  | ConsistencyInput
+  | QuestionRoundInput
+  | AnalysisInput
+  | GroupAnalysisInput
+  | ComparisonInput
+  | FollowUpInput;
+
+type InputOf<T extends ProviderTask> = Extract<PromptInput, { task: T }>;
+
+const QUESTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    type: { type: 'string', enum: ['single', 'multi', 'text', 'number'] },
+    text: { type: 'string' },
+    rationale: { type: 'string' },
+    options: {
+      type: 'array',
+      items: { type: 'string' }
+    },
+    allowOther: { type: 'boolean' },
+    min: { type: 'number' },
+    max: { type: 'number' },
+    step: { type: 'number' },
+    unit: { type: 'string' }
+  },
+  required: ["id", "type", "text", "rationale", "options"],
+  propertyOrdering: ["id", "type", "text", "rationale", "options", "allowOther", "min", "max", "step", "unit"]
+};
+
+const QUESTIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: QUESTION_SCHEMA
+};
+
+const QUESTION_ROUND_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: { type: 'array', items: QUESTION_SCHEMA },
+    done: { type: 'boolean' },
+    estimatedRemaining: { type: 'integer' },
+    prunedQuestionIds: { type: 'array', items: { type: 'integer' } }
+  },
+  required: ["questions", "done", "estimatedRemaining", "prunedQuestionIds"]
+};
+
+const CONSISTENCY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['contradiction', 'lowInformation'] },
+          questionIds: { type: 'array', items: { type: 'integer' } },
+          message: { type: 'string' }
+        },
+        required: ["kind", "questionIds", "message"]
+      }
+    }
+  },
+  required: ["issues"]
+};
+
+const COMPARISON_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    criteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          questionIds: { type: 'array', items: { type: 'integer' } }
+        },
+        required: ["name", "description", "questionIds"]
+      }
+    },
+    options: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          ratings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                criterion: { type: 'string' },
+                score: { type: 'number' },
+                rationale: { type: 'string' }
+              },
+              required: ["criterion", "score", "rationale"]
+            }
+          }
+        },
+        required: ["title", "ratings"]
+      }
+    }
+  },
+  required: ["criteria", "options"]
+};
+
+const QUESTION_TYPE_GUIDE = `Choose the best "type" for each question:
+    - "single": pick exactly one option. Use this for most questions.
+    - "multi": "select all that apply" when several options can be true at once.
+    - "number": a quantity such as budget, salary or duration. Leave options empty and set realistic "min", "max", "step" and "unit".
+    - "text": a short free-text answer. Use at most two of these, only when options cannot capture the answer.
+    Each single or multi question must have ${MIN_OPTIONS} to ${MAX_OPTIONS} clear, distinct options. Set "allowOther" to true when the user may need an answer outside the options.
+    Give every question a one-sentence "rationale" telling the user why the answer matters for this decision.`;
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    finalRecommendation: { type: 'string' },
+    summary: { type: 'string' },
+    reasoning: { type: 'array', items: { type: 'string' } },
+    pros: { type: 'array', items: { type: 'string' } },
+    cons: { type: 'array', items: { type: 'string' } },
+    nextSteps: { type: 'array', items: { type: 'string' } },
+    score: { type: 'number' },
+    alternatives: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          summary: { type: 'string' },
+          whyThis: { type: 'string' }
+        },
+        required: ["title", "summary", "whyThis"]
+      }
+    },
+    refinedInsight: { type: 'string' },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          reasoning: { type: 'integer' },
+          attachment: { type: 'string' },
+          excerpt: { type: 'string' }
+        },
+        required: ["reasoning", "attachment", "excerpt"]
+      }
+    },
+    scoring: {
+      type: 'object',
+      properties: {
+        criteria: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              weight: { type: 'number' },
+              questionIds: { type: 'array', items: { type: 'integer' } }
+            },
+            required: ["name", "weight", "questionIds"]
+          }
+        },
+        options: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              ratings: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    criterion: { type: 'string' },
+                    score: { type: 'number' }
+                  },
+                  required: ["criterion", "score"]
+                }
+              }
+            },
+            required: ["title", "ratings"]
+          }
+        }
+      },
+      required: ["criteria", "options"]
+    }
+  },
+  required: ["finalRecommendation", "summary", "reasoning", "pros", "cons", "nextSteps", "score", "alternatives", "scoring"]
+};
+
+const SCORING_GUIDE = `Also fill "scoring" so the app can compute a transparent weighted score itself:
+- "criteria": ${MIN_CRITERIA} to ${MAX_CRITERIA} decision criteria derived from the answers. Give each a "weight" from ${MIN_WEIGHT} to ${MAX_WEIGHT} that follows the importance the user gave to the related questions, and list those question ids in "questionIds".
+- "options": rate finalRecommendation and every alternative (use their titles exactly) on every criterion with a "score" from 0 (very poor) to 10 (excellent).
+Rate honestly; do not inflate the ratings of the recommendation.`;
+
+const GROUP_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...ANALYSIS_SCHEMA.properties,
+    conflicts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          questionId: { type: 'integer' },
+          summary: { type: 'string' }
+        },
+        required: ["questionId", "summary"]
+      }
+    },
+    participantCaveats: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          caveat: { type: 'string' }
+        },
+        required: ["name", "caveat"]
+      }
+    }
+  },
+  required: [...ANALYSIS_SCHEMA.required!, "conflicts", "participantCaveats"]
+};
+
+const FOLLOW_UP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' }
+  },
+  required: ["answer"]
+};
+
+const SCHEMAS: Record<ProviderTask, JsonSchema> = {
+  questions: QUESTIONS_SCHEMA,
+  question: QUESTION_SCHEMA,
+  questionExtension: QUESTIONS_SCHEMA,
+  consistency: CONSISTENCY_SCHEMA,
+  questionRound: QUESTION_ROUND_SCHEMA,
+  analysis: ANALYSIS_SCHEMA,
+  groupAnalysis: GROUP_ANALYSIS_SCHEMA,
+  comparison: COMPARISON_SCHEMA,
+  followUp: FOLLOW_UP_SCHEMA
+};
+
+/**
+ * 첨부 자료를 라벨과 함께 프롬프트에 넣을 블록으로 만듭니다. 첨부가 없으면 빈 문자열입니다.
+ */
+const describeAttachments = (attachments: Attachment[]): string =>
+  attachments.length > 0
+    ? `[Reference documents provided by the user]
+Each document starts with a label such as [${attachmentLabel(0)}]. Treat them as facts about the user's situation, but note where they conflict with the user's answers.
+${quoteUserInput('attachments', buildAttachmentContext(attachments))}
+`
+    : '';
+
+/** 질문을 만들 때 첨부 자료를 어떻게 쓸지에 대한 지시문 */
+const ATTACHMENT_QUESTION_GUIDE = `If reference documents are provided, do not ask about facts they already state; ask about what they leave open or what the user thinks of them.`;
+
+const CITATION_GUIDE = `If reference documents are provided, fill "citations" with the documents that support each reasoning item: "reasoning" is the item's number (1 for the first), "attachment" is the document's label (such as "${attachmentLabel(0)}"), and "excerpt" quotes or closely paraphrases the supporting passage in under 30 words. Cite only documents that actually support the item, and leave "citations" empty if there are no documents.`;
+
+/**
+ * 사용자가 고른 언어로 답하도록 프롬프트 끝에 붙이는 지시문입니다. 주제가 다른 언어로 적혀 있어도 이 언어를 따릅니다.
+ */
+const outputLanguage = (language: Language) =>
+  `Write every piece of text in the JSON (questions, options, units, analysis) in ${LANGUAGES[language].promptName}, even if the topic is written in another language.`;
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'single choice',
+  multi: 'multiple choice',
+  text: 'free text',
+  number: 'number'
+};
+
+/** 프롬프트는 영어로 작성하므로 답변 요약과 중요도 설명도 영어로 넣습니다. */
+const PROMPT_LANGUAGE: Language = 'en';
+
+/**
+ * 질문과 답변을 유형·중요도와 함께 프롬프트에 넣을 텍스트로 정리합니다.
+ */
+const describeAnswers = (questions: Question[], answers: Record<number, Answer>): string =>
+  questions.map(q => {
+    const answer = answers[q.id];
+    const weight = answer?.weight;
+    const meta = [`#${q.id}`, QUESTION_TYPE_LABELS[q.type], weight ? `importance ${weight}/${MAX_WEIGHT} - ${getMessages(PROMPT_LANGUAGE).weights[weight]}` : ''].filter(Boolean).join(', ');
+    return `Question (${meta}): ${q.text}\nAnswer: ${formatAnswer(q, answer, PROMPT_LANGUAGE)}`;
+  }).join('\n\n');
+
+/**
+ * 그룹 모드에서 질문마다 참여자별 답변과 중요도, 계산된 일치 정도를 정리합니다.
+ */
+const describeGroupAnswers = (questions: Question[], participants: Participant[]): string =>
+  questions.map(q => {
+    const agreement = measureAgreement(q, participants, PROMPT_LANGUAGE);
+    const level = agreement.level ? `, agreement: ${agreement.level}` : '';
+    const lines = participants.map(p => {
+      const answer = p.answers[q.id];
+      const weight = answer ? ` (importance ${answer.weight}/${MAX_WEIGHT})` : '';
+      return `- ${p.name}: ${formatAnswer(q, answer, PROMPT_LANGUAGE)}${weight}`;
+    });
+    return `Question (#${q.id}, ${QUESTION_TYPE_LABELS[q.type]}${level}): ${q.text}\n${lines.join('\n')}`;
+  }).join('\n\n');
+
+/** 프롬프트에 넣는 최근 대화 메시지 수. 오래된 대화는 잘라 프롬프트가 끝없이 길어지지 않게 합니다. */
+const MAX_CHAT_HISTORY = 12;
+
+/**
+ * 결과 보고서를 번호가 붙은 목록으로 정리합니다. 사용자가 "근거 3번"처럼 가리킬 때 같은 번호를 씁니다.
+ */
+const describeReport = (analysis: AnalysisResult): string => {
+  const numbered = (title: string, items: string[]) => `${title}:\n${items.map((item, i) => `${i + 1}. ${item}`).join('\n')}`;
+  const sources = (index: number) => {
+    const names = (analysis.citations ?? []).filter(c => c.reasoning === index).map(c => c.source);
+    return names.length > 0 ? ` (sources: ${names.join(', ')})` : '';
+  };
+  return [
+    `Recommendation: ${analysis.finalRecommendation} (confidence ${analysis.score}%)`,
+    `Summary: ${analysis.summary}`,
+    numbered('Reasoning', analysis.reasoning.map((item, i) => item + sources(i))),
+    numbered('Pros', analysis.pros),
+    numbered('Cons', analysis.cons),
+    numbered('Next steps', analysis.nextSteps),
+    numbered('Alternatives', analysis.alternatives.map(alt => `${alt.title} - ${alt.summary}`))
+  ].join('\n\n');
+};
+
+/** 템플릿 질문지에 덧붙일 수 있는 질문 수 */
+export const extensionLimit = (questions: Question[]) => Math.min(MAX_EXTENSION_QUESTIONS, MAX_QUESTIONS - questions.length);
+
+/** 적응형 모드의 한 라운드에서 받을 수 있는 질문 수 */
+export const roundBudget = (questions: Question[]) => Math.min(MAX_ROUND_QUESTIONS, MAX_QUESTIONS - questions.length);
+
+/** 비교표와 인용 검증에 쓰는 추천안과 대안의 제목 */
+export const optionTitlesOf = (analysis: AnalysisResult) => [analysis.finalRecommendation, ...analysis.alternatives.map(alt => alt.title)];
+
+const PROMPTS: { [T in ProviderTask]: (input: InputOf<T>) => string } = {
+  questions: ({ topic, language, attachments }) => `I want to make a decision about the topic below.
+    ${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+    ${USER_INPUT_GUIDE}
+    ${describeAttachments(attachments)}
+    Please determine the optimal number of questions needed to make a high-quality recommendation.
+    Generate at least ${MIN_QUESTIONS} but no more than ${MAX_QUESTIONS} questions.
+    ${QUESTION_TYPE_GUIDE}
+    Ensure the questions cover all critical factors for this topic.
+    ${attachments.length ? ATTACHMENT_QUESTION_GUIDE : ''}
+    ${outputLanguage(language)}`,
+
+  question: ({ topic, language, questions, questionId }) => {
+    const target = questions.find(q => q.id === questionId);
+    const others = questions.filter(q => q.id !== questionId).map(q => `- ${q.text}`).join('\n');
+    return `I want to make a decision about the topic below.
+    ${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+    ${USER_INPUT_GUIDE}
+    The user is editing the questionnaire and wants a better replacement for this question:
+    ${quoteUserInput('question', target?.text ?? '')}
+
+    Other questions already in the questionnaire (do not duplicate them):
+    ${others ? quoteUserInput('questions', others) : 'None'}
+
+    Return exactly one question object that covers a factor important for this decision, phrased more clearly than the original.
+    ${QUESTION_TYPE_GUIDE}
+    ${outputLanguage(language)}`;
+  },
+
+  questionExtension: ({ topic, language, questions, attachments }) => `I want to make a decision about the topic below.
+    ${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+    ${USER_INPUT_GUIDE}
+    ${describeAttachments(attachments)}
+    I am starting from a reusable questionnaire for this kind of decision:
+    ${quoteUserInput('questions', questions.map(q => `- ${q.text}`).join('\n'))}
+
+    Add up to ${extensionLimit(questions)} questions that are specific to this topic and not covered above. Return an empty array if nothing important is missing.
+    ${QUESTION_TYPE_GUIDE}
+    ${attachments.length ? ATTACHMENT_QUESTION_GUIDE : ''}
+    ${outputLanguage(language)}`,
+
+  consistency: ({ topic, language, questions, answers }) => `I want to make a decision about the topic below.
+    ${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+    ${USER_INPUT_GUIDE}
+    Before analyzing, review the user's answers below for problems.
+
+    ${quoteUserInput('answers', describeAnswers(questions, answers))}
+
+    Report only real problems:
+    - "contradiction": two or more answers that cannot both be true or that pull the decision in incompatible directions. List every involved question #id.
+    - "lowInformation": answers that give almost nothing to decide on, such as vague free text or indifference to everything that matters.
+    Write each "message" as one short sentence addressed to the user that explains the problem and what to reconsider. Return an empty "issues" array if the answers are consistent and informative.
+    ${outputLanguage(language)}`,
+
+  questionRound: ({ topic, language, questions, answers, attachments }) => {
+    const asked = questions.length > 0 ? quoteUserInput('answers', describeAnswers(questions, answers)) : "None yet. This is the first round.";
+    return `I want to make a decision about the topic below.
+    ${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+    ${USER_INPUT_GUIDE}
+    ${describeAttachments(attachments)}
+    We are asking questions adaptively, a few at a time, so each round can build on earlier answers.
+
+    Questions asked so far and the user's answers ("${getMessages(PROMPT_LANGUAGE).answer.none}" means the user skipped it):
+    ${asked}
+
+    Decide what you still need to know to make a high-quality recommendation.
+    - If you already have enough information, set "done" to true and return no questions.
+    - Otherwise return 1 to ${roundBudget(questions)} new questions that follow up on the answers above. Do not repeat earlier questions and do not dig into topics the user skipped or ruled out.
+    - Set "estimatedRemaining" to how many more questions you expect to need after this round (the total may not exceed ${MAX_QUESTIONS}).
+    - In "prunedQuestionIds", list the #ids of earlier questions that later answers made irrelevant, so they are left out of the analysis.
+    ${QUESTION_TYPE_GUIDE}
+    ${attachments.length ? ATTACHMENT_QUESTION_GUIDE : ''}
+    ${outputLanguage(language)}`;
+  },
+
+  analysis: ({ topic, language, questions, answers, additionalInput, targetAlternative, attachments }) => `You are a world-class decision consultant.
+${USER_INPUT_GUIDE}
+
+[The user's topic]
+${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+
+[Questions and answers]
+${quoteUserInput('answers', describeAnswers(questions, answers))}
+
+${describeAttachments(attachments)}
+${additionalInput ? `[Additional request from the user]\n${quoteUserInput('request', additionalInput, MAX_REFINEMENT_LENGTH)}\n` : ""}
+${targetAlternative ? `[Focus alternative]\nInstead of the previous recommendation, the user wants to explore the option below in depth. Make this alternative the main recommendation (finalRecommendation) and rewrite the full report around it.\n${quoteUserInput('alternative', targetAlternative, MAX_TOPIC_LENGTH)}` : ""}
+
+Write a professional report based on the data above.
+Let answers to questions the user rated as more important weigh more heavily in your conclusion, and use low-importance answers only as supporting evidence.
+If a focus alternative is given, concentrate on why it can be a reasonable choice and generate new reasoning, pros, cons and nextSteps for it.
+score is your confidence in this recommendation as an integer from 0 to 100. Write at least one item each for reasoning, pros, cons and nextSteps.
+${SCORING_GUIDE}
+${CITATION_GUIDE}
+Output JSON only, with no Markdown in any text.
+${outputLanguage(language)}`,
+
+  groupAnalysis: ({ topic, language, questions, participants, additionalInput, targetAlternative, attachments }) => `You are a world-class decision consultant and facilitator helping a group decide together.
+${USER_INPUT_GUIDE}
+
+[The group's topic]
+${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+
+Participants: ${participants.map(p => p.name).join(', ')}
+
+[Each participant's answers]
+${quoteUserInput('answers', describeGroupAnswers(questions, participants))}
+
+${describeAttachments(attachments)}
+${additionalInput ? `[Additional request from the group]\n${quoteUserInput('request', additionalInput, MAX_REFINEMENT_LENGTH)}\n` : ""}
+${targetAlternative ? `[Focus alternative]\nInstead of the previous recommendation, the group wants to explore the option below in depth. Make this alternative the main recommendation (finalRecommendation) and rewrite the full report around it.\n${quoteUserInput('alternative', targetAlternative, MAX_TOPIC_LENGTH)}` : ""}
+
+Write a professional report that recommends a consensus path the whole group can accept.
+- Weigh each participant's answers by the importance they gave; do not let one person's preferences dominate.
+- In "conflicts", list each question (#id) where participants meaningfully disagree, explaining who differs, how, and why it matters for the decision. Leave it empty if the group agrees.
+- Explain in reasoning how the recommendation balances those conflicts.
+- In "participantCaveats", give exactly one entry per participant (use their name exactly as written above) describing what that person should watch out for or what they give up under this recommendation.
+score is your confidence in this recommendation as an integer from 0 to 100, taking the level of disagreement into account. Write at least one item each for reasoning, pros, cons and nextSteps.
+${SCORING_GUIDE}
+${CITATION_GUIDE}
+Output JSON only, with no Markdown in any text.
+${outputLanguage(language)}`,
+
+  comparison: ({ topic, language, questions, answers, participants, analysis }) => `You are a world-class decision consultant.
+${USER_INPUT_GUIDE}
+
+[The user's topic]
+${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+
+[Questions and answers]
+${quoteUserInput('answers', participants ? describeGroupAnswers(questions, participants) : describeAnswers(questions, answers))}
+
+[Options to compare]
+${quoteUserInput('options', optionTitlesOf(analysis).map((title, i) => `${i + 1}. ${title}`).join('\n'))}
+
+From the questions and answers above, derive ${MIN_CRITERIA} to ${MAX_CRITERIA} evaluation criteria that matter for this decision. For each criterion, list the #ids of the questions it is based on in questionIds.
+Then rate every option against every criterion with a score from 0 (very poor) to 10 (excellent) and a one- or two-sentence rationale.
+Use the option names above exactly as the options' title, and the criterion names exactly as each rating's criterion.
+Judge more strictly on criteria that come from questions the user rated as more important.
+Output JSON only, with no Markdown in any text.
+${outputLanguage(language)}`,
+
+  followUp: ({ topic, language, questions, answers, participants, analysis, history, message, attachments }) => {
+    const conversation = history.slice(-MAX_CHAT_HISTORY)
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Consultant'}: ${turn.text}`)
+      .join('\n');
+    return `You are the decision consultant who wrote the report below, answering the user's follow-up questions about it.
+${USER_INPUT_GUIDE}
+
+[The user's topic]
+${quoteUserInput('topic', topic, MAX_TOPIC_LENGTH)}
+
+[Questions and answers]
+${quoteUserInput('answers', participants ? describeGroupAnswers(questions, participants) : describeAnswers(questions, answers))}
+
+[Current report]
+${quoteUserInput('report', describeReport(analysis))}
+
+${describeAttachments(attachments)}
+${conversation ? `[Conversation so far]\n${quoteUserInput('conversation', conversation)}\n` : ""}
+[User's new message]
+${quoteUserInput('message', message, MAX_REFINEMENT_LENGTH)}
+
+Answer only from the topic, the answers, the report and any reference documents above.
+- For "what if" questions, explain how the recommendation would change and why, citing the affected answers by question #id. Do not rewrite the whole report.
+- When the user refers to a reasoning item, pro, con or next step by number, use the numbering shown in the report.
+- If the question cannot be answered from this information, say what is missing.
+Keep "answer" to a few short paragraphs of plain text with no Markdown. Output JSON only.
+${outputLanguage(language)}`;
+  }
+};
+
+/** 다시 요청할 때 프롬프트에 넣는 위반 사항의 최대 개수 */
+export const MAX_REPAIR_ISSUES = 10;
+
+/**
+ * 직전 응답의 위반 사항을 알려주고 고쳐서 다시 출력하라는 지시를 덧붙입니다.
+ * 위반 사항도 요청 본문으로 들어오므로 사용자 입력처럼 태그로 감쌉니다.
+ */
+const withIssues = (prompt: string, issues: string[]) => `${prompt}
+
+[이전 응답의 문제]
+${quoteUserInput('issues', issues.slice(0, MAX_REPAIR_ISSUES).map(issue => `- ${issue}`).join('\n'), MAX_REFINEMENT_LENGTH)}
+위 문제를 모두 고쳐서 스키마에 맞는 JSON만 다시 출력하세요.`;
+
+/**
+ * 작업 입력으로 모델에 보낼 프롬프트와 스키마를 만듭니다. 앱 서버도 같은 함수로 요청을 만듭니다.
+ */
+export const buildRequest = (input: PromptInput): GenerateJSONRequest => {
+  const prompt = (PROMPTS[input.task] as (input: PromptInput) => string)(input);
+  return {
+    task: input.task,
+    prompt: input.issues?.length ? withIssues(prompt, input.issues) : prompt,
+    schema: SCHEMAS[input.task],
+    input,
+    ...(input.task === 'questionRound' && { round: input.round }),
+    ...(input.task === 'groupAnalysis' && { participants: input.participants.map(p => p.name) }),
+    ...('attachments' in input && input.attachments.length > 0 && { attachments: input.attachments.map((_, i) => attachmentLabel(i)) })
+  };
+};
@@ -0,0 +1,71 @@
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { createAuthError, createSafetyError } from "../errors";
+import { JsonSchema, LLMProvider } from "./types";
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    )
+  }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { format: 'enum', enum: schema.enum }),
+  ...(schema.propertyOrdering && { propertyOrdering: schema.propertyOrdering })
+});
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * 프롬프트나 응답이 안전 정책으로 차단되었으면 SafetyBlockedError를 던집니다.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw createSafetyError(blockReason ?? finishReason);
+  }
+};
+
+/**
+ * 호출 시점의 process.env.API_KEY를 사용하여 최신 Gemini 공급자를 생성합니다.
+ */
+export const createGeminiProvider = (model: string): LLMProvider => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey || apiKey === 'undefined' || apiKey.trim() === '') {
+    throw createAuthError("API 키가 설정되지 않았습니다. 하단의 'API 키 선택'을 통해 키를 설정해주세요.");
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    model,
+    generateJSON: async ({ prompt, schema }, { signal, onText } = {}) => {
+      const params = {
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          abortSignal: signal
+        }
+      };
+
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        assertNotBlocked(response);
+        return response.text ?? '';
+      }
+
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        assertNotBlocked(chunk);
+        if (!chunk.text) continue;
+        text += chunk.text;
+        onText(text);
+      }
+      return text;
+    }
+  };
+};
@@ -0,0 +1,85 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createServerProvider } from "./serverProvider";
+import { LLMProvider, ProviderId, ProviderSettings } from "./types";
+
+export * from "./types";
+export { DEFAULT_SERVER_URL } from "./serverProvider";
+
+/** 화면에 표시할 공급자 이름은 i18n 메시지(settings.providers)에 있습니다. */
+export interface ProviderInfo {
+  defaultModel: string;
+  /** OpenAI 호환 공급자처럼 서버 주소와 키를 직접 입력받는지 여부 */
+  usesEndpoint: boolean;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  server: { defaultModel: 'server', usesEndpoint: false },
+  gemini: { defaultModel: 'gemini-3-flash-preview', usesEndpoint: false },
+  openai: { defaultModel: 'gpt-4o-mini', usesEndpoint: true },
+  mock: { defaultModel: 'mock-v1', usesEndpoint: false }
+};
+
+const STORAGE_KEY = 'decider20.providerSettings';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+/**
+ * 환경 변수(LLM_PROVIDER, LLM_MODEL, OPENAI_BASE_URL, OPENAI_API_KEY)로 기본 설정을 구성합니다.
+ * 브라우저에서는 빌드 시점에 주입된 값이고, 앱 서버에서는 서버 프로세스의 환경 변수입니다.
+ */
+export const getDefaultSettings = (fallback: ProviderId = 'server'): ProviderSettings => {
+  const provider = isProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : fallback;
+  return {
+    provider,
+    model: process.env.LLM_MODEL || PROVIDERS[provider].defaultModel,
+    baseUrl: process.env.OPENAI_BASE_URL || '',
+    apiKey: process.env.OPENAI_API_KEY || ''
+  };
+};
+
+let currentSettings: ProviderSettings | null = null;
+
+export const getProviderSettings = (): ProviderSettings => {
+  if (currentSettings) return currentSettings;
+  const defaults = getDefaultSettings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    currentSettings = stored && isProviderId(stored.provider) ? { ...defaults, ...stored } : defaults;
+  } catch {
+    currentSettings = defaults;
+  }
+  return currentSettings!;
+};
+
+/**
+ * UI에서 선택한 공급자와 모델을 저장합니다. 다음 호출부터 바로 적용됩니다.
+ */
+export const setProviderSettings = (settings: ProviderSettings) => {
+  currentSettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("모델 설정을 저장하지 못했습니다.", error);
+  }
+};
+
+/**
+ * 호출 시점의 설정으로 공급자 인스턴스를 생성합니다.
+ */
+export const createProvider = (settings: ProviderSettings = getProviderSettings()): LLMProvider => {
+  const model = settings.model.trim() || PROVIDERS[settings.provider].defaultModel;
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(model, settings.baseUrl, settings.apiKey);
+    case 'mock':
+      return createMockProvider(model);
+    case 'server':
+      return createServerProvider(model, settings.baseUrl);
+    case 'gemini':
+    default:
+      return createGeminiProvider(model);
+  }
+};
@@ -0,0 +1,141 @@
+import { AnalysisResult, Question } from "../types";
+import { GenerateJSONRequest, LLMProvider, ProviderTask } from "./types";
+
+export const MOCK_QUESTIONS: Question[] = [
+  { id: 1, type: 'multi', text: "이 결정에서 중요하게 생각하는 가치를 모두 골라주세요.", rationale: "어떤 가치를 우선하는지에 따라 추천할 선택지가 달라집니다.", options: ["안정성", "성장 가능성", "금전적 이익", "개인적 만족"], allowOther: true },
+  { id: 2, type: 'single', text: "결정을 내려야 하는 시점은 언제인가요?", rationale: "남은 시간이 짧을수록 정보를 더 모으기보다 바로 실행할 수 있는 선택이 유리합니다.", options: ["일주일 이내", "한 달 이내", "세 달 이내", "정해진 기한 없음"] },
+  { id: 3, type: 'single', text: "감수할 수 있는 위험 수준은 어느 정도인가요?", rationale: "위험을 얼마나 견딜 수 있는지가 공격적인 선택과 안전한 선택을 가르는 기준이 됩니다.", options: ["위험을 최소화하고 싶다", "어느 정도는 감수할 수 있다", "높은 위험도 괜찮다"] },
+  { id: 4, type: 'single', text: "이 결정이 주변 사람들에게 미치는 영향은 어떤가요?", rationale: "다른 사람에게 미치는 영향이 클수록 합의와 점진적인 접근이 중요해집니다.", options: ["거의 없다", "가족에게 영향이 있다", "팀이나 조직에 큰 영향이 있다"], allowOther: true },
+  { id: 5, type: 'number', text: "이 결정에 사용할 수 있는 예산은 얼마인가요?", rationale: "예산이 현실적으로 가능한 선택지의 범위를 정합니다.", options: [], range: { min: 0, max: 5000, step: 50, unit: "만원" } },
+  { id: 6, type: 'text', text: "지금 가장 크게 걸리는 점을 한 문장으로 적어주세요.", rationale: "선택지에 드러나지 않은 걱정이 결론을 바꿀 수 있습니다.", options: [] }
+];
+
+export const MOCK_ANALYSIS: AnalysisResult = {
+  finalRecommendation: "단계적으로 시도해 보는 선택",
+  summary: "답변을 종합하면 위험을 통제하면서 작은 단위로 먼저 실행해 보는 것이 가장 균형 잡힌 선택입니다.",
+  reasoning: [
+    "안정성과 성장 가능성을 함께 고려하고 있어 한 번에 모든 것을 거는 방식은 적합하지 않습니다.",
+    "결정 기한에 여유가 있어 작은 실험으로 정보를 더 모을 수 있습니다.",
+    "주변에 미치는 영향이 있어 점진적인 접근이 갈등을 줄여줍니다."
+  ],
+  pros: ["실패 비용이 작습니다", "중간에 방향을 바꿀 수 있습니다", "실제 경험을 바탕으로 판단할 수 있습니다"],
+  cons: ["최종 결론까지 시간이 더 걸립니다", "초기 성과가 작게 느껴질 수 있습니다"],
+  nextSteps: ["2주 동안 시도해 볼 최소 범위를 정합니다", "성공 여부를 판단할 기준을 미리 적어둡니다", "기간이 끝나면 결과를 돌아보고 확대 여부를 결정합니다"],
+  score: 78,
+  alternatives: [
+    { title: "지금 바로 전면 실행", summary: "기회를 놓치지 않도록 즉시 모든 자원을 투입합니다.", whyThis: "시간이 가장 중요한 변수라면 더 큰 성과를 기대할 수 있습니다." },
+    { title: "현 상태 유지", summary: "당분간 결정을 보류하고 현재 상황을 유지합니다.", whyThis: "위험을 전혀 감수하고 싶지 않다면 가장 안전한 선택입니다." }
+  ]
+};
+
+const MOCK_CRITERIA = ["위험 부담", "기대 성과", "실행 속도", "주변 영향"];
+
+export const MOCK_COMPARISON = {
+  criteria: MOCK_CRITERIA.map((name, i) => ({ name, description: `${name} 측면에서 본 평가입니다.`, questionIds: [i + 1] })),
+  options: [MOCK_ANALYSIS.finalRecommendation, ...MOCK_ANALYSIS.alternatives.map(alt => alt.title)].map((title, optionIndex) => ({
+    title,
+    ratings: MOCK_CRITERIA.map((criterion, criterionIndex) => ({
+      criterion,
+      score: [[8, 7, 6, 8], [4, 9, 9, 5], [10, 2, 3, 7]][optionIndex]?.[criterionIndex] ?? 5,
+      rationale: `${title}은(는) ${criterion} 기준에서 예시 점수를 받았습니다.`
+    }))
+  }))
+};
+
+/** 모델 응답 형식 그대로의 scoring. 앱이 가중합을 계산하면 추천안이 1위가 됩니다. */
+export const MOCK_SCORING = {
+  criteria: [
+    { name: "위험 부담", weight: 4, questionIds: [3] },
+    { name: "기대 성과", weight: 3, questionIds: [1] },
+    { name: "실행 속도", weight: 2, questionIds: [2] },
+    { name: "주변 영향", weight: 3, questionIds: [4] }
+  ],
+  options: [MOCK_ANALYSIS.finalRecommendation, ...MOCK_ANALYSIS.alternatives.map(alt => alt.title)].map((title, optionIndex) => ({
+    title,
+    ratings: MOCK_CRITERIA.map((criterion, criterionIndex) => ({
+      criterion,
+      score: [[8, 7, 6, 8], [4, 9, 9, 5], [10, 2, 3, 7]][optionIndex]?.[criterionIndex] ?? 5
+    }))
+  }))
+};
+
+export const MOCK_REPLACEMENT_QUESTION: Question = {
+  id: 1, type: 'single', text: "이 결정을 미뤘을 때 가장 걱정되는 결과는 무엇인가요?", rationale: "미룰 때 잃는 것이 클수록 빨리 실행할 수 있는 선택이 유리합니다.", options: ["기회를 놓치는 것", "주변의 실망", "금전적 손실", "특별히 없음"], allowOther: true
+};
+
+export const MOCK_EXTENSION_QUESTIONS: Question[] = [
+  { id: 1, type: 'single', text: "이 결정과 관련해 이미 조사해 본 정보가 있나요?", rationale: "정보가 부족하다면 바로 결정하기보다 작게 시험해 보는 선택이 안전합니다.", options: ["충분히 조사했다", "조금 알아봤다", "아직 없다"] },
+  { id: 2, type: 'text', text: "이 주제에서만 특별히 고려해야 할 사정이 있다면 적어주세요.", rationale: "일반적인 질문으로는 드러나지 않는 사정이 결론을 바꿀 수 있습니다.", options: [] }
+];
+
+export const MOCK_FOLLOW_UP_ANSWER = "예산이 줄어든다면 작은 범위로 먼저 시도하는 지금의 추천이 더 유리해집니다. 예산 질문(#5)의 답이 바뀌어도 단계적 접근은 초기 비용이 가장 적기 때문입니다.";
+
+/** 첨부 자료가 있으면 첫 번째 근거가 첫 번째 첨부를 인용한 것으로 응답합니다. */
+const mockCitations = (attachments: string[] = []) =>
+  attachments.length > 0 ? { citations: [{ reasoning: 1, attachment: attachments[0], excerpt: "첨부 자료에 적힌 조건을 근거로 했습니다." }] } : {};
+
+/** 적응형 모드에서 한 라운드에 내보내는 Mock 질문 수 */
+const MOCK_ROUND_SIZE = 3;
+
+const FIXTURES: Record<ProviderTask, (request: GenerateJSONRequest) => unknown> = {
+  questions: () => MOCK_QUESTIONS,
+  questionRound: ({ round = 0 }) => {
+    const questions = MOCK_QUESTIONS.slice(round * MOCK_ROUND_SIZE, (round + 1) * MOCK_ROUND_SIZE);
+    const estimatedRemaining = Math.max(0, MOCK_QUESTIONS.length - (round + 1) * MOCK_ROUND_SIZE);
+    return { questions, done: questions.length === 0, estimatedRemaining, prunedQuestionIds: [] };
+  },
+  question: () => MOCK_REPLACEMENT_QUESTION,
+  questionExtension: () => MOCK_EXTENSION_QUESTIONS,
+  consistency: () => ({ issues: [] }),
+  analysis: ({ attachments }) => ({ ...MOCK_ANALYSIS, scoring: MOCK_SCORING, ...mockCitations(attachments) }),
+  groupAnalysis: ({ participants = [], attachments }) => ({
+    ...MOCK_ANALYSIS,
+    scoring: MOCK_SCORING,
+    ...mockCitations(attachments),
+    conflicts: [{ questionId: 3, summary: "감수할 수 있는 위험 수준에 대한 답이 참여자마다 달라 단계적인 접근으로 절충했습니다." }],
+    participantCaveats: participants.map(name => ({ name, caveat: `${name}님이 중요하게 꼽은 항목이 초기 단계에서 충분히 반영되는지 확인하세요.` }))
+  }),
+  comparison: () => MOCK_COMPARISON,
+  followUp: () => ({ answer: MOCK_FOLLOW_UP_ANSWER })
+};
+
+/** 스트리밍 요청 시 응답을 나눠 보내는 조각 수 */
+const MOCK_STREAM_CHUNKS = 12;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('요청이 취소되었습니다.', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('요청이 취소되었습니다.', 'AbortError'));
+    };
+    // 앱 서버에서는 프로세스가 계속 살아 있으므로 끝난 대기의 리스너를 남기지 않습니다.
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * 네트워크 없이 앱을 점검할 수 있도록 스키마에 맞는 고정 응답을 반환하는 공급자입니다.
+ * 같은 작업에는 항상 같은 결과를 돌려주므로 화면 흐름을 재현하기 쉽습니다.
+ */
+export const createMockProvider = (model: string, latencyMs = 600): LLMProvider => ({
+  id: 'mock',
+  model,
+  generateJSON: async (request, { signal, onText } = {}) => {
+    const text = JSON.stringify(FIXTURES[request.task](request));
+    if (!onText) {
+      await wait(latencyMs, signal);
+      return text;
+    }
+    // 스트리밍을 흉내내기 위해 응답을 여러 조각으로 나눠 전달합니다.
+    const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await wait(latencyMs / MOCK_STREAM_CHUNKS, signal);
+      onText(text.slice(0, end));
+    }
+    return text;
+  }
+});
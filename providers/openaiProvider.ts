@@ -0,0 +1,118 @@
+import { createSafetyError, DecisionError, errorFromStatus, parseRetryAfter } from "../errors";
+import { isRecord, parseModelJSON } from "../validation";
+import { JsonSchema, LLMProvider } from "./types";
+
+/**
+ * OpenAI 호환 서버는 최상위가 객체인 스키마만 허용하는 경우가 많아, 배열 스키마는 { items: [...] }로 감싸서 요청합니다.
+ */
+const ARRAY_WRAPPER_KEY = 'items';
+
+const toOpenAISchema = (schema: JsonSchema): Record<string, unknown> => ({
+  type: schema.type,
+  ...(schema.items && { items: toOpenAISchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toOpenAISchema(value)])
+    )
+  }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum })
+});
+
+/** 응답 본문이나 스트림 이벤트에서 첫 번째 choice를 꺼냅니다. 형식이 다르면 undefined입니다. */
+const firstChoice = (data: unknown): Record<string, unknown> | undefined => {
+  const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  return isRecord(choice) ? choice : undefined;
+};
+
+/** choice의 message나 delta에 담긴 content 문자열을 꺼냅니다. */
+const contentOf = (part: unknown): string =>
+  isRecord(part) && typeof part.content === 'string' ? part.content : '';
+
+/**
+ * stream: true 응답(Server-Sent Events)에서 delta.content를 이어 붙입니다.
+ */
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const choice = firstChoice(JSON.parse(data) as unknown);
+      if (choice?.finish_reason === 'content_filter') throw createSafetyError('content_filter');
+      const delta = contentOf(choice?.delta);
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+export const createOpenAIProvider = (model: string, baseUrl: string, apiKey: string): LLMProvider => {
+  if (!baseUrl.trim()) {
+    throw new DecisionError("OpenAI 호환 서버 주소가 설정되지 않았습니다. 하단의 '모델 설정'에서 주소를 입력해주세요.");
+  }
+  const endpoint = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    model,
+    generateJSON: async ({ task, prompt, schema }, { signal, onText } = {}) => {
+      const isArray = schema.type === 'array';
+      const rootSchema: JsonSchema = isArray
+        ? { type: 'object', properties: { [ARRAY_WRAPPER_KEY]: schema }, required: [ARRAY_WRAPPER_KEY] }
+        : schema;
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey.trim() && { Authorization: `Bearer ${apiKey.trim()}` })
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: task, schema: toOpenAISchema(rootSchema) }
+          },
+          stream: !!onText
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const detail = `${response.status} ${response.statusText} ${await response.text().catch(() => '')}`.trim();
+        throw errorFromStatus(response.status, detail, parseRetryAfter(response.headers.get('retry-after'))) ?? new DecisionError(detail);
+      }
+
+      let text: string;
+      if (onText && response.body) {
+        text = await readEventStream(response.body, onText);
+      } else {
+        const choice = firstChoice(await response.json() as unknown);
+        if (choice?.finish_reason === 'content_filter') throw createSafetyError('content_filter');
+        text = contentOf(choice?.message);
+      }
+      if (!text || !isArray) return text;
+
+      // 감싼 객체를 벗겨낼 수 없으면 원문을 그대로 넘겨 서비스 계층의 검증에서 처리되도록 합니다.
+      try {
+        const parsed = parseModelJSON(text, task);
+        return JSON.stringify(isRecord(parsed) && Array.isArray(parsed[ARRAY_WRAPPER_KEY]) ? parsed[ARRAY_WRAPPER_KEY] : parsed);
+      } catch {
+        return text;
+      }
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { DecisionError, ErrorKind, errorFromKind, errorFromStatus, InvalidOutputError, isErrorKind, parseRetryAfter } from "../errors";
+import { isRecord } from "../validation";
+import { PromptInput } from "../prompts";
+import { LLMProvider, ProviderTask } from "./types";
+
+/**
+ * 작업별 앱 서버 경로입니다. 서버(server/app.ts)도 같은 표로 요청을 작업에 연결합니다.
+ */
+export const SERVER_ROUTES: Record<ProviderTask, string> = {
+  questions: 'questions',
+  questionRound: 'questions/round',
+  question: 'questions/regenerate',
+  questionExtension: 'questions/extend',
+  consistency: 'answers/consistency',
+  analysis: 'analysis',
+  groupAnalysis: 'analysis/group',
+  comparison: 'analysis/comparison',
+  followUp: 'analysis/follow-up'
+};
+
+/**
+ * 앱 서버로 보내는 요청 본문. 작업 종류는 경로로 전달하고, 프롬프트와 스키마는 서버가 input으로 직접 만듭니다.
+ */
+export interface ServerGenerateRequest {
+  input: PromptInput;
+  /** true이면 응답을 줄 단위 JSON({ delta } 또는 { error })으로 나눠 받습니다. */
+  stream?: boolean;
+}
+
+/** 오류 응답 본문이자 스트리밍 도중 실패했을 때 보내는 마지막 줄 */
+export interface ServerErrorBody {
+  error: { kind: ErrorKind; message: string };
+}
+
+/** 앱 서버를 지정하지 않았을 때 쓰는 같은 출처의 경로 */
+export const DEFAULT_SERVER_URL = '/api';
+
+const isErrorBody = (value: unknown): value is ServerErrorBody =>
+  isRecord(value) && isRecord(value.error) && isErrorKind(value.error.kind) && typeof value.error.message === 'string' && !!value.error.message;
+
+const toError = (body: unknown, status: number, retryAfterMs?: number): DecisionError => {
+  if (isErrorBody(body)) return errorFromKind(body.error.kind, body.error.message, retryAfterMs);
+  const detail = `${status} ${JSON.stringify(body ?? '')}`;
+  return errorFromStatus(status, detail, retryAfterMs) ?? new DecisionError(detail);
+};
+
+/** 스트리밍 응답의 한 줄을 읽습니다. JSON이 아니거나 형식이 다른 줄은 InvalidOutputError로 실패합니다. */
+const parseEvent = (line: string): ServerErrorBody | { delta: string } => {
+  let event: unknown;
+  try {
+    event = JSON.parse(line);
+  } catch {
+    event = undefined;
+  }
+  if (isErrorBody(event)) return event;
+  if (isRecord(event) && typeof event.delta === 'string') return { delta: event.delta };
+  throw new InvalidOutputError("앱 서버의 스트리밍 응답을 읽을 수 없습니다.");
+};
+
+/**
+ * 스트리밍 응답의 줄 단위 JSON에서 delta를 이어 붙입니다. { error } 줄을 받으면 그 오류로 실패합니다.
+ */
+const readLines = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = parseEvent(line);
+      if ('error' in event) throw toError(event, 500);
+      if (event.delta) {
+        text += event.delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+/**
+ * 자격 증명을 가진 앱 서버(server/)를 거쳐 모델을 호출하는 공급자입니다. 브라우저에는 API 키가 없습니다.
+ * 실제 모델은 서버의 설정을 따르므로 model은 화면 표시에만 씁니다.
+ */
+export const createServerProvider = (model: string, baseUrl: string): LLMProvider => {
+  const root = (baseUrl.trim() || DEFAULT_SERVER_URL).replace(/\/+$/, '');
+
+  return {
+    id: 'server',
+    model,
+    generateJSON: async ({ task, input }, { signal, onText } = {}) => {
+      const body: ServerGenerateRequest = { input, stream: !!onText };
+      const response = await fetch(`${root}/${SERVER_ROUTES[task]}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+      });
+
+      if (!response.ok) {
+        const errorBody: unknown = await response.json().catch(() => null);
+        throw toError(errorBody, response.status, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      if (onText && response.body) return readLines(response.body, onText);
+      const data: unknown = await response.json().catch(() => {
+        throw new InvalidOutputError("앱 서버의 응답을 읽을 수 없습니다.");
+      });
+      return isRecord(data) && typeof data.text === 'string' ? data.text : '';
+    }
+  };
+};
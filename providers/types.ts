@@ -0,0 +1,61 @@
+import { PromptInput } from "../prompts";
+
+/**
+ * 공급자(Gemini, OpenAI 호환 서버, 오프라인 Mock)와 무관하게 사용하는 응답 스키마 정의입니다.
+ * 각 공급자는 이 스키마를 자신의 형식으로 변환해 구조화된 JSON 출력을 요청합니다.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  /** 문자열 값이 가질 수 있는 후보 목록 */
+  enum?: string[];
+  propertyOrdering?: string[];
+}
+
+export type ProviderId = 'server' | 'gemini' | 'openai' | 'mock';
+
+/**
+ * 서비스 계층이 요청하는 작업 종류입니다. Mock 공급자는 이 값으로 반환할 고정 데이터를 고릅니다.
+ */
+export type ProviderTask = 'questions' | 'questionRound' | 'question' | 'questionExtension' | 'consistency' | 'analysis' | 'groupAnalysis' | 'comparison' | 'followUp';
+
+export interface GenerateJSONRequest {
+  task: ProviderTask;
+  prompt: string;
+  schema: JsonSchema;
+  /** 프롬프트를 만든 작업 입력. 앱 서버 공급자는 프롬프트 대신 이 입력을 보내고, 서버가 같은 프롬프트를 다시 만듭니다. */
+  input: PromptInput;
+  /** 적응형 질문의 몇 번째 라운드인지(0부터). 실제 모델은 프롬프트만 사용하며, Mock 공급자가 응답을 고를 때 참고합니다. */
+  round?: number;
+  /** 그룹 분석에 참여한 사람들의 이름. round와 마찬가지로 Mock 공급자가 응답을 만들 때 참고합니다. */
+  participants?: string[];
+  /** 프롬프트에 넣은 첨부 자료의 라벨(A1, A2, ...). Mock 공급자가 인용을 만들 때 참고합니다. */
+  attachments?: string[];
+}
+
+export interface GenerateOptions {
+  /** 중단되면 진행 중인 요청을 끊고 AbortError로 실패합니다. */
+  signal?: AbortSignal;
+  /** 응답을 스트리밍으로 받으며, 조각이 도착할 때마다 지금까지 누적된 전체 텍스트를 전달합니다. */
+  onText?: (text: string) => void;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  /**
+   * 프롬프트와 스키마를 받아 모델이 생성한 JSON 원문을 반환합니다. 응답이 차단되면 빈 문자열을 반환합니다.
+   */
+  generateJSON: (request: GenerateJSONRequest, options?: GenerateOptions) => Promise<string>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  /** OpenAI 호환 서버의 엔드포인트 (예: http://localhost:11434/v1). 앱 서버 공급자는 비워두면 같은 출처의 /api를 씁니다. */
+  baseUrl: string;
+  /** OpenAI 호환 서버용 API 키. 로컬 서버라면 비워둘 수 있습니다. */
+  apiKey: string;
+}
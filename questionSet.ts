@@ -0,0 +1,57 @@
+import { Answer, Question } from "./types";
+
+/** 직접 편집한 선택형 질문에 필요한 최소 선택지 수 */
+export const MIN_EDITED_OPTIONS = 2;
+
+/**
+ * 편집 중인 질문의 앞뒤 공백과 비어있거나 중복된 선택지를 정리합니다.
+ */
+export const cleanQuestion = (question: Question): Question => {
+  const text = question.text.trim();
+  if (question.type === 'text' || question.type === 'number') {
+    return { ...question, text, options: [], allowOther: undefined };
+  }
+  const options = Array.from(new Set(question.options.map(option => option.trim()).filter(Boolean)));
+  return { ...question, text, options, range: undefined };
+};
+
+/**
+ * 답변을 시작할 수 있는 질문인지 확인합니다. cleanQuestion을 거친 질문을 넘깁니다.
+ */
+export const isQuestionComplete = (question: Question): boolean => {
+  if (!question.text) return false;
+  switch (question.type) {
+    case 'text':
+      return true;
+    case 'number':
+      return !!question.range && question.range.min < question.range.max && question.range.step > 0;
+    default:
+      return question.options.length >= MIN_EDITED_OPTIONS;
+  }
+};
+
+/** 편집기에서 새로 추가한 질문에 붙이는 임시 id. 기존 id와 겹치지 않습니다. */
+export const nextQuestionId = (...lists: Question[][]) =>
+  lists.flat().reduce((max, q) => Math.max(max, q.id), 0) + 1;
+
+/**
+ * 편집을 마친 질문을 정리하고 id를 화면 순서대로 1부터 다시 매깁니다.
+ * idMap에는 내용이 그대로인 기존 질문의 (이전 id → 새 id)만 담기므로, 바뀐 질문의 답변은 remapAnswers에서 버려집니다.
+ */
+export const renumberQuestions = (edited: Question[], original: Question[]): { questions: Question[]; idMap: Map<number, number> } => {
+  const originalById = new Map(original.map(q => [q.id, JSON.stringify(cleanQuestion(q))]));
+  const idMap = new Map<number, number>();
+  const questions = edited.map((question, index) => {
+    const id = index + 1;
+    const cleaned = cleanQuestion(question);
+    if (originalById.get(question.id) === JSON.stringify(cleaned)) idMap.set(question.id, id);
+    return { ...cleaned, id };
+  });
+  return { questions, idMap };
+};
+
+export const remapAnswers = (answers: Record<number, Answer>, idMap: Map<number, number>): Record<number, Answer> =>
+  Object.fromEntries(Object.entries(answers).flatMap(([id, answer]) => {
+    const next = idMap.get(Number(id));
+    return next === undefined ? [] : [[next, answer]];
+  }));
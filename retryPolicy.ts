@@ -0,0 +1,51 @@
+import { DecisionError, OverloadedError, QuotaError } from "./errors";
+
+export interface RetryPolicy {
+  /** 첫 시도를 포함한 최대 시도 횟수 */
+  maxAttempts: number;
+  /** 지수 백오프의 첫 대기 시간 */
+  baseDelayMs: number;
+  /** 한 번에 기다리는 최대 시간. 서버가 이보다 긴 대기를 요구하면 재시도하지 않고 바로 실패합니다. */
+  maxDelayMs: number;
+  /** 대기 시간에 더하거나 빼는 무작위 비율(0~1). 여러 요청이 동시에 재시도하며 몰리는 것을 막습니다. */
+  jitter: number;
+}
+
+const envMaxAttempts = Number(process.env.LLM_MAX_RETRIES);
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Number.isInteger(envMaxAttempts) && envMaxAttempts > 0 ? envMaxAttempts : 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.3
+};
+
+let currentPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+export const getRetryPolicy = (): RetryPolicy => currentPolicy;
+
+export const setRetryPolicy = (policy: Partial<RetryPolicy>) => {
+  currentPolicy = { ...currentPolicy, ...policy };
+};
+
+/**
+ * attempt번째(0부터) 시도가 실패한 뒤 기다릴 시간을 계산합니다. 재시도하지 않아야 하면 null을 반환합니다.
+ * 서버가 Retry-After로 대기 시간을 알려주면 백오프 대신 그 값을 따릅니다.
+ */
+export const getRetryDelay = (
+  error: DecisionError,
+  attempt: number,
+  policy: RetryPolicy = currentPolicy,
+  random: () => number = Math.random
+): number | null => {
+  if (!error.retryable || attempt >= policy.maxAttempts - 1) return null;
+
+  const retryAfterMs = error instanceof QuotaError || error instanceof OverloadedError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  const spread = backoff * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(backoff + spread));
+};
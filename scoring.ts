@@ -0,0 +1,90 @@
+import { MAX_WEIGHT } from "./answers";
+import { AnalysisResult, DecisionScoring } from "./types";
+
+export interface OptionScore {
+  title: string;
+  /** 가중 평균을 0~100으로 환산한 종합 점수 */
+  total: number;
+  /** criteria 순서대로 각 기준이 total에 보탠 점수. 합하면 total이 됩니다. */
+  contributions: number[];
+}
+
+export interface WeightSensitivity {
+  criterion: string;
+  weight: number;
+  /** 1위가 바뀌기 시작하는 가중치. 0~MAX_WEIGHT 안에서 바뀌지 않으면 null입니다. */
+  flipWeight: number | null;
+  /** 그 가중치에서 1위가 되는 선택지 */
+  rival: string | null;
+}
+
+export type ScoreDisagreement =
+  | { kind: 'topChoice'; engineTop: string }
+  | { kind: 'confidence'; engineScore: number };
+
+/** 모델의 확신도와 계산된 점수가 이만큼 벌어지면 어긋난 것으로 봅니다. */
+export const SCORE_GAP_THRESHOLD = 25;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** 선택지별 가중치 × 평가의 합. 가중치 합으로 나누기 전의 값입니다. */
+const weightedSums = ({ criteria, options }: DecisionScoring) =>
+  options.map(option => option.ratings.reduce((sum, rating, i) => sum + rating * criteria[i].weight, 0));
+
+/**
+ * 기준별 가중치로 선택지 평가(0~10)의 가중 평균을 내고 0~100으로 환산해 높은 순으로 정렬합니다.
+ */
+export const computeScores = (scoring: DecisionScoring): OptionScore[] => {
+  const totalWeight = scoring.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  return scoring.options
+    .map(option => {
+      const contributions = option.ratings.map((rating, i) => round1((rating * scoring.criteria[i].weight / totalWeight) * 10));
+      return { title: option.title, total: round1(contributions.reduce((sum, value) => sum + value, 0)), contributions };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+/**
+ * 기준마다 다른 가중치는 그대로 두고 그 가중치만 바꿨을 때, 1위가 다른 선택지로 바뀌는 가장 가까운 값을 찾습니다.
+ * 가중치를 w에서 w+δ로 바꾸면 모든 선택지의 분모가 같이 바뀌므로, 1위 t와 경쟁 선택지 k의 순위는
+ * 가중합 S_t + δ·r_t 와 S_k + δ·r_k 의 대소로만 갈립니다. 두 값이 같아지는 δ = (S_t − S_k) / (r_k − r_t)가 경계입니다.
+ */
+export const analyzeSensitivity = (scoring: DecisionScoring): WeightSensitivity[] => {
+  const sums = weightedSums(scoring);
+  const top = sums.indexOf(Math.max(...sums));
+
+  return scoring.criteria.map((criterion, i) => {
+    let best: { delta: number; rival: string } | null = null;
+    for (let k = 0; k < scoring.options.length; k++) {
+      const slope = scoring.options[k].ratings[i] - scoring.options[top].ratings[i];
+      if (k === top || slope === 0) continue;
+      const delta = (sums[top] - sums[k]) / slope;
+      const flipWeight = criterion.weight + delta;
+      if (flipWeight < 0 || flipWeight > MAX_WEIGHT) continue;
+      if (!best || Math.abs(delta) < Math.abs(best.delta)) best = { delta, rival: scoring.options[k].title };
+    }
+    return {
+      criterion: criterion.name,
+      weight: criterion.weight,
+      flipWeight: best ? round1(criterion.weight + best.delta) : null,
+      rival: best?.rival ?? null
+    };
+  });
+};
+
+/**
+ * 계산된 점수가 모델의 서술과 어긋나는지 확인합니다. 1위가 다르면 그것을, 아니면 확신도와의 차이를 먼저 알립니다.
+ */
+export const findDisagreement = (analysis: AnalysisResult, ranking: OptionScore[]): ScoreDisagreement | null => {
+  const [first] = ranking;
+  if (!first) return null;
+  if (normalizeTitle(first.title) !== normalizeTitle(analysis.finalRecommendation)) {
+    return { kind: 'topChoice', engineTop: first.title };
+  }
+  if (Math.abs(first.total - analysis.score) >= SCORE_GAP_THRESHOLD) {
+    return { kind: 'confidence', engineScore: first.total };
+  }
+  return null;
+};
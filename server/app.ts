@@ -0,0 +1,233 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { readFile } from "node:fs/promises";
+import { extname, join, resolve, sep } from "node:path";
+import { classifyError, DecisionError, ErrorKind } from "../errors";
+import { createProvider, LLMProvider, ProviderSettings, ProviderTask } from "../providers";
+import { SERVER_ROUTES, ServerErrorBody, ServerGenerateRequest } from "../providers/serverProvider";
+import { buildRequest } from "../prompts";
+import { ServerConfig } from "./config";
+import { createRateLimiter } from "./rateLimit";
+import { isRecord } from "../validation";
+import { BadRequestError, parsePromptInput } from "./promptInput";
+
+/** 요청 본문의 최대 크기. 질문지와 답변, 최대 개수의 첨부 자료를 모두 담은 입력도 이 안에 들어옵니다. */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/** 앱 서버 API의 경로 접두사 */
+const API_PREFIX = '/api/';
+
+const TASKS_BY_ROUTE = new Map(
+  (Object.entries(SERVER_ROUTES) as [ProviderTask, string][]).map(([task, route]) => [route, task])
+);
+
+/** 오류 종류별 응답 상태 코드. 서버 쪽 키 문제는 사용자가 고칠 수 없으므로 401이 아니라 502로 알립니다. */
+const STATUS_BY_KIND: Record<ErrorKind, number> = {
+  auth: 502,
+  quota: 429,
+  overloaded: 503,
+  safety: 422,
+  invalidOutput: 502,
+  network: 502,
+  unknown: 500
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+/** 요청 한 건의 기록. 프롬프트와 답변 내용은 남기지 않습니다. */
+export interface RequestLog {
+  time: string;
+  client: string;
+  method: string;
+  path: string;
+  task?: ProviderTask;
+  status: number;
+  durationMs: number;
+  error?: ErrorKind;
+}
+
+export interface ServerDeps {
+  createProvider: (settings: ProviderSettings) => LLMProvider;
+  log: (entry: RequestLog) => void;
+  now: () => number;
+}
+
+const defaultDeps: ServerDeps = {
+  createProvider,
+  log: entry => console.log(JSON.stringify(entry)),
+  now: Date.now
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BadRequestError("요청 본문이 너무 큽니다.");
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * 요청 본문을 확인합니다. 작업 종류는 경로에서 정해지고, 본문에는 프롬프트를 만들 작업 입력만 받습니다.
+ */
+const parseGenerateRequest = (text: string, task: ProviderTask): ServerGenerateRequest => {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new BadRequestError("요청 본문이 올바른 JSON이 아닙니다.");
+  }
+  if (!isRecord(body)) throw new BadRequestError("요청 본문이 올바르지 않습니다.");
+  return { input: parsePromptInput(task, body.input), stream: body.stream === true };
+};
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/** 키 문제는 서버 설정의 문제이므로 화면의 키 설정 안내 대신 이 문구를 보냅니다. */
+const SERVER_AUTH_MESSAGE = "서버에 API 키가 설정되지 않았거나 올바르지 않습니다. 서버 관리자에게 문의해주세요.";
+
+const toErrorBody = (error: DecisionError): ServerErrorBody => ({
+  error: { kind: error.kind, message: error.kind === 'auth' ? SERVER_AUTH_MESSAGE : error.message }
+});
+
+const safeDecode = (pathname: string) => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return pathname;
+  }
+};
+
+/**
+ * 빌드된 화면 파일을 제공합니다. 없는 경로는 index.html로 돌려 화면 쪽에서 처리하게 합니다.
+ */
+const serveStatic = async (res: ServerResponse, staticDir: string, pathname: string): Promise<number> => {
+  const root = resolve(staticDir);
+  const requested = resolve(join(root, safeDecode(pathname)));
+  const file = requested === root || !requested.startsWith(root + sep) ? join(root, 'index.html') : requested;
+  for (const candidate of [file, join(root, 'index.html')]) {
+    try {
+      const content = await readFile(candidate);
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(candidate)] ?? 'application/octet-stream' });
+      res.end(content);
+      return 200;
+    } catch {
+      // 다음 후보(index.html)를 시도합니다.
+    }
+  }
+  res.writeHead(404);
+  res.end();
+  return 404;
+};
+
+/**
+ * 앱 서버의 요청 처리기를 만듭니다. 모델 요청은 클라이언트별 요청 수 제한을 거쳐 서버에 설정된 공급자로 전달됩니다.
+ */
+export const createRequestHandler = (config: ServerConfig, deps: Partial<ServerDeps> = {}) => {
+  const { createProvider, log, now } = { ...defaultDeps, ...deps };
+  const checkRateLimit = createRateLimiter(config.rateLimit, now);
+
+  const clientOf = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    return (config.trustProxy && first) || req.socket.remoteAddress || 'unknown';
+  };
+
+  /**
+   * 모델 요청 하나를 처리하고 응답 상태와 오류 종류를 돌려줍니다.
+   * 스트리밍 요청은 줄 단위 JSON으로 delta를 보내고, 도중에 실패하면 마지막 줄에 오류를 담습니다.
+   */
+  const handleGenerate = async (req: IncomingMessage, res: ServerResponse, task: ProviderTask, client: string): Promise<{ status: number; error?: ErrorKind }> => {
+    const limit = checkRateLimit(client);
+    if (!limit.allowed) {
+      const seconds = Math.ceil(limit.retryAfterMs / 1000);
+      const body: ServerErrorBody = { error: { kind: 'quota', message: `요청이 너무 많습니다. ${seconds}초 뒤 다시 시도해주세요.` } };
+      sendJSON(res, 429, body, { 'Retry-After': String(seconds) });
+      return { status: 429, error: 'quota' };
+    }
+
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    let streaming = false;
+    try {
+      const { input, stream } = parseGenerateRequest(await readBody(req), task);
+      const request = buildRequest(input);
+      const provider = createProvider(config.provider);
+      if (!stream) {
+        const text = await provider.generateJSON(request, { signal: abort.signal });
+        sendJSON(res, 200, { text });
+        return { status: 200 };
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+      streaming = true;
+      let sent = 0;
+      await provider.generateJSON(request, {
+        signal: abort.signal,
+        onText: text => {
+          res.write(JSON.stringify({ delta: text.slice(sent) }) + '\n');
+          sent = text.length;
+        }
+      });
+      res.end();
+      return { status: 200 };
+    } catch (err) {
+      const error = err instanceof BadRequestError ? err : classifyError(err);
+      if (streaming) {
+        res.end(JSON.stringify(toErrorBody(error)) + '\n');
+        return { status: 200, error: error.kind };
+      }
+      const status = err instanceof BadRequestError ? 400 : STATUS_BY_KIND[error.kind];
+      const retryAfterMs = (error as { retryAfterMs?: number }).retryAfterMs;
+      sendJSON(res, status, toErrorBody(error), retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {});
+      return { status, error: error.kind };
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const started = now();
+    const client = clientOf(req);
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const task = path.startsWith(API_PREFIX) ? TASKS_BY_ROUTE.get(path.slice(API_PREFIX.length).replace(/\/+$/, '')) : undefined;
+
+    let result: { status: number; error?: ErrorKind };
+    if (task && method === 'POST') {
+      result = await handleGenerate(req, res, task, client);
+    } else if (path === '/api/health' && method === 'GET') {
+      sendJSON(res, 200, { ok: true, provider: config.provider.provider });
+      result = { status: 200 };
+    } else if (path.startsWith(API_PREFIX)) {
+      sendJSON(res, task ? 405 : 404, { error: { kind: 'unknown', message: "지원하지 않는 요청입니다." } });
+      result = { status: task ? 405 : 404 };
+    } else {
+      result = { status: await serveStatic(res, config.staticDir, path) };
+    }
+
+    log({
+      time: new Date(started).toISOString(),
+      client,
+      method,
+      path,
+      ...(task && { task }),
+      status: result.status,
+      durationMs: now() - started,
+      ...(result.error && { error: result.error })
+    });
+  };
+};
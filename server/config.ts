@@ -0,0 +1,48 @@
+import { getDefaultSettings, ProviderSettings } from "../providers";
+
+export interface RateLimitConfig {
+  /** 요청 수를 세는 구간 길이 */
+  windowMs: number;
+  /** 한 클라이언트가 구간마다 보낼 수 있는 최대 모델 요청 수 */
+  maxRequests: number;
+}
+
+export interface ServerConfig {
+  port: number;
+  host: string;
+  /** 서버가 직접 호출할 모델 공급자. 키는 이 프로세스의 환경 변수에만 있습니다. */
+  provider: ProviderSettings;
+  rateLimit: RateLimitConfig;
+  /** 리버스 프록시 뒤에 있을 때 X-Forwarded-For의 첫 주소를 클라이언트로 봅니다. */
+  trustProxy: boolean;
+  /** 빌드된 화면(vite build 결과)을 함께 제공할 디렉터리 */
+  staticDir: string;
+}
+
+const toPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * 서버 환경 변수로 설정을 읽습니다. 공급자 설정은 화면과 같은 이름(LLM_PROVIDER, LLM_MODEL, OPENAI_*)을 쓰고,
+ * 서버에서 다시 앱 서버를 부를 수는 없으므로 기본값은 gemini입니다.
+ */
+export const loadServerConfig = (): ServerConfig => {
+  const env = process.env;
+  const provider = getDefaultSettings('gemini');
+  if (provider.provider === 'server') {
+    throw new Error("서버의 LLM_PROVIDER는 gemini, openai, mock 중 하나여야 합니다.");
+  }
+  return {
+    port: toPositiveInt(env.PORT, 8787),
+    host: env.HOST || '127.0.0.1',
+    provider,
+    rateLimit: {
+      windowMs: toPositiveInt(env.RATE_LIMIT_WINDOW_MS, 60_000),
+      maxRequests: toPositiveInt(env.RATE_LIMIT_MAX, 30)
+    },
+    trustProxy: env.TRUST_PROXY === 'true',
+    staticDir: env.STATIC_DIR || 'dist'
+  };
+};
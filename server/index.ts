@@ -0,0 +1,10 @@
+import { createServer } from "node:http";
+import { createRequestHandler } from "./app";
+import { loadServerConfig } from "./config";
+
+const config = loadServerConfig();
+const server = createServer(createRequestHandler(config));
+
+server.listen(config.port, config.host, () => {
+  console.log(`decider20 서버가 http://${config.host}:${config.port} 에서 ${config.provider.provider} 공급자로 실행 중입니다.`);
+});
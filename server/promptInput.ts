@@ -0,0 +1,132 @@
+import { migrateQuestion } from "../answers";
+import { AnalysisResult, Answer, Attachment, Participant, Question } from "../types";
+import { DecisionError } from "../errors";
+import { DEFAULT_LANGUAGE, isLanguage } from "../i18n";
+import { ProviderTask } from "../providers";
+import { MAX_REPAIR_ISSUES, PromptInput } from "../prompts";
+import { MAX_ATTACHMENT_CHARS, MAX_ATTACHMENTS } from "../attachments";
+import { isQuestionList, restoreAnalysis, restoreAnswers, restoreAttachments, restoreChat, restoreParticipants } from "../sessionExport";
+import { isRecord, MAX_QUESTIONS, ValidationError } from "../validation";
+
+/** 요청 본문이 올바르지 않을 때 던집니다. 모델 호출 전에 400으로 돌려보냅니다. */
+export class BadRequestError extends DecisionError {}
+
+const readText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new BadRequestError(`${field}가 필요합니다.`);
+  return value;
+};
+
+const readOptionalText = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new BadRequestError(`${field}는 문자열이어야 합니다.`);
+  return value;
+};
+
+/** 질문지는 비어 있을 수 있는 적응형 첫 라운드를 빼면 한 개 이상, MAX_QUESTIONS개 이하여야 합니다. */
+const readQuestions = (value: unknown, allowEmpty = false): Question[] => {
+  if (allowEmpty && Array.isArray(value) && value.length === 0) return [];
+  if (!isQuestionList(value) || value.length > MAX_QUESTIONS) throw new BadRequestError("questions가 올바르지 않습니다.");
+  return value.map(migrateQuestion);
+};
+
+const readAnswers = (value: unknown): Record<number, Answer> =>
+  isRecord(value) ? restoreAnswers(value) : {};
+
+const readParticipants = (value: unknown): Participant[] => {
+  const participants = Array.isArray(value) ? restoreParticipants(value) : [];
+  if (participants.length === 0) throw new BadRequestError("participants가 필요합니다.");
+  return participants;
+};
+
+/** 첨부는 화면에서 올릴 수 있는 개수와 글자 수까지만 받습니다. */
+const readAttachments = (value: unknown): Attachment[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_ATTACHMENTS) throw new BadRequestError("attachments가 올바르지 않습니다.");
+  const attachments = restoreAttachments(value);
+  if (attachments.some(attachment => attachment.chunks.join('').length > MAX_ATTACHMENT_CHARS)) {
+    throw new BadRequestError("첨부 자료가 너무 깁니다.");
+  }
+  return attachments;
+};
+
+const readAnalysis = (value: unknown, questions: Question[], participants: Participant[] = []): AnalysisResult => {
+  try {
+    return restoreAnalysis(value, { questionIds: questions.map(q => q.id), participantNames: participants.map(p => p.name) });
+  } catch (error) {
+    if (error instanceof ValidationError) throw new BadRequestError("analysis가 올바르지 않습니다.");
+    throw error;
+  }
+};
+
+const readIssues = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const issues = value.filter((issue): issue is string => typeof issue === 'string' && !!issue.trim()).slice(0, MAX_REPAIR_ISSUES);
+  return issues.length > 0 ? issues : undefined;
+};
+
+/**
+ * 요청 본문의 input을 확인해 작업 입력으로 되살립니다. 작업 종류는 경로에서 정해지며 input.task와 같아야 합니다.
+ * 프롬프트와 스키마는 서버가 이 입력으로 만들므로 본문에 있어도 쓰지 않습니다.
+ */
+export const parsePromptInput = (task: ProviderTask, raw: unknown): PromptInput => {
+  if (!isRecord(raw)) throw new BadRequestError("input이 필요합니다.");
+  if (raw.task !== task) throw new BadRequestError("input.task가 요청 경로와 다릅니다.");
+
+  const issues = readIssues(raw.issues);
+  const base = {
+    topic: readText(raw.topic, 'topic'),
+    language: isLanguage(raw.language) ? raw.language : DEFAULT_LANGUAGE,
+    ...(issues && { issues })
+  };
+  const additionalInput = readOptionalText(raw.additionalInput, 'additionalInput');
+  const targetAlternative = readOptionalText(raw.targetAlternative, 'targetAlternative');
+  const refinement = { ...(additionalInput && { additionalInput }), ...(targetAlternative && { targetAlternative }) };
+
+  switch (task) {
+    case 'questions':
+      return { ...base, task, attachments: readAttachments(raw.attachments) };
+    case 'question': {
+      const questions = readQuestions(raw.questions);
+      if (!questions.some(q => q.id === raw.questionId)) throw new BadRequestError("questionId가 질문지에 없습니다.");
+      return { ...base, task, questions, questionId: raw.questionId as number };
+    }
+    case 'questionExtension':
+      return { ...base, task, questions: readQuestions(raw.questions), attachments: readAttachments(raw.attachments) };
+    case 'consistency':
+      return { ...base, task, questions: readQuestions(raw.questions), answers: readAnswers(raw.answers) };
+    case 'questionRound': {
+      if (!Number.isInteger(raw.round) || (raw.round as number) < 0) throw new BadRequestError("round가 올바르지 않습니다.");
+      return {
+        ...base, task,
+        questions: readQuestions(raw.questions, true),
+        answers: readAnswers(raw.answers),
+        round: raw.round as number,
+        attachments: readAttachments(raw.attachments)
+      };
+    }
+    case 'analysis':
+      return { ...base, ...refinement, task, questions: readQuestions(raw.questions), answers: readAnswers(raw.answers), attachments: readAttachments(raw.attachments) };
+    case 'groupAnalysis':
+      return { ...base, ...refinement, task, questions: readQuestions(raw.questions), participants: readParticipants(raw.participants), attachments: readAttachments(raw.attachments) };
+    case 'comparison':
+    case 'followUp': {
+      const questions = readQuestions(raw.questions);
+      const participants = raw.participants === undefined ? undefined : readParticipants(raw.participants);
+      const common = {
+        ...base,
+        questions,
+        answers: readAnswers(raw.answers),
+        ...(participants && { participants }),
+        analysis: readAnalysis(raw.analysis, questions, participants)
+      };
+      if (task === 'comparison') return { ...common, task };
+      return {
+        ...common,
+        task,
+        history: Array.isArray(raw.history) ? restoreChat(raw.history) : [],
+        message: readText(raw.message, 'message'),
+        attachments: readAttachments(raw.attachments)
+      };
+    }
+  }
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('구간마다 최대 요청 수까지만 허용하고, 거절할 때는 다음 구간까지 남은 시간을 알려줍니다', () => {
+    let time = 1000;
+    const check = createRateLimiter({ windowMs: 60_000, maxRequests: 2 }, () => time);
+
+    expect(check('a')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(check('a')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    time += 15_000;
+    expect(check('a')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 45_000 });
+  });
+
+  it('클라이언트마다 따로 세고, 구간이 지나면 다시 허용합니다', () => {
+    let time = 0;
+    const check = createRateLimiter({ windowMs: 1000, maxRequests: 1 }, () => time);
+
+    expect(check('a').allowed).toBe(true);
+    expect(check('a').allowed).toBe(false);
+    expect(check('b').allowed).toBe(true);
+    time = 1000;
+    expect(check('a')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+  });
+});
@@ -0,0 +1,31 @@
+import { RateLimitConfig } from "./config";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** 이번 구간에 더 보낼 수 있는 요청 수 */
+  remaining: number;
+  /** 거절된 경우 다음 구간이 시작될 때까지 남은 시간 */
+  retryAfterMs: number;
+}
+
+/**
+ * 클라이언트별로 고정 구간 동안의 요청 수를 셉니다. 구간이 끝난 기록은 다음 확인 때 정리합니다.
+ */
+export const createRateLimiter = ({ windowMs, maxRequests }: RateLimitConfig, now: () => number = Date.now) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (clientId: string): RateLimitResult => {
+    const time = now();
+    for (const [id, window] of windows) {
+      if (time - window.start >= windowMs) windows.delete(id);
+    }
+
+    const window = windows.get(clientId) ?? { start: time, count: 0 };
+    windows.set(clientId, window);
+    if (window.count >= maxRequests) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.start + windowMs - time };
+    }
+    window.count += 1;
+    return { allowed: true, remaining: maxRequests - window.count, retryAfterMs: 0 };
+  };
+};
@@ -0,0 +1,41 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { isRecord } from "../validation";
+
+/** 브라우저에서 바로 보낼 수 있도록 모든 출처를 허용합니다. 로컬 확인용이므로 인증은 없습니다. */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+/**
+ * 할 일 웹훅을 받아보는 스텁 서버의 요청 처리기입니다. 받은 본문을 onPayload로 넘기고 받은 할 일 수를 돌려줍니다.
+ * 실제 트래커를 연결하기 전에 화면의 '트래커로 보내기'를 확인하거나 테스트에서 씁니다.
+ */
+export const createWebhookStubHandler = (onPayload: (payload: unknown) => void) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    let payload: unknown;
+    try {
+      payload = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify({ ok: false }));
+      return;
+    }
+    onPayload(payload);
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify({ ok: true, received: isRecord(payload) && Array.isArray(payload.tasks) ? payload.tasks.length : 0 }));
+  };
@@ -0,0 +1,9 @@
+import { createServer } from "node:http";
+import { createWebhookStubHandler } from "./webhookStub";
+
+const port = Number(process.env.WEBHOOK_STUB_PORT) || 8790;
+const server = createServer(createWebhookStubHandler(payload => console.log(JSON.stringify(payload, null, 2))));
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`할 일 웹훅 스텁이 http://127.0.0.1:${port} 에서 실행 중입니다.`);
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { DecisionState } from './types';
+import { MOCK_ANALYSIS, MOCK_COMPARISON, MOCK_QUESTIONS } from './providers/mockProvider';
+import { ImportError, parseSessionFile, toMarkdown, toSessionJSON } from './sessionExport';
+import { validateComparison } from './validation';
+
+const TITLES = [MOCK_ANALYSIS.finalRecommendation, ...MOCK_ANALYSIS.alternatives.map(alt => alt.title)];
+const COMPARISON = validateComparison(MOCK_COMPARISON, TITLES);
+
+const SESSION: DecisionState = {
+  topic: '이직할까?',
+  questions: MOCK_QUESTIONS,
+  answers: { 2: { value: '한 달 이내', weight: 4 } },
+  currentStep: 0,
+  result: {
+    ...MOCK_ANALYSIS,
+    comparison: COMPARISON,
+    group: { conflicts: [{ questionId: 3, summary: '위험 수준이 갈립니다.' }], caveats: [{ name: '민수', caveat: '예산을 확인하세요.' }] }
+  },
+  participants: [{ id: 'p1', name: '민수', answers: {} }],
+  adaptive: { round: 2, done: false, estimatedRemaining: 3 },
+  versions: [{ id: 1, analysis: MOCK_ANALYSIS, trigger: { kind: 'initial' }, createdAt: 1 }]
+};
+
+/** 내보낸 파일의 세션 일부를 바꿔 다시 읽습니다. */
+const importWith = (patch: (session: Record<string, any>) => void) => {
+  const data = JSON.parse(toSessionJSON('이직', SESSION));
+  patch(data.session);
+  return parseSessionFile(JSON.stringify(data)).session;
+};
+
+describe('세션 가져오기 검증', () => {
+  it('올바른 비교표, 그룹 항목, 적응형 진행 상황과 버전은 그대로 되살립니다', () => {
+    const session = importWith(() => {});
+    expect(session.result?.comparison).toEqual(COMPARISON);
+    expect(session.result?.group).toEqual(SESSION.result!.group);
+    expect(session.adaptive).toEqual(SESSION.adaptive);
+    expect(session.versions).toEqual([expect.objectContaining({ id: 1, trigger: { kind: 'initial' } })]);
+  });
+
+  it('배열이 빠진 비교표와 그룹 항목은 버리거나 비우고, 나머지 결과는 살립니다', () => {
+    const session = importWith(data => {
+      data.result.comparison = { criteria: 'broken' };
+      data.result.group = { conflicts: [{ questionId: 99, summary: '없는 질문' }], caveats: null };
+    });
+    expect(session.result?.finalRecommendation).toBe(MOCK_ANALYSIS.finalRecommendation);
+    expect(session.result?.comparison).toBeUndefined();
+    expect(session.result?.group).toEqual({ conflicts: [], caveats: [] });
+    expect(() => toMarkdown('이직', session)).not.toThrow();
+  });
+
+  it('형식이 어긋난 적응형 진행 상황과 버전은 버립니다', () => {
+    const session = importWith(data => {
+      data.adaptive = { round: 'two' };
+      data.versions = [
+        { id: 1, analysis: MOCK_ANALYSIS, trigger: { kind: 'alternative' } },
+        { id: 2, analysis: { summary: '추천 없음' }, trigger: { kind: 'initial' } },
+        { id: 3, analysis: MOCK_ANALYSIS, trigger: { kind: 'refinement', input: '예산 우선' }, createdAt: 3 }
+      ];
+    });
+    expect(session.adaptive).toBeUndefined();
+    expect(session.versions).toEqual([{ id: 3, analysis: expect.any(Object), trigger: { kind: 'refinement', input: '예산 우선' }, createdAt: 3 }]);
+  });
+
+  it('버전 번호를 새로 매기면 대안의 출처와 고정 목록도 새 번호를 가리키고, 이전 형식의 고정 항목은 버립니다', () => {
+    const session = importWith(data => {
+      data.versions = [
+        { id: 7, analysis: MOCK_ANALYSIS, trigger: { kind: 'initial' }, createdAt: 1 },
+        { id: 7, analysis: MOCK_ANALYSIS, trigger: { kind: 'refinement', input: '예산 우선' }, createdAt: 2 },
+        { id: 9, analysis: MOCK_ANALYSIS, trigger: { kind: 'alternative', title: '작게 시작', from: 7 }, createdAt: 3 }
+      ];
+      data.pinned = [9, 7, MOCK_ANALYSIS, 42];
+    });
+    expect(session.versions?.map(version => version.id)).toEqual([1, 2, 3]);
+    expect(session.versions?.[2].trigger).toEqual({ kind: 'alternative', title: '작게 시작', from: 1 });
+    expect(session.pinned).toEqual([3, 1]);
+  });
+
+  it('읽을 수 없는 파일은 화면 언어로 옮길 수 있도록 메시지 키를 실은 ImportError로 실패합니다', () => {
+    expect(() => parseSessionFile('not json')).toThrow(ImportError);
+    const data = JSON.parse(toSessionJSON('이직', SESSION));
+    try {
+      parseSessionFile(JSON.stringify({ ...data, version: 99 }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({ key: 'newerVersion', params: { version: 99 } });
+    }
+    for (const version of [0.5, -1, '1']) {
+      expect(() => parseSessionFile(JSON.stringify({ ...data, version }))).toThrow(expect.objectContaining({ key: 'invalid' }));
+    }
+  });
+
+  it('답변은 알 수 있는 필드만 읽고, 범위를 벗어난 중요도는 기본값으로 바꿉니다', () => {
+    const session = importWith(data => {
+      data.answers = { 1: ['안정성', 3], 2: '일주일 이내', 3: { value: { nested: true }, weight: 9, other: 7 } };
+    });
+    expect(session.answers).toEqual({
+      1: { value: null, weight: 3 },
+      2: { value: '일주일 이내', weight: 3 },
+      3: { value: null, weight: 3 }
+    });
+  });
+});
@@ -0,0 +1,629 @@
+import { formatAnswer, MAX_WEIGHT, migrateAnswer, migrateQuestion } from "./answers";
+import { AnalysisResult, AnalysisVersion, Answer, Attachment, AttachmentKind, ChatMessage, Citation, ComparisonResult, DecisionOutcome, DecisionState, Language, Participant, Question, StepTask, VersionTrigger } from "./types";
+import { isRecord, validateAdaptiveProgress, validateAnalysis, validateComparison, validateGroupInsight, ValidationError } from "./validation";
+import { DEFAULT_LANGUAGE, ErrorParams, getMessages, isLanguage, Messages } from "./i18n";
+import { computeScores } from "./scoring";
+import { MAX_SATISFACTION, MIN_SATISFACTION } from "./outcomes";
+import { tasksFor, toTaskListItems } from "./stepTasks";
+
+export const EXPORT_FORMAT = 'decider20.session';
+/** 내보내기 파일 형식의 버전. 구조가 바뀌면 올리고 MIGRATIONS에 변환 함수를 추가합니다. */
+export const EXPORT_VERSION = 1;
+const SHARE_PREFIX = '#s=';
+
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  session: DecisionState;
+}
+
+export interface ImportedSession {
+  title: string;
+  session: DecisionState;
+}
+
+export type ImportErrorKey = keyof Messages['errors']['import'];
+
+/**
+ * 가져온 파일이나 링크를 읽을 수 없을 때 발생합니다. 화면은 key와 params로 화면 언어의 문구(errors.import)를 골라 보여줍니다.
+ */
+export class ImportError extends Error {
+  constructor(readonly key: ImportErrorKey, readonly params: ErrorParams = {}) {
+    super(key);
+    this.name = 'ImportError';
+  }
+}
+
+/**
+ * 버전 n의 데이터를 n+1로 변환하는 함수들입니다.
+ * 0은 버전 정보 없이 저장된 데이터(로컬 기록을 그대로 옮긴 JSON, 문자열 답변 등)를 뜻합니다.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (data) => {
+    const session = isRecord(data.session) ? data.session : data;
+    return {
+      format: EXPORT_FORMAT,
+      version: 1,
+      exportedAt: data.exportedAt ?? new Date().toISOString(),
+      title: data.title ?? session.title ?? session.topic,
+      session: {
+        topic: session.topic,
+        questions: session.questions,
+        answers: session.answers ?? {},
+        currentStep: session.currentStep ?? 0,
+        result: session.result ?? session.analysis ?? null,
+        ...(!!session.adaptive && { adaptive: session.adaptive }),
+        ...(!!session.pinned && { pinned: session.pinned }),
+        ...(!!session.versions && { versions: session.versions })
+      }
+    };
+  }
+};
+
+/**
+ * 저장된 인용 중 있는 reasoning 항목과 출처 이름을 가리키는 것만 남깁니다.
+ */
+const restoreCitations = (value: unknown[], reasoningCount: number): Citation[] =>
+  value.flatMap(item => {
+    if (!isRecord(item) || typeof item.reasoning !== 'number' || !Number.isInteger(item.reasoning) || item.reasoning < 0 || item.reasoning >= reasoningCount) return [];
+    if (typeof item.source !== 'string' || !item.source.trim()) return [];
+    return [{ reasoning: item.reasoning, source: item.source, excerpt: typeof item.excerpt === 'string' ? item.excerpt : '' }];
+  });
+
+/** 분석의 비교표와 그룹 항목을 검증할 때 필요한 세션 정보 */
+export interface RestoreContext {
+  questionIds: number[];
+  participantNames: string[];
+}
+
+/** 검증에 실패한 부분은 버리고 나머지를 되살릴 수 있도록 undefined를 돌려줍니다. */
+const whenValid = <T>(restore: () => T): T | undefined => {
+  try {
+    return restore();
+  } catch (error) {
+    if (error instanceof ValidationError) return undefined;
+    throw error;
+  }
+};
+
+/**
+ * 저장된 비교표를 모델 응답 형식으로 되돌려 validateComparison으로 다시 검증합니다.
+ * 분석의 추천안과 대안을 모두 평가하지 않은 비교표는 버립니다.
+ */
+const restoreComparison = (value: Record<string, unknown>, analysis: AnalysisResult): ComparisonResult | undefined => {
+  const criteria: unknown[] = Array.isArray(value.criteria) ? value.criteria : [];
+  const options: unknown[] = Array.isArray(value.options) ? value.options : [];
+  const raw = {
+    criteria,
+    options: options.filter(isRecord).map(option => ({
+      title: option.title,
+      ratings: (Array.isArray(option.cells) ? option.cells : []).filter(isRecord).map((cell, i) => ({
+        criterion: isRecord(criteria[i]) ? criteria[i].name : undefined,
+        score: cell.score,
+        rationale: cell.rationale
+      }))
+    }))
+  };
+  return whenValid(() => validateComparison(raw, [analysis.finalRecommendation, ...analysis.alternatives.map(alt => alt.title)]));
+};
+
+export const restoreAnalysis = (value: unknown, context: RestoreContext): AnalysisResult => {
+  const analysis = validateAnalysis(value);
+  if (!isRecord(value)) return analysis;
+  const citations = Array.isArray(value.citations) ? restoreCitations(value.citations, analysis.reasoning.length) : [];
+  const comparison = isRecord(value.comparison) ? restoreComparison(value.comparison, analysis) : undefined;
+  const group = isRecord(value.group) ? whenValid(() => validateGroupInsight(value.group, context.questionIds, context.participantNames)) : undefined;
+  return {
+    ...analysis,
+    ...(comparison && { comparison }),
+    ...(group && { group }),
+    ...(citations.length > 0 && { citations })
+  };
+};
+
+export const restoreAnswers = (answers: Record<string, unknown>): Record<number, Answer> =>
+  Object.fromEntries(Object.entries(answers).map(([id, answer]) => [id, migrateAnswer(answer)]));
+
+const restoreTrigger = (value: unknown): VersionTrigger | undefined => {
+  if (!isRecord(value)) return undefined;
+  if (value.kind === 'initial') return { kind: 'initial' };
+  if (value.kind === 'refinement' && typeof value.input === 'string') return { kind: 'refinement', input: value.input };
+  if (value.kind === 'alternative' && typeof value.title === 'string') {
+    return { kind: 'alternative', title: value.title, ...(Number.isInteger(value.from) && { from: value.from as number }) };
+  }
+  return undefined;
+};
+
+/**
+ * 계기와 분석이 올바른 버전만 남깁니다. 버전 번호가 없거나 겹치면 순서대로 새로 매기고,
+ * 대안 버전의 출처(from)와 고정 목록이 가리키는 번호도 newIds로 새 번호에 맞춥니다.
+ */
+const restoreVersions = (value: unknown[], context: RestoreContext): { versions: AnalysisVersion[]; newIds: Map<number, number> } => {
+  const restored = value.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const trigger = restoreTrigger(item.trigger);
+    const analysis = whenValid(() => restoreAnalysis(item.analysis, context));
+    if (!trigger || !analysis) return [];
+    return [{ id: Number(item.id), analysis, trigger, createdAt: Number(item.createdAt) || 0 }];
+  });
+  const ids = restored.map(version => version.id);
+  const valid = ids.every((id, i) => Number.isInteger(id) && id > 0 && ids.indexOf(id) === i);
+  const renumbered = valid ? restored : restored.map((version, i) => ({ ...version, id: i + 1 }));
+  // 번호가 겹치면 먼저 나온 버전을 가리키는 것으로 봅니다.
+  const newIds = new Map(restored.map((version, i): [number, number] => [version.id, renumbered[i].id]).reverse());
+  const versions = renumbered.map(version => {
+    if (version.trigger.kind !== 'alternative' || version.trigger.from === undefined) return version;
+    const { from, ...trigger } = version.trigger;
+    const source = newIds.get(from);
+    return { ...version, trigger: source === undefined ? trigger : { ...trigger, from: source } };
+  });
+  return { versions, newIds };
+};
+
+/** 고정 목록에서 남아 있는 버전을 가리키는 번호만 새 번호로 바꿔 남깁니다. 이전 형식(분석 객체)은 버립니다. */
+const restorePinned = (value: unknown[], newIds: Map<number, number>): number[] =>
+  [...new Set(value.flatMap(id => typeof id === 'number' && newIds.has(id) ? [newIds.get(id)!] : []))];
+
+/**
+ * 이름과 답변이 있는 참여자만 남기고, 없는 id는 새로 매깁니다.
+ */
+export const restoreParticipants = (value: unknown[]): Participant[] =>
+  value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.name !== 'string' || !item.name.trim() || !isRecord(item.answers)) return [];
+    return [{
+      id: typeof item.id === 'string' && item.id ? item.id : `participant-${index + 1}`,
+      name: item.name.trim(),
+      answers: restoreAnswers(item.answers)
+    }];
+  });
+
+/**
+ * 역할과 내용이 있는 대화 메시지만 남깁니다.
+ */
+export const restoreChat = (value: unknown[]): ChatMessage[] =>
+  value.flatMap(item => {
+    if (!isRecord(item) || (item.role !== 'user' && item.role !== 'assistant') || typeof item.text !== 'string' || !item.text.trim()) return [];
+    return [{ role: item.role, text: item.text, createdAt: Number(item.createdAt) || 0 }];
+  });
+
+const toIndexes = (value: unknown, length: number): number[] =>
+  Array.isArray(value) ? value.filter((i): i is number => Number.isInteger(i) && i >= 0 && i < length) : [];
+
+/**
+ * 선택과 예상 결과가 있는 결정 기록만 되살립니다. 결과의 만족도가 범위를 벗어나면 결과는 버립니다.
+ */
+const restoreOutcome = (value: unknown): DecisionOutcome | undefined => {
+  if (!isRecord(value) || typeof value.choice !== 'string' || !value.choice.trim() || !isRecord(value.predicted)) return undefined;
+  const { predicted, review } = value;
+  const toStrings = (list: unknown) => Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+  const pros = toStrings(predicted.pros);
+  const cons = toStrings(predicted.cons);
+  const satisfaction = isRecord(review) ? Number(review.satisfaction) : NaN;
+  return {
+    choice: value.choice.trim(),
+    followedRecommendation: value.followedRecommendation === true,
+    predicted: {
+      finalRecommendation: String(predicted.finalRecommendation ?? ''),
+      score: Math.min(100, Math.max(0, Number(predicted.score) || 0)),
+      pros,
+      cons
+    },
+    decidedAt: Number(value.decidedAt) || 0,
+    ...(typeof value.checkInDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.checkInDate) && { checkInDate: value.checkInDate }),
+    ...(isRecord(review) && Number.isInteger(satisfaction) && satisfaction >= MIN_SATISFACTION && satisfaction <= MAX_SATISFACTION && {
+      review: {
+        notes: typeof review.notes === 'string' ? review.notes : '',
+        satisfaction,
+        realizedPros: toIndexes(review.realizedPros, pros.length),
+        realizedCons: toIndexes(review.realizedCons, cons.length),
+        reviewedAt: Number(review.reviewedAt) || 0
+      }
+    })
+  };
+};
+
+/**
+ * 내용이 있는 단계의 진행 상황만 남깁니다.
+ */
+const restoreTasks = (value: unknown[]): StepTask[] =>
+  value.flatMap(item => {
+    if (!isRecord(item) || typeof item.text !== 'string' || !item.text.trim()) return [];
+    return [{
+      text: item.text,
+      done: item.done === true,
+      ...(typeof item.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate) && { dueDate: item.dueDate }),
+      ...(typeof item.owner === 'string' && item.owner.trim() && { owner: item.owner.trim() }),
+      ...(item.done === true && Number(item.completedAt) > 0 && { completedAt: Number(item.completedAt) })
+    }];
+  });
+
+const ATTACHMENT_KINDS: AttachmentKind[] = ['text', 'markdown', 'csv', 'pdf'];
+
+const isAttachmentKind = (value: unknown): value is AttachmentKind =>
+  ATTACHMENT_KINDS.includes(value as AttachmentKind);
+
+/**
+ * 이름과 형식, 내용 조각이 있는 첨부만 되살립니다.
+ */
+export const restoreAttachments = (value: unknown[]): Attachment[] =>
+  value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.name !== 'string' || !item.name.trim() || !isAttachmentKind(item.kind)) return [];
+    const chunks = Array.isArray(item.chunks) ? item.chunks.filter((chunk: unknown): chunk is string => typeof chunk === 'string' && !!chunk.trim()) : [];
+    if (chunks.length === 0) return [];
+    return [{
+      id: typeof item.id === 'string' && item.id ? item.id : `attachment-${index + 1}`,
+      name: item.name,
+      kind: item.kind,
+      size: Number(item.size) || 0,
+      chunks,
+      truncated: item.truncated === true,
+      addedAt: Number(item.addedAt) || 0
+    }];
+  });
+
+export const isQuestionList = (value: unknown): value is Question[] =>
+  Array.isArray(value) && value.length > 0 &&
+  value.every((q: unknown) => isRecord(q) && typeof q.id === 'number' && typeof q.text === 'string' && Array.isArray(q.options));
+
+/**
+ * 임의의 JSON 값을 검증하고 최신 버전의 세션으로 변환합니다.
+ * 답변지를 넘기면 그 질문지와 참여자로 새 그룹 세션을 만듭니다.
+ */
+export const readSessionData = (raw: unknown): ImportedSession => {
+  if (!isRecord(raw)) throw new ImportError('notSession');
+  if (raw.format === ANSWER_SHEET_FORMAT) return readAnswerSheetSession(raw);
+  if (raw.format !== undefined && raw.format !== EXPORT_FORMAT) {
+    throw new ImportError('notSession');
+  }
+
+  let data = raw;
+  const stored = raw.version ?? 0;
+  if (typeof stored !== 'number' || !Number.isInteger(stored) || stored < 0) {
+    throw new ImportError('invalid');
+  }
+  let version = stored;
+  if (version > EXPORT_VERSION) {
+    throw new ImportError('newerVersion', { version });
+  }
+  while (version < EXPORT_VERSION) {
+    data = MIGRATIONS[version](data);
+    // 변환할 때마다 버전이 올라가지 않으면 끝나지 않으므로 실패로 봅니다.
+    if (typeof data.version !== 'number' || data.version <= version) throw new ImportError('invalid');
+    version = data.version;
+  }
+
+  const session = data.session;
+  if (!isRecord(session) || typeof session.topic !== 'string' || !session.topic.trim()) {
+    throw new ImportError('noTopic');
+  }
+  if (!isQuestionList(session.questions)) {
+    throw new ImportError('badQuestions');
+  }
+  if (!isRecord(session.answers)) throw new ImportError('badAnswers');
+
+  try {
+    const questions = session.questions.map(migrateQuestion);
+    const participants = Array.isArray(session.participants) ? restoreParticipants(session.participants) : undefined;
+    const context: RestoreContext = { questionIds: questions.map(q => q.id), participantNames: (participants ?? []).map(p => p.name) };
+    const result = session.result ? restoreAnalysis(session.result, context) : null;
+    const adaptive = session.adaptive !== undefined ? whenValid(() => validateAdaptiveProgress(session.adaptive)) : undefined;
+    const outcome = restoreOutcome(session.outcome);
+    const { versions, newIds } = restoreVersions(Array.isArray(session.versions) ? session.versions : [], context);
+    return {
+      title: typeof data.title === 'string' && data.title.trim() ? data.title.trim() : session.topic.trim(),
+      session: {
+        topic: session.topic,
+        questions,
+        answers: restoreAnswers(session.answers),
+        currentStep: Math.min(Math.max(0, Number(session.currentStep) || 0), questions.length - 1),
+        result,
+        ...(adaptive && { adaptive }),
+        ...(isLanguage(session.language) && { language: session.language }),
+        ...(participants && { participants }),
+        ...(Array.isArray(session.pinned) && { pinned: restorePinned(session.pinned, newIds) }),
+        ...(Array.isArray(session.chat) && { chat: restoreChat(session.chat) }),
+        ...(outcome && { outcome }),
+        ...(Array.isArray(session.tasks) && { tasks: restoreTasks(session.tasks) }),
+        ...(Array.isArray(session.attachments) && { attachments: restoreAttachments(session.attachments) }),
+        ...(Array.isArray(session.versions) && { versions })
+      }
+    };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.warn("가져온 세션의 분석 결과가 올바르지 않습니다.", error.issues);
+      throw new ImportError('badAnalysis');
+    }
+    throw error;
+  }
+};
+
+export const parseSessionFile = (text: string): ImportedSession => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ImportError('notJSON');
+  }
+  return readSessionData(raw);
+};
+
+export const toSessionJSON = (title: string, session: DecisionState): string => {
+  const payload: SessionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    session
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+/**
+ * 세션을 만든 언어로 제목과 항목 이름을 적습니다.
+ */
+export const toMarkdown = (title: string, session: DecisionState): string => {
+  const { topic, questions, answers, result, participants, chat, outcome, tasks, attachments, language = DEFAULT_LANGUAGE } = session;
+  const labels = getMessages(language).markdown;
+  const answerLine = (q: Question, label: string, answer?: Answer) =>
+    `   - ${label}: ${formatAnswer(q, answer, language)}${answer ? ` (${labels.importance} ${answer.weight}/${MAX_WEIGHT})` : ''}`;
+  const lines: string[] = [
+    `# ${title}`,
+    '',
+    `> ${topic.trim().replace(/\n/g, '\n> ')}`,
+    '',
+    ...(attachments && attachments.length > 0 ? [`## ${labels.attachments}`, '', bulletList(attachments.map(a => a.name)), ''] : []),
+    `## ${labels.questionsAndAnswers}`,
+    '',
+    ...questions.flatMap((q, i) => [
+      `${i + 1}. **${q.text}**`,
+      ...(participants
+        ? participants.map(p => answerLine(q, p.name, p.answers[q.id]))
+        : [answerLine(q, labels.answer, answers[q.id])])
+    ])
+  ];
+
+  if (result) {
+    lines.push(
+      '',
+      `## ${labels.recommendation}: ${result.finalRecommendation}`,
+      '',
+      `${labels.confidence}: **${result.score}%**`,
+      '',
+      result.summary,
+      ...(result.refinedInsight ? ['', `> ${result.refinedInsight}`] : []),
+      '',
+      `### ${labels.reasoning}`,
+      '',
+      result.reasoning.flatMap((item, i) => [
+        `${i + 1}. ${item}`,
+        ...(result.citations ?? []).filter(c => c.reasoning === i).map(c => `   - ${labels.source}: ${c.source}${c.excerpt ? ` - "${c.excerpt}"` : ''}`)
+      ]).join('\n'),
+      '',
+      `### ${labels.pros}`,
+      '',
+      bulletList(result.pros),
+      '',
+      `### ${labels.cons}`,
+      '',
+      bulletList(result.cons),
+      '',
+      `### ${labels.nextSteps}`,
+      '',
+      // 진행 상황을 기록했다면 체크박스 목록으로 적습니다.
+      tasks
+        ? toTaskListItems(tasksFor(result.nextSteps, tasks), language).join('\n')
+        : result.nextSteps.map((item, i) => `${i + 1}. ${item}`).join('\n')
+    );
+
+    if (result.group) {
+      const { conflicts, caveats } = result.group;
+      if (conflicts.length > 0) {
+        lines.push('', `### ${labels.conflicts}`, '', ...conflicts.map(c => `- **${questions.find(q => q.id === c.questionId)?.text ?? `#${c.questionId}`}**: ${c.summary}`));
+      }
+      if (caveats.length > 0) {
+        lines.push('', `### ${labels.caveats}`, '', ...caveats.map(c => `- **${c.name}**: ${c.caveat}`));
+      }
+    }
+
+    if (result.alternatives.length > 0) {
+      lines.push('', `### ${labels.alternatives}`, '', ...result.alternatives.map(alt => `- **${alt.title}**: ${alt.summary} (${alt.whyThis})`));
+    }
+
+    if (result.comparison) {
+      const { criteria, options } = result.comparison;
+      lines.push(
+        '',
+        `### ${labels.comparison}`,
+        '',
+        `| ${labels.criterion} | ${options.map(o => o.title).join(' | ')} |`,
+        `| --- | ${options.map(() => '---').join(' | ')} |`,
+        ...criteria.map((c, row) => `| ${c.name} | ${options.map(o => o.cells[row].score).join(' | ')} |`),
+        `| **${labels.total}** | ${options.map(o => `**${o.total}**`).join(' | ')} |`
+      );
+    }
+
+    if (result.scoring) {
+      const { criteria, options } = result.scoring;
+      const totals = new Map(computeScores(result.scoring).map(score => [score.title, score.total]));
+      lines.push(
+        '',
+        `### ${labels.scoring}`,
+        '',
+        `| ${labels.criterion} | ${labels.weight} | ${options.map(o => o.title).join(' | ')} |`,
+        `| --- | --- | ${options.map(() => '---').join(' | ')} |`,
+        ...criteria.map((c, row) => `| ${c.name} | ${c.weight} | ${options.map(o => o.ratings[row]).join(' | ')} |`),
+        `| **${labels.total}** | | ${options.map(o => `**${totals.get(o.title)}**`).join(' | ')} |`
+      );
+    }
+  }
+
+  if (chat && chat.length > 0) {
+    lines.push(
+      '',
+      `## ${labels.followUp}`,
+      '',
+      ...chat.flatMap(message => [message.role === 'user' ? `**${labels.question}**: ${message.text}` : message.text, ''])
+    );
+    lines.pop();
+  }
+
+  if (outcome) {
+    const { review } = outcome;
+    const realized = (label: string, items: string[], indexes: number[]) =>
+      indexes.length > 0 ? ['', `**${label}**`, '', bulletList(indexes.map(i => items[i]))] : [];
+    lines.push(
+      '',
+      `## ${labels.outcome}`,
+      '',
+      `- ${labels.chosen}: ${outcome.choice}`,
+      `- ${labels.confidence}: ${outcome.predicted.score}%`,
+      ...(outcome.checkInDate ? [`- ${labels.checkIn}: ${outcome.checkInDate}`] : []),
+      ...(review ? [
+        `- ${labels.satisfaction}: ${review.satisfaction}/${MAX_SATISFACTION}`,
+        ...(review.notes ? ['', review.notes] : []),
+        ...realized(labels.realizedPros, outcome.predicted.pros, review.realizedPros),
+        ...realized(labels.realizedCons, outcome.predicted.cons, review.realizedCons)
+      ] : [])
+    );
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * 서버 없이 결과 화면을 다시 열 수 있도록 세션을 압축해 URL 조각(#s=...)에 담습니다.
+ * 링크 길이를 줄이기 위해 버전 기록과 고정된 분석은 제외하고 현재 결과만 담습니다.
+ */
+export const createShareLink = async (title: string, session: DecisionState): Promise<string> => {
+  const { topic, questions, answers, currentStep, result, language, participants } = session;
+  const payload: SessionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    session: { topic, questions, answers, currentStep, result, language, participants }
+  };
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return `${window.location.origin}${window.location.pathname}${SHARE_PREFIX}${toBase64Url(compressed)}`;
+};
+
+/**
+ * 현재 주소의 공유 조각을 읽습니다. 공유 링크가 아니면 null을 반환합니다.
+ */
+export const readShareFragment = async (hash: string): Promise<ImportedSession | null> => {
+  if (!hash.startsWith(SHARE_PREFIX)) return null;
+  let text: string;
+  try {
+    const bytes = await transform(fromBase64Url(hash.slice(SHARE_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    text = new TextDecoder().decode(bytes);
+  } catch {
+    throw new ImportError('brokenLink');
+  }
+  return parseSessionFile(text);
+};
+
+export const ANSWER_SHEET_FORMAT = 'decider20.answers';
+
+/**
+ * 그룹 모드에서 다른 기기의 참여자와 질문지·답변을 주고받는 파일입니다.
+ * 시작 화면에서 가져오면 같은 질문지로 새 그룹 세션이 열리고, 답변 중인 세션에서 가져오면 참여자 답변이 합쳐집니다.
+ */
+export interface AnswerSheet {
+  format: typeof ANSWER_SHEET_FORMAT;
+  version: 1;
+  exportedAt: string;
+  topic: string;
+  language?: Language;
+  questions: Question[];
+  participants: Participant[];
+}
+
+export const toAnswerSheetJSON = (session: DecisionState): string => {
+  const sheet: AnswerSheet = {
+    format: ANSWER_SHEET_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    topic: session.topic,
+    language: session.language,
+    questions: session.questions,
+    participants: session.participants ?? []
+  };
+  return JSON.stringify(sheet, null, 2);
+};
+
+const readAnswerSheet = (raw: Record<string, unknown>): { questions: Question[]; participants: Participant[] } => {
+  if (!isQuestionList(raw.questions) || !Array.isArray(raw.participants)) {
+    throw new ImportError('notAnswerSheet');
+  }
+  return { questions: raw.questions.map(migrateQuestion), participants: restoreParticipants(raw.participants) };
+};
+
+const readAnswerSheetSession = (raw: Record<string, unknown>): ImportedSession => {
+  const { questions, participants } = readAnswerSheet(raw);
+  const topic = typeof raw.topic === 'string' ? raw.topic.trim() : '';
+  if (!topic) throw new ImportError('noTopic');
+  if (participants.length === 0) throw new ImportError('noParticipants');
+  return {
+    title: topic,
+    session: {
+      topic,
+      questions,
+      answers: {},
+      currentStep: 0,
+      result: null,
+      participants,
+      ...(isLanguage(raw.language) && { language: raw.language })
+    }
+  };
+};
+
+/**
+ * 답변 중인 세션에 합칠 답변지를 읽어 참여자 목록을 돌려줍니다. 현재 질문지와 질문이 하나라도 다르면 거부합니다.
+ */
+export const parseAnswerSheet = (text: string, questions: Question[]): Participant[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ImportError('notJSON');
+  }
+  if (!isRecord(raw) || raw.format !== ANSWER_SHEET_FORMAT) {
+    throw new ImportError('notAnswerSheet');
+  }
+  const sheet = readAnswerSheet(raw);
+  const textById = new Map(questions.map(q => [q.id, q.text.trim()]));
+  const matches = sheet.questions.length === questions.length &&
+    sheet.questions.every(q => textById.get(q.id) === q.text.trim());
+  if (!matches) throw new ImportError('otherQuestionnaire');
+  if (sheet.participants.length === 0) throw new ImportError('noParticipants');
+  return sheet.participants;
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 파일 이름에 쓸 수 없는 문자를 걷어냅니다.
+ */
+export const toFilename = (title: string) =>
+  (title.trim().replace(/[\\/:*?"<>|\n\r]+/g, ' ').replace(/\s+/g, '-').slice(0, 60) || 'decider20');
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { tasksFor, toICalendar, toTaskCSV, toTaskMarkdown, updateTask } from './stepTasks';
+import { StepTask } from './types';
+
+const NOW = Date.UTC(2026, 9, 19, 9, 30);
+
+describe('updateTask', () => {
+  it('완료할 때 시각을 남기고 되돌리면 지웁니다', () => {
+    const done = updateTask([], '기준 정하기', { done: true }, NOW);
+    expect(done).toEqual([{ text: '기준 정하기', done: true, completedAt: NOW }]);
+    expect(updateTask(done, '기준 정하기', { done: false }, NOW)).toEqual([{ text: '기준 정하기', done: false }]);
+  });
+
+  it('빈 마감일과 담당자는 저장하지 않습니다', () => {
+    const tasks = updateTask([{ text: 'a', done: false, dueDate: '2026-11-01', owner: '민지' }], 'a', { dueDate: '', owner: ' ' });
+    expect(tasks).toEqual([{ text: 'a', done: false }]);
+  });
+});
+
+describe('tasksFor', () => {
+  it('단계 순서를 따르고 기록이 없는 단계는 아직 하지 않은 것으로 둡니다', () => {
+    const tasks: StepTask[] = [{ text: 'b', done: true }, { text: 'old', done: true }];
+    expect(tasksFor(['a', 'b'], tasks)).toEqual([{ text: 'a', done: false }, { text: 'b', done: true }]);
+  });
+});
+
+describe('toICalendar', () => {
+  const tasks: StepTask[] = [
+    { text: '예산, 일정; 범위 정하기', done: false, dueDate: '2026-12-31', owner: '민지' },
+    { text: '마감일 없는 단계', done: false }
+  ];
+  const ics = toICalendar('이직 결정', tasks, 'ko', NOW);
+  const unfolded = ics.replace(/\r\n /g, '');
+
+  it('마감일이 있는 단계만 다음 날까지의 종일 일정으로 넣습니다', () => {
+    expect(unfolded.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(unfolded).toContain('DTSTART;VALUE=DATE:20261231\r\n');
+    expect(unfolded).toContain('DTEND;VALUE=DATE:20270101\r\n');
+    expect(unfolded).toContain('DTSTAMP:20261019T093000Z\r\n');
+    expect(unfolded).toContain('SUMMARY:예산\\, 일정\\; 범위 정하기\r\n');
+    expect(unfolded).toContain('DESCRIPTION:이직 결정\\n담당자: 민지\r\n');
+  });
+
+  it('CRLF로 줄을 나누고 75바이트를 넘는 줄은 접습니다', () => {
+    const long = toICalendar('가'.repeat(60), [], 'ko', NOW);
+    const lines = long.split('\r\n');
+    expect(long.endsWith('\r\n')).toBe(true);
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(long.replace(/\r\n /g, '')).toContain(`X-WR-CALNAME:${'가'.repeat(60)}\r\n`);
+  });
+});
+
+describe('할 일 목록 파일', () => {
+  const tasks: StepTask[] = [
+    { text: '기준 정하기', done: true, completedAt: NOW, owner: '민지' },
+    { text: '"큰따옴표", 쉼표', done: false, dueDate: '2026-11-02' }
+  ];
+
+  it('Markdown 체크박스 목록으로 적습니다', () => {
+    expect(toTaskMarkdown('이직 결정', tasks, 'ko')).toBe(
+      '# 이직 결정\n\n- [x] 기준 정하기 (담당자: 민지)\n- [ ] "큰따옴표", 쉼표 (마감일: 2026-11-02)\n'
+    );
+  });
+
+  it('CSV는 필요한 칸만 따옴표로 감쌉니다', () => {
+    expect(toTaskCSV(tasks)).toBe(
+      '\uFEFFStep,Task,Done,Due date,Owner,Completed at\r\n' +
+      '1,기준 정하기,yes,,민지,2026-10-19T09:30:00.000Z\r\n' +
+      '2,"""큰따옴표"", 쉼표",no,2026-11-02,,\r\n'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { Language, StepTask } from "./types";
+import { DEFAULT_LANGUAGE, getMessages } from "./i18n";
+import { createDecisionId } from "./historyStore";
+
+/**
+ * 실행 가이드의 단계마다 저장된 진행 상황을 붙입니다. 기록이 없는 단계는 아직 하지 않은 할 일입니다.
+ */
+export const tasksFor = (steps: string[], tasks: StepTask[] = []): StepTask[] =>
+  steps.map(text => tasks.find(task => task.text === text) ?? { text, done: false });
+
+/**
+ * 한 단계의 진행 상황을 바꿉니다. 완료로 바꿀 때 완료 시각을 남기고, 되돌리면 지웁니다.
+ * 빈 마감일과 담당자는 저장하지 않습니다.
+ */
+export const updateTask = (tasks: StepTask[], text: string, patch: Partial<Omit<StepTask, 'text'>>, now: number = Date.now()): StepTask[] => {
+  const current = tasks.find(task => task.text === text) ?? { text, done: false };
+  const next: StepTask = { ...current, ...patch };
+  if (patch.done !== undefined) {
+    if (patch.done && !current.done) next.completedAt = now;
+    if (!patch.done) delete next.completedAt;
+  }
+  if (!next.dueDate) delete next.dueDate;
+  if (!next.owner?.trim()) delete next.owner;
+  return [...tasks.filter(task => task.text !== text), next];
+};
+
+/** RFC 5545 TEXT 값의 특수 문자를 이스케이프합니다. */
+const escapeICal = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** 한 줄이 75바이트를 넘지 않도록 접습니다. 이어지는 줄은 공백으로 시작합니다. */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    if (size + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+};
+
+/**
+ * 마감일이 있는 단계를 종일 일정으로 담은 iCalendar(.ics) 파일 내용을 만듭니다. 마감일이 없는 단계는 빠집니다.
+ */
+export const toICalendar = (title: string, tasks: StepTask[], language: Language = DEFAULT_LANGUAGE, now: number = Date.now()): string => {
+  const labels = getMessages(language).tasks;
+  const stamp = new Date(now).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = tasks.filter(task => task.dueDate).flatMap(task => [
+    'BEGIN:VEVENT',
+    `UID:${createDecisionId()}@decider20`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toICalDate(task.dueDate!)}`,
+    `DTEND;VALUE=DATE:${toICalDate(nextDay(task.dueDate!))}`,
+    `SUMMARY:${escapeICal(task.done ? `✓ ${task.text}` : task.text)}`,
+    `DESCRIPTION:${escapeICal([title, task.owner && `${labels.owner}: ${task.owner}`].filter(Boolean).join('\n'))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ]);
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//decider20//Next steps//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeICal(title)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * GitHub 등에서 체크박스로 보이는 Markdown 할 일 항목들입니다. 마감일과 담당자는 괄호 안에 적습니다.
+ */
+export const toTaskListItems = (tasks: StepTask[], language: Language = DEFAULT_LANGUAGE): string[] => {
+  const labels = getMessages(language).tasks;
+  return tasks.map(task => {
+    const meta = [task.dueDate && `${labels.due}: ${task.dueDate}`, task.owner && `${labels.owner}: ${task.owner}`].filter(Boolean).join(', ');
+    return `- [${task.done ? 'x' : ' '}] ${task.text}${meta ? ` (${meta})` : ''}`;
+  });
+};
+
+export const toTaskMarkdown = (title: string, tasks: StepTask[], language: Language = DEFAULT_LANGUAGE): string =>
+  [`# ${title}`, '', ...toTaskListItems(tasks, language)].join('\n') + '\n';
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** 트래커로 가져가기 쉽도록 열 이름은 언어와 상관없이 영어로 고정합니다. */
+const CSV_HEADER = ['Step', 'Task', 'Done', 'Due date', 'Owner', 'Completed at'];
+
+/**
+ * 할 일 목록을 CSV로 만듭니다. 엑셀에서 한글이 깨지지 않도록 BOM을 붙입니다.
+ */
+export const toTaskCSV = (tasks: StepTask[]): string => {
+  const rows = tasks.map((task, i) => [
+    String(i + 1),
+    task.text,
+    task.done ? 'yes' : 'no',
+    task.dueDate ?? '',
+    task.owner ?? '',
+    task.completedAt ? new Date(task.completedAt).toISOString() : ''
+  ]);
+  return '\uFEFF' + [CSV_HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,80 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createWebhookStubHandler } from './server/webhookStub';
+import { createTaskPayload, isValidWebhookUrl, pushTasks, TASK_WEBHOOK_FORMAT, WebhookError } from './taskWebhook';
+
+const received: unknown[] = [];
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  server = createServer(createWebhookStubHandler(payload => received.push(payload)));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/decider20`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  received.length = 0;
+});
+
+const decision = { title: '이직 결정', topic: '이직할까?', recommendation: '단계적으로 시도해 보는 선택' };
+
+describe('pushTasks', () => {
+  it('할 일 목록을 순서와 함께 스텁 서버로 보냅니다', async () => {
+    const tasks = [
+      { text: '최소 범위 정하기', done: true, completedAt: 1, owner: '민지' },
+      { text: '판단 기준 적기', done: false, dueDate: '2026-11-02' }
+    ];
+    await pushTasks(url, createTaskPayload(decision, tasks, Date.UTC(2026, 9, 19)));
+
+    expect(received).toEqual([{
+      format: TASK_WEBHOOK_FORMAT,
+      version: 1,
+      sentAt: '2026-10-19T00:00:00.000Z',
+      decision,
+      tasks: [{ ...tasks[0], position: 1 }, { ...tasks[1], position: 2 }]
+    }]);
+  });
+
+  it('CORS 사전 요청에 응답합니다', async () => {
+    const response = await fetch(url, { method: 'OPTIONS' });
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(response.headers.get('access-control-allow-headers')).toContain('Content-Type');
+  });
+
+  it('2xx가 아닌 응답은 WebhookError로 실패합니다', async () => {
+    const rejecting = createServer((_, res) => {
+      res.writeHead(403);
+      res.end();
+    });
+    await new Promise<void>(resolve => rejecting.listen(0, '127.0.0.1', resolve));
+    const port = (rejecting.address() as AddressInfo).port;
+    try {
+      await expect(pushTasks(`http://127.0.0.1:${port}`, createTaskPayload(decision, []))).rejects.toMatchObject({ key: 'rejected', params: { status: 403 } });
+    } finally {
+      await new Promise<void>(resolve => rejecting.close(() => resolve()));
+    }
+  });
+
+  it('연결할 수 없거나 올바르지 않은 주소는 WebhookError로 실패합니다', async () => {
+    await expect(pushTasks('ftp://example.com', createTaskPayload(decision, []))).rejects.toBeInstanceOf(WebhookError);
+    await expect(pushTasks('ftp://example.com', createTaskPayload(decision, []))).rejects.toMatchObject({ key: 'invalidUrl' });
+    await expect(pushTasks('http://127.0.0.1:1', createTaskPayload(decision, []))).rejects.toMatchObject({ key: 'unreachable' });
+    expect(received).toEqual([]);
+  });
+});
+
+describe('isValidWebhookUrl', () => {
+  it.each([
+    ['https://example.com/hook', true],
+    ['http://127.0.0.1:8790', true],
+    ['javascript:alert(1)', false],
+    ['example.com/hook', false]
+  ])('%s → %s', (value, expected) => {
+    expect(isValidWebhookUrl(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,95 @@
+import { StepTask } from "./types";
+import { ErrorParams, Messages } from "./i18n";
+
+const STORAGE_KEY = 'decider20.taskWebhook';
+
+export const TASK_WEBHOOK_FORMAT = 'decider20.tasks';
+
+/** 웹훅 응답을 기다리는 최대 시간 */
+const WEBHOOK_TIMEOUT_MS = 15_000;
+
+/**
+ * 트래커 웹훅으로 보내는 본문입니다. 받는 쪽은 position으로 단계 순서를, text로 같은 단계인지를 판단합니다.
+ */
+export interface TaskWebhookPayload {
+  format: typeof TASK_WEBHOOK_FORMAT;
+  version: 1;
+  sentAt: string;
+  decision: {
+    title: string;
+    topic: string;
+    recommendation: string;
+  };
+  tasks: (StepTask & { position: number })[];
+}
+
+export type WebhookErrorKey = keyof Messages['errors']['webhook'];
+
+/**
+ * 웹훅 호출이 실패했을 때 발생합니다. 화면은 key와 params로 화면 언어의 문구(errors.webhook)를 골라 보여줍니다.
+ */
+export class WebhookError extends Error {
+  constructor(readonly key: WebhookErrorKey, readonly params: ErrorParams = {}) {
+    super(key);
+    this.name = 'WebhookError';
+  }
+}
+
+export const getTaskWebhookUrl = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const setTaskWebhookUrl = (url: string) => {
+  try {
+    if (url.trim()) localStorage.setItem(STORAGE_KEY, url.trim());
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("웹훅 주소를 저장하지 못했습니다.", error);
+  }
+};
+
+export const isValidWebhookUrl = (url: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const createTaskPayload = (
+  decision: TaskWebhookPayload['decision'],
+  tasks: StepTask[],
+  now: number = Date.now()
+): TaskWebhookPayload => ({
+  format: TASK_WEBHOOK_FORMAT,
+  version: 1,
+  sentAt: new Date(now).toISOString(),
+  decision,
+  tasks: tasks.map((task, i) => ({ ...task, position: i + 1 }))
+});
+
+/**
+ * 할 일 목록을 웹훅 주소로 POST합니다. 2xx가 아니면 WebhookError로 실패합니다.
+ * 브라우저에서 다른 출처로 보내므로 받는 쪽은 CORS 사전 요청(OPTIONS)에 응답해야 합니다.
+ */
+export const pushTasks = async (url: string, payload: TaskWebhookPayload, signal?: AbortSignal): Promise<void> => {
+  if (!isValidWebhookUrl(url)) throw new WebhookError('invalidUrl');
+  const timeout = AbortSignal.timeout(WEBHOOK_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new WebhookError(timeout.aborted ? 'timeout' : 'unreachable');
+  }
+  if (!response.ok) throw new WebhookError('rejected', { status: response.status });
+};
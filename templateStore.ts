@@ -0,0 +1,113 @@
+import { migrateQuestion } from "./answers";
+import { BUILT_IN_TEMPLATES } from "./builtInTemplates";
+import { createDecisionId } from "./historyStore";
+import { isLanguage } from "./i18n";
+import { cleanQuestion, isQuestionComplete } from "./questionSet";
+import { ImportError } from "./sessionExport";
+import { DecisionTemplate, Language, Question } from "./types";
+import { isRecord } from "./validation";
+
+const STORAGE_KEY = 'decider20.templates';
+
+export const TEMPLATE_FORMAT = 'decider20.template';
+
+/**
+ * 템플릿을 다른 사람과 주고받는 JSON 파일입니다. id와 생성 시각은 가져오는 쪽에서 새로 정합니다.
+ */
+export interface TemplateExport {
+  format: typeof TEMPLATE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  template: Pick<DecisionTemplate, 'name' | 'description' | 'questions' | 'language'>;
+}
+
+const readAll = (): DecisionTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(template => ({ ...template, questions: template.questions.map(migrateQuestion) })) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeAll = (templates: DecisionTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.warn("템플릿을 저장하지 못했습니다.", error);
+  }
+};
+
+/**
+ * 화면 언어에 맞는 기본 템플릿 뒤에 사용자가 저장한 템플릿을 최근 순으로 붙여 반환합니다.
+ */
+export const listTemplates = (language: Language): DecisionTemplate[] => [
+  ...BUILT_IN_TEMPLATES[language],
+  ...readAll().sort((a, b) => b.createdAt - a.createdAt)
+];
+
+/**
+ * 질문지를 새 템플릿으로 저장합니다. 질문 id는 순서대로 1부터 다시 매깁니다.
+ */
+export const saveTemplate = (
+  name: string,
+  questions: Question[],
+  options: { description?: string; language?: Language } = {}
+): DecisionTemplate => {
+  const template: DecisionTemplate = {
+    id: createDecisionId(),
+    name: name.trim(),
+    description: options.description?.trim() ?? '',
+    questions: questions.map((question, index) => ({ ...cleanQuestion(question), id: index + 1 })),
+    ...(options.language && { language: options.language }),
+    createdAt: Date.now()
+  };
+  writeAll([template, ...readAll()]);
+  return template;
+};
+
+export const deleteTemplate = (id: string) => {
+  writeAll(readAll().filter(template => template.id !== id));
+};
+
+export const toTemplateJSON = ({ name, description, questions, language }: DecisionTemplate): string => {
+  const file: TemplateExport = {
+    format: TEMPLATE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    template: { name, description, questions, ...(language && { language }) }
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * 내보낸 템플릿 파일을 검증해 저장합니다. 답변을 시작할 수 없는 질문이 하나라도 있으면 거부합니다.
+ */
+export const importTemplate = (text: string): DecisionTemplate => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ImportError('notJSON');
+  }
+  if (!isRecord(raw) || raw.format !== TEMPLATE_FORMAT || !isRecord(raw.template) || typeof raw.version !== 'number') {
+    throw new ImportError('notTemplate');
+  }
+  if (raw.version > 1) throw new ImportError('newerVersion', { version: raw.version });
+
+  const { name, description, questions, language } = raw.template;
+  if (typeof name !== 'string' || !name.trim()) throw new ImportError('noTemplateName');
+  if (!Array.isArray(questions) || questions.length === 0) throw new ImportError('noTemplateQuestions');
+  const cleaned = questions.map((question, index) => {
+    const isQuestion = typeof question === 'object' && question !== null &&
+      typeof (question as Question).text === 'string' && Array.isArray((question as Question).options);
+    const result = isQuestion ? cleanQuestion(migrateQuestion(question as Question)) : null;
+    if (!result || !isQuestionComplete(result)) throw new ImportError('badTemplateQuestion', { index: index + 1 });
+    return result;
+  });
+
+  return saveTemplate(name, cleaned, {
+    description: typeof description === 'string' ? description : '',
+    ...(isLanguage(language) && { language })
+  });
+};
@@ -0,0 +1,52 @@
+import { createMockProvider } from "../providers/mockProvider";
+import { GenerateJSONRequest, LLMProvider, ProviderTask } from "../providers/types";
+
+/**
+ * 스텁 모델이 한 번의 요청에 돌려줄 응답입니다. 문자열은 모델 원문, Error는 그대로 던지고,
+ * 함수는 요청을 보고 원문을 만듭니다.
+ */
+export type StubReply = string | Error | ((request: GenerateJSONRequest) => string);
+
+export interface StubModel {
+  /** 받은 요청을 순서대로 기록합니다. */
+  requests: GenerateJSONRequest[];
+  provider: LLMProvider;
+  /** 작업 종류별로 다음 응답들을 예약합니다. 예약이 떨어지면 Mock 공급자의 고정 응답을 돌려줍니다. */
+  reply: (task: ProviderTask, ...replies: StubReply[]) => void;
+  reset: () => void;
+}
+
+/**
+ * 테스트에서 쓰는 모델입니다. 기다림 없이 Mock 공급자의 고정 응답을 돌려주되,
+ * 특정 요청에 잘못된 JSON이나 오류를 내도록 예약할 수 있습니다.
+ */
+export const createStubModel = (): StubModel => {
+  const requests: GenerateJSONRequest[] = [];
+  const queues = new Map<ProviderTask, StubReply[]>();
+  const fixtures = createMockProvider('stub', 0);
+
+  return {
+    requests,
+    provider: {
+      id: 'mock',
+      model: 'stub',
+      generateJSON: async (request, options = {}) => {
+        requests.push(request);
+        const next = queues.get(request.task)?.shift();
+        if (next === undefined) return fixtures.generateJSON(request, options);
+        if (next instanceof Error) throw next;
+        const text = typeof next === 'function' ? next(request) : next;
+        options.onText?.(text);
+        return text;
+      }
+    },
+    reply: (task, ...replies) => queues.set(task, [...(queues.get(task) ?? []), ...replies]),
+    reset: () => {
+      requests.length = 0;
+      queues.clear();
+    }
+  };
+};
+
+/** 테스트 파일의 vi.mock과 테스트 본문이 같은 인스턴스를 쓰도록 하나만 만들어 둡니다. */
+export const stubModel = createStubModel();
@@ -1,24 +1,337 @@
 
+/**
+ * single: 하나만 선택, multi: 해당하는 것 모두 선택, text: 자유 서술, number: 슬라이더로 입력하는 수치
+ */
+export type QuestionType = 'single' | 'multi' | 'text' | 'number';
+
+/** 화면과 모델 응답에 사용할 언어 */
+export type Language = 'ko' | 'en';
+
+export interface NumericRange {
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
 export interface Question {
   id: number;
+  type: QuestionType;
   text: string;
+  /** single/multi 질문의 선택지. text/number 질문에서는 비어있습니다. */
   options: string[];
+  /** 선택지 외에 '기타'를 직접 입력할 수 있는지 여부 */
+  allowOther?: boolean;
+  /** number 질문의 입력 범위 */
+  range?: NumericRange;
+  /** 이 질문이 결정에 왜 중요한지에 대한 한 문장 설명. 답변 화면에서 요청할 때만 보여줍니다. */
+  rationale?: string;
+}
+
+export interface Answer {
+  /** single/text: 문자열, multi: 선택한 선택지 목록, number: 수치. 아직 답하지 않았으면 null입니다. */
+  value: string | string[] | number | null;
+  /** '기타'를 선택한 경우 사용자가 입력한 내용. 값이 있으면(빈 문자열 포함) '기타'가 선택된 상태입니다. */
+  other?: string;
+  /** 1(거의 상관없음) ~ 5(매우 중요) 사이의 중요도 */
+  weight: number;
+}
+
+export interface Alternative {
+  title: string;
+  summary: string;
+  whyThis: string;
+}
+
+export interface ComparisonCriterion {
+  name: string;
+  description: string;
+  /** 이 기준의 근거가 된 질문 id */
+  questionIds: number[];
+}
+
+export interface ComparisonCell {
+  /** 0(매우 나쁨) ~ 10(매우 좋음) */
+  score: number;
+  rationale: string;
+}
+
+export interface ComparisonOption {
+  title: string;
+  /** criteria와 같은 순서로 정렬된 평가 */
+  cells: ComparisonCell[];
+  /** 모든 기준 점수의 평균을 0~100으로 환산한 값 */
+  total: number;
+}
+
+/**
+ * 추천안과 대안들을 같은 기준으로 평가한 비교표입니다.
+ */
+export interface ComparisonResult {
+  criteria: ComparisonCriterion[];
+  options: ComparisonOption[];
 }
 
+export interface ScoringCriterion {
+  name: string;
+  /** 답변의 중요도에서 도출한 1(거의 상관없음) ~ 5(매우 중요) 사이의 가중치 */
+  weight: number;
+  /** 이 가중치의 근거가 된 질문 id */
+  questionIds: number[];
+}
+
+export interface ScoringOption {
+  title: string;
+  /** criteria와 같은 순서로 정렬된 0(매우 나쁨) ~ 10(매우 좋음) 평가 */
+  ratings: number[];
+}
+
+/**
+ * 모델이 답변을 기준별 가중치와 선택지별 평가로 옮긴 값입니다. 종합 점수는 scoring.ts에서 앱이 직접 계산합니다.
+ */
+export interface DecisionScoring {
+  criteria: ScoringCriterion[];
+  options: ScoringOption[];
+}
+
+/**
+ * 분석 근거(reasoning) 하나를 뒷받침하는 첨부 자료입니다.
+ */
+export interface Citation {
+  /** 근거가 된 reasoning 항목의 인덱스 */
+  reasoning: number;
+  /** 첨부 파일 이름. 첨부가 빠진 공유 링크에서도 출처를 보여줄 수 있도록 이름으로 남깁니다. */
+  source: string;
+  /** 근거가 된 부분을 짧게 옮긴 문장 */
+  excerpt: string;
+}
+
+export interface AnalysisResult {
+  finalRecommendation: string;
+  summary: string;
+  reasoning: string[];
+  pros: string[];
+  cons: string[];
+  nextSteps: string[];
+  score: number;
+  alternatives: Alternative[];
+  refinedInsight?: string;
+  /** 가중합 점수 계산에 쓰는 기준과 평가. 이 항목이 생기기 전에 저장된 분석에는 없습니다. */
+  scoring?: DecisionScoring;
+  /** 이 분석의 추천안과 대안을 비교한 결과. 요청한 경우에만 채워집니다. */
+  comparison?: ComparisonResult;
+  /** 그룹 모드에서 참여자 간 의견 충돌과 참여자별 유의 사항 */
+  group?: GroupInsight;
+  /** 첨부 자료를 근거로 든 reasoning 항목들. 첨부가 있는 세션에서만 채워집니다. */
+  citations?: Citation[];
+}
+
+/**
+ * 분석 전에 찾아낸 답변의 문제입니다. contradiction: 서로 모순되는 답, lowInformation: 결정에 쓸 정보가 거의 없는 답
+ */
+export interface ConsistencyIssue {
+  kind: 'contradiction' | 'lowInformation';
+  /** 문제가 된 질문 id. 다시 답할 때 이 질문들로 이동합니다. */
+  questionIds: number[];
+  message: string;
+}
+
+/** text: 일반 텍스트, markdown: Markdown 문서, csv: 표, pdf: PDF 문서 */
+export type AttachmentKind = 'text' | 'markdown' | 'csv' | 'pdf';
+
+/**
+ * 세션에 첨부한 참고 자료입니다. 원본 파일은 보관하지 않고 추출한 텍스트를 나눈 조각만 남깁니다.
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  /** 원본 파일 크기(바이트) */
+  size: number;
+  /** 추출한 텍스트를 프롬프트에 나눠 넣기 좋은 크기로 자른 조각들 */
+  chunks: string[];
+  /** 추출한 텍스트가 너무 길어 뒷부분을 버렸는지 여부 */
+  truncated: boolean;
+  addedAt: number;
+}
+
+/**
+ * 결과 화면에서 나눈 후속 대화의 한 메시지입니다.
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: number;
+}
+
+/**
+ * 실행 가이드(nextSteps)의 한 단계를 할 일로 다룰 때의 진행 상황입니다.
+ */
+export interface StepTask {
+  /** nextSteps 항목의 내용. 같은 내용의 단계가 다시 나오면 진행 상황을 이어갑니다. */
+  text: string;
+  done: boolean;
+  /** 마감일(YYYY-MM-DD) */
+  dueDate?: string;
+  /** 담당자 */
+  owner?: string;
+  completedAt?: number;
+}
+
+/**
+ * 결정 후 정한 날짜에 돌아본 실제 결과입니다.
+ */
+export interface OutcomeReview {
+  /** 실제로 어떻게 되었는지 */
+  notes: string;
+  /** 1(매우 불만족) ~ 5(매우 만족) */
+  satisfaction: number;
+  /** predicted.pros 중 실제로 나타난 항목의 인덱스 */
+  realizedPros: number[];
+  /** predicted.cons 중 실제로 나타난 항목의 인덱스 */
+  realizedCons: number[];
+  reviewedAt: number;
+}
+
+/**
+ * 실제로 내린 결정입니다. 결정할 때 보고 있던 분석을 함께 남겨 나중에 결과와 비교합니다.
+ */
+export interface DecisionOutcome {
+  /** 실제로 고른 선택지. 추천안이나 대안의 제목, 또는 사용자가 직접 적은 내용입니다. */
+  choice: string;
+  /** 결정할 때의 추천안을 그대로 따랐는지 여부 */
+  followedRecommendation: boolean;
+  /** 결정할 때의 추천안과 확신도, 예상한 장단점. 이후에 다시 분석해도 바뀌지 않습니다. */
+  predicted: Pick<AnalysisResult, 'finalRecommendation' | 'score' | 'pros' | 'cons'>;
+  decidedAt: number;
+  /** 결과를 돌아볼 날짜(YYYY-MM-DD) */
+  checkInDate?: string;
+  review?: OutcomeReview;
+}
+
+/**
+ * 그룹 모드에서 같은 질문지에 답하는 한 사람입니다.
+ */
+export interface Participant {
+  id: string;
+  name: string;
+  answers: Record<number, Answer>;
+}
+
+export interface GroupConflict {
+  questionId: number;
+  /** 누가 어떻게 다르게 답했고 그 차이가 결론에 왜 중요한지 */
+  summary: string;
+}
+
+export interface ParticipantCaveat {
+  /** Participant.name과 같은 이름 */
+  name: string;
+  caveat: string;
+}
+
+export interface GroupInsight {
+  conflicts: GroupConflict[];
+  caveats: ParticipantCaveat[];
+}
+
+/**
+ * 분석 버전이 만들어진 계기입니다.
+ */
+export type VersionTrigger =
+  | { kind: 'initial' }
+  | { kind: 'refinement'; input: string }
+  /** from은 이 대안을 연 분석의 버전 번호입니다. 이전 버전에서 저장된 기록에는 없습니다. */
+  | { kind: 'alternative'; title: string; from?: number };
+
+export interface AnalysisVersion {
+  /** 1부터 시작하는 버전 번호 */
+  id: number;
+  analysis: AnalysisResult;
+  trigger: VersionTrigger;
+  createdAt: number;
+}
+
+/**
+ * 적응형 모드에서 지금까지의 답변을 바탕으로 생성된 한 라운드의 후속 질문입니다.
+ */
+export interface QuestionRound {
+  questions: Question[];
+  /** 모델이 충분한 정보를 얻었다고 판단해 질문을 마쳐도 되는지 여부 */
+  done: boolean;
+  /** 이번 라운드 이후에 더 필요할 것으로 예상되는 질문 수 */
+  estimatedRemaining: number;
+  /** 이후 답변으로 의미가 없어진 기존 질문의 id */
+  prunedQuestionIds: number[];
+}
+
+export interface AdaptiveProgress {
+  /** 지금까지 생성한 라운드 수 */
+  round: number;
+  done: boolean;
+  estimatedRemaining: number;
+}
+
+/**
+ * 한 번의 의사결정 세션에서 저장·복원이 필요한 상태입니다.
+ */
 export interface DecisionState {
   topic: string;
   questions: Question[];
-  answers: Record<number, string>;
+  answers: Record<number, Answer>;
   currentStep: number;
-  loading: boolean;
-  result: string | null;
-  error: string | null;
+  result: AnalysisResult | null;
+  /** 적응형 모드로 진행 중인 세션의 진행 상황. 고정 질문 세션에서는 비어있습니다. */
+  adaptive?: AdaptiveProgress;
+  /** 다시 요청하지 않고 오갈 수 있도록 고정해 둔 분석의 버전 번호 */
+  pinned?: number[];
+  /** 최초 분석부터 재분석·대안 분석까지 만들어진 모든 분석 버전 */
+  versions?: AnalysisVersion[];
+  /** 질문과 분석 결과를 받을 언어. 이전 버전의 세션에는 없으며 한국어로 간주합니다. */
+  language?: Language;
+  /** 그룹 모드의 참여자별 답변. 그룹 세션에서는 answers 대신 이 값을 사용합니다. */
+  participants?: Participant[];
+  /** 결과에 대해 나눈 후속 대화 */
+  chat?: ChatMessage[];
+  /** 실제로 내린 결정과 그 결과 */
+  outcome?: DecisionOutcome;
+  /** 실행 가이드 단계별 진행 상황 */
+  tasks?: StepTask[];
+  /** 질문 생성과 분석에 참고하는 첨부 자료 */
+  attachments?: Attachment[];
+}
+
+/**
+ * 로컬에 보관되는 의사결정 기록입니다. title은 기본적으로 topic이며 사용자가 바꿀 수 있습니다.
+ */
+export interface DecisionRecord extends DecisionState {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 반복되는 결정(채용, 업체 선정 등)에 다시 쓰는 질문 묶음입니다.
+ */
+export interface DecisionTemplate {
+  id: string;
+  name: string;
+  description: string;
+  questions: Question[];
+  /** 질문이 쓰인 언어. 앱에 들어있는 템플릿은 화면 언어에 맞는 것만 보여줍니다. */
+  language?: Language;
+  /** 앱에 기본으로 들어있는 템플릿은 삭제할 수 없습니다. */
+  builtIn?: boolean;
+  createdAt: number;
 }
 
 export enum AppStage {
   START = 'START',
   GENERATING_QUESTIONS = 'GENERATING_QUESTIONS',
+  EDITING_QUESTIONS = 'EDITING_QUESTIONS',
   ANSWERING = 'ANSWERING',
+  REVIEWING_ANSWERS = 'REVIEWING_ANSWERS',
   ANALYZING = 'ANALYZING',
   RESULT = 'RESULT'
 }
@@ -0,0 +1,500 @@
+import { MAX_WEIGHT, MIN_WEIGHT } from "./answers";
+import { InvalidOutputError } from "./errors";
+import { AdaptiveProgress, Alternative, AnalysisResult, Citation, ComparisonCriterion, ComparisonResult, ConsistencyIssue, DecisionScoring, GroupConflict, GroupInsight, NumericRange, ParticipantCaveat, Question, QuestionRound, QuestionType } from "./types";
+
+export const MIN_QUESTIONS = 5;
+export const MAX_QUESTIONS = 20;
+export const MIN_OPTIONS = 3;
+export const MAX_OPTIONS = 4;
+export const MIN_CRITERIA = 3;
+export const MAX_CRITERIA = 8;
+/** 적응형 모드에서 한 라운드에 생성하는 최대 질문 수 */
+export const MAX_ROUND_QUESTIONS = 4;
+/** 템플릿에 주제별로 덧붙이는 질문의 최대 수 */
+export const MAX_EXTENSION_QUESTIONS = 4;
+
+/**
+ * 모델 출력이 기대한 형식을 벗어났을 때 발생합니다.
+ * issues에는 재요청 프롬프트에 그대로 전달할 수 있는 구체적인 위반 사항이 담깁니다.
+ */
+export class ValidationError extends InvalidOutputError {
+  constructor(public readonly label: string, public readonly issues: string[]) {
+    super(`AI가 생성한 ${label} 형식이 올바르지 않습니다. (${issues[0]})`, issues);
+  }
+}
+
+/**
+ * 코드 펜스, 앞뒤 설명 문장 등을 걷어내고 JSON 본문만 파싱합니다.
+ */
+export const parseModelJSON = (text: string, label: string): unknown => {
+  let body = text.trim();
+  const fenced = body.match(/```(?:json|JSON)?\s*([\s\S]*?)```/);
+  if (fenced) body = fenced[1].trim();
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    // 앞뒤에 설명이 붙은 경우 가장 바깥쪽 JSON 블록만 잘라서 다시 시도합니다.
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(body.slice(start, end + 1));
+      } catch {
+        // 아래에서 ValidationError로 처리합니다.
+      }
+    }
+    throw new ValidationError(label, ["응답이 올바른 JSON이 아닙니다."]);
+  }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/**
+ * 문자열 배열에서 비어있거나 중복된 항목을 제거합니다.
+ */
+const cleanStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.map(cleanString).filter(item => {
+    if (!item || seen.has(item)) return false;
+    seen.add(item);
+    return true;
+  });
+};
+
+const QUESTION_TYPES: QuestionType[] = ['single', 'multi', 'text', 'number'];
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+
+/**
+ * number 질문의 범위를 정리합니다. step이 없거나 범위보다 크면 범위를 100등분한 값을 사용합니다.
+ */
+const normalizeRange = (item: Record<string, unknown>): NumericRange | null => {
+  const source = isRecord(item.range) ? item.range : item;
+  const min = toNumber(source.min);
+  const max = toNumber(source.max);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) return null;
+
+  let step = toNumber(source.step);
+  if (!Number.isFinite(step) || step <= 0 || step > max - min) step = (max - min) / 100;
+  const unit = cleanString(source.unit);
+  return { min, max, step, ...(unit && { unit }) };
+};
+
+/**
+ * 질문 항목들을 유형별 규칙에 맞게 정리합니다. 규칙을 어긴 항목은 건너뛰고 issues에 사유를 남깁니다.
+ */
+const normalizeQuestionList = (list: unknown[], issues: string[]): Question[] => {
+  const questions: Question[] = [];
+  list.forEach((item, index) => {
+    if (!isRecord(item)) {
+      issues.push(`${index + 1}번 질문이 객체가 아닙니다.`);
+      return;
+    }
+    const text = cleanString(item.text);
+    const rationale = cleanString(item.rationale);
+    const rawType = cleanString(item.type).toLowerCase() as QuestionType;
+    const type: QuestionType = QUESTION_TYPES.includes(rawType) ? rawType : 'single';
+    if (!text) {
+      issues.push(`${index + 1}번 질문의 text가 비어있습니다.`);
+      return;
+    }
+
+    if (type === 'text') {
+      questions.push({ id: questions.length + 1, type, text, options: [], ...(rationale && { rationale }) });
+      return;
+    }
+
+    if (type === 'number') {
+      const range = normalizeRange(item);
+      if (!range) {
+        issues.push(`${index + 1}번 질문 "${text}"은 number 유형이지만 min < max 인 범위가 없습니다.`);
+        return;
+      }
+      questions.push({ id: questions.length + 1, type, text, options: [], range, ...(rationale && { rationale }) });
+      return;
+    }
+
+    const options = cleanStringList(item.options).slice(0, MAX_OPTIONS);
+    if (options.length < MIN_OPTIONS) {
+      issues.push(`${index + 1}번 질문 "${text}"의 서로 다른 선택지가 ${options.length}개뿐입니다. ${MIN_OPTIONS}~${MAX_OPTIONS}개가 필요합니다.`);
+      return;
+    }
+    questions.push({
+      id: questions.length + 1,
+      type,
+      text,
+      options,
+      ...(item.allowOther === true && { allowOther: true }),
+      ...(rationale && { rationale })
+    });
+  });
+  return questions;
+};
+
+export const validateQuestions = (raw: unknown): Question[] => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.questions) ? raw.questions : null;
+  if (!list) throw new ValidationError('질문 목록', ["최상위 값이 질문 배열이 아닙니다."]);
+
+  const issues: string[] = [];
+  const questions = normalizeQuestionList(list, issues);
+  if (questions.length < MIN_QUESTIONS) {
+    issues.unshift(`유효한 질문이 ${questions.length}개뿐입니다. ${MIN_QUESTIONS}~${MAX_QUESTIONS}개가 필요합니다.`);
+    throw new ValidationError('질문 목록', issues);
+  }
+  return questions.slice(0, MAX_QUESTIONS);
+};
+
+/**
+ * 질문 하나를 다시 생성한 응답을 검증합니다. id는 호출한 쪽에서 원래 질문의 id로 맞춥니다.
+ */
+export const validateQuestion = (raw: unknown): Question => {
+  const item = isRecord(raw) && isRecord(raw.question) ? raw.question : raw;
+  const issues: string[] = [];
+  const [question] = normalizeQuestionList([item], issues);
+  if (!question) throw new ValidationError('질문', issues);
+  return question;
+};
+
+/**
+ * 템플릿에 덧붙일 주제별 질문을 검증합니다. 더 물을 것이 없다는 빈 목록은 허용하지만, 항목이 있는데 모두 규칙을 어기면 거부합니다.
+ */
+export const validateQuestionExtension = (raw: unknown): Question[] => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.questions) ? raw.questions : null;
+  if (!list) throw new ValidationError('추가 질문', ["최상위 값이 질문 배열이 아닙니다."]);
+
+  const issues: string[] = [];
+  const questions = normalizeQuestionList(list, issues);
+  if (list.length > 0 && questions.length === 0) throw new ValidationError('추가 질문', issues);
+  return questions.slice(0, MAX_EXTENSION_QUESTIONS);
+};
+
+/**
+ * 적응형 모드의 한 라운드 응답을 검증합니다. 아직 끝나지 않았다면 최소 한 개의 유효한 질문이 있어야 합니다.
+ */
+export const validateQuestionRound = (raw: unknown): QuestionRound => {
+  if (!isRecord(raw)) throw new ValidationError('후속 질문', ["최상위 값이 객체가 아닙니다."]);
+
+  const issues: string[] = [];
+  const questions = normalizeQuestionList(Array.isArray(raw.questions) ? raw.questions : [], issues)
+    .slice(0, MAX_ROUND_QUESTIONS);
+  const done = raw.done === true;
+  if (!done && questions.length === 0) {
+    issues.unshift("done이 false인데 유효한 후속 질문이 없습니다.");
+    throw new ValidationError('후속 질문', issues);
+  }
+
+  const remaining = toNumber(raw.estimatedRemaining);
+  const prunedQuestionIds = Array.isArray(raw.prunedQuestionIds)
+    ? raw.prunedQuestionIds.map(toNumber).filter(Number.isInteger)
+    : [];
+  return {
+    questions: done ? [] : questions,
+    done,
+    estimatedRemaining: done ? 0 : Number.isFinite(remaining) ? Math.max(0, Math.round(remaining)) : 0,
+    prunedQuestionIds
+  };
+};
+
+/**
+ * 답변 점검 결과를 검증합니다. 문제가 없다는 빈 목록은 허용하며, 질문지에 없는 id만 가리키는 항목은 버립니다.
+ */
+export const validateConsistency = (raw: unknown, questionIds: number[]): ConsistencyIssue[] => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.issues) ? raw.issues : null;
+  if (!list) throw new ValidationError('답변 점검 결과', ["issues 배열이 없습니다."]);
+
+  const knownIds = new Set(questionIds);
+  return list.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const kind = item.kind === 'contradiction' || item.kind === 'lowInformation' ? item.kind : null;
+    const message = cleanString(item.message);
+    const ids = Array.isArray(item.questionIds) ? item.questionIds.map(toNumber).filter(id => knownIds.has(id)) : [];
+    return kind && message && ids.length > 0 ? [{ kind, questionIds: Array.from(new Set(ids)), message }] : [];
+  });
+};
+
+/**
+ * 후속 질문에 대한 답을 꺼냅니다. 빈 답이면 다시 요청하도록 ValidationError를 던집니다.
+ */
+export const validateFollowUp = (raw: unknown): string => {
+  const answer = isRecord(raw) ? cleanString(raw.answer) : cleanString(raw);
+  if (!answer) throw new ValidationError('후속 답변', ["answer가 비어있습니다."]);
+  return answer;
+};
+
+/**
+ * 점수를 0~100 사이의 정수로 맞춥니다. 0~1 사이의 비율로 온 경우 백분율로 환산합니다.
+ */
+const normalizeScore = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  if (!Number.isFinite(parsed)) return null;
+  const percent = parsed > 0 && parsed < 1 ? parsed * 100 : parsed;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+};
+
+const normalizeAlternatives = (value: unknown): Alternative[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const title = cleanString(item.title);
+    if (!title || seen.has(title)) return [];
+    seen.add(title);
+    return [{ title, summary: cleanString(item.summary), whyThis: cleanString(item.whyThis) }];
+  });
+};
+
+/**
+ * 모델이 답변에서 도출한 기준 가중치와 선택지별 평가를 정리합니다. 추천안과 모든 대안이 모든 기준에 대해 평가되어 있어야 합니다.
+ * 예전 분석처럼 scoring이 아예 없으면 undefined를 돌려줍니다.
+ */
+const normalizeScoring = (value: unknown, optionTitles: string[], issues: string[]): DecisionScoring | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    issues.push("scoring이 객체가 아닙니다.");
+    return undefined;
+  }
+
+  const seenCriteria = new Set<string>();
+  const criteria = (Array.isArray(value.criteria) ? value.criteria : []).flatMap(item => {
+    if (!isRecord(item)) return [];
+    const name = cleanString(item.name);
+    const weight = toNumber(item.weight);
+    if (!name || seenCriteria.has(normalizeKey(name)) || !Number.isFinite(weight)) return [];
+    seenCriteria.add(normalizeKey(name));
+    const questionIds = Array.isArray(item.questionIds) ? item.questionIds.map(toNumber).filter(Number.isInteger) : [];
+    return [{ name, weight: Math.round(Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, weight)) * 10) / 10, questionIds }];
+  }).slice(0, MAX_CRITERIA);
+  if (criteria.length < MIN_CRITERIA) {
+    issues.push(`scoring의 서로 다른 기준이 ${criteria.length}개뿐입니다. ${MIN_CRITERIA}~${MAX_CRITERIA}개가 필요합니다.`);
+    return undefined;
+  }
+
+  const rawOptions = (Array.isArray(value.options) ? value.options : []).filter(isRecord);
+  const options = optionTitles.map(title => {
+    const match = rawOptions.find(option => normalizeKey(cleanString(option.title)) === normalizeKey(title));
+    if (!match) {
+      issues.push(`scoring에 선택지 "${title}"의 평가가 없습니다.`);
+      return { title, ratings: [] };
+    }
+    const ratings = (Array.isArray(match.ratings) ? match.ratings : []).filter(isRecord);
+    return {
+      title,
+      ratings: criteria.map(criterion => {
+        const rating = ratings.find(r => normalizeKey(cleanString(r.criterion)) === normalizeKey(criterion.name));
+        const score = rating ? toNumber(rating.score) : NaN;
+        if (!Number.isFinite(score)) {
+          issues.push(`scoring에서 선택지 "${title}"의 "${criterion.name}" 기준 점수가 없습니다.`);
+          return 0;
+        }
+        return Math.round(Math.min(10, Math.max(0, score)) * 10) / 10;
+      })
+    };
+  });
+  return { criteria, options };
+};
+
+export const validateAnalysis = (raw: unknown): AnalysisResult => {
+  if (!isRecord(raw)) throw new ValidationError('분석 결과', ["최상위 값이 객체가 아닙니다."]);
+
+  const issues: string[] = [];
+  const finalRecommendation = cleanString(raw.finalRecommendation);
+  const summary = cleanString(raw.summary);
+  if (!finalRecommendation) issues.push("finalRecommendation이 비어있습니다.");
+  if (!summary) issues.push("summary가 비어있습니다.");
+
+  const lists = {
+    reasoning: cleanStringList(raw.reasoning),
+    pros: cleanStringList(raw.pros),
+    cons: cleanStringList(raw.cons),
+    nextSteps: cleanStringList(raw.nextSteps)
+  };
+  (Object.keys(lists) as (keyof typeof lists)[]).forEach(key => {
+    if (lists[key].length === 0) issues.push(`${key} 배열이 비어있습니다.`);
+  });
+
+  const score = normalizeScore(raw.score);
+  if (score === null) issues.push("score가 0~100 사이의 숫자가 아닙니다.");
+
+  const alternatives = normalizeAlternatives(raw.alternatives).filter(alt => alt.title !== finalRecommendation);
+  const scoring = finalRecommendation
+    ? normalizeScoring(raw.scoring, [finalRecommendation, ...alternatives.map(alt => alt.title)], issues)
+    : undefined;
+
+  if (issues.length > 0) throw new ValidationError('분석 결과', issues);
+
+  const refinedInsight = cleanString(raw.refinedInsight);
+  return {
+    finalRecommendation,
+    summary,
+    ...lists,
+    score: score!,
+    alternatives,
+    ...(refinedInsight && { refinedInsight }),
+    ...(scoring && { scoring })
+  };
+};
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * 그룹 분석 결과를 검증합니다. 기본 분석 필드에 더해 모든 참여자에 대한 유의 사항이 있어야 하며,
+ * 충돌 항목은 실제 질문 id를, 유의 사항은 참여자 이름을 가리키는 것만 남깁니다.
+ */
+export const validateGroupAnalysis = (raw: unknown, questionIds: number[], participantNames: string[]): AnalysisResult => {
+  const analysis = validateAnalysis(raw);
+  const source = raw as Record<string, unknown>;
+  const group = validateGroupInsight({ conflicts: source.conflicts, caveats: source.participantCaveats }, questionIds, participantNames);
+
+  const issues = participantNames
+    .filter(name => !group.caveats.some(caveat => caveat.name === name))
+    .map(name => `참여자 "${name}"에 대한 participantCaveats 항목이 없습니다.`);
+  if (issues.length > 0) throw new ValidationError('그룹 분석 결과', issues);
+
+  return { ...analysis, group };
+};
+
+/**
+ * 그룹 분석의 충돌 항목과 참여자별 유의 사항을 검증합니다. 실제 질문 id를 가리키는 충돌과
+ * participantNames에 있는 참여자의 유의 사항만 남기며, 이름은 participantNames에 적힌 대로 맞춥니다.
+ */
+export const validateGroupInsight = (raw: unknown, questionIds: number[], participantNames: string[]): GroupInsight => {
+  if (!isRecord(raw)) throw new ValidationError('그룹 분석 결과', ["그룹 분석 항목이 객체가 아닙니다."]);
+
+  const knownIds = new Set(questionIds);
+  const conflicts: GroupConflict[] = (Array.isArray(raw.conflicts) ? raw.conflicts : []).flatMap(item => {
+    if (!isRecord(item)) return [];
+    const questionId = toNumber(item.questionId);
+    const summary = cleanString(item.summary);
+    return knownIds.has(questionId) && summary ? [{ questionId, summary }] : [];
+  });
+
+  const rawCaveats = (Array.isArray(raw.caveats) ? raw.caveats : []).filter(isRecord);
+  const caveats: ParticipantCaveat[] = participantNames.flatMap(name => {
+    const match = rawCaveats.find(item => normalizeKey(cleanString(item.name)) === normalizeKey(name));
+    const caveat = match ? cleanString(match.caveat) : '';
+    return caveat ? [{ name, caveat }] : [];
+  });
+
+  return { conflicts, caveats };
+};
+
+/**
+ * 저장된 적응형 질문 진행 상황을 검증합니다.
+ */
+export const validateAdaptiveProgress = (raw: unknown): AdaptiveProgress => {
+  if (!isRecord(raw)) throw new ValidationError('적응형 진행 상황', ["최상위 값이 객체가 아닙니다."]);
+  const round = toNumber(raw.round);
+  const remaining = toNumber(raw.estimatedRemaining);
+  if (!Number.isInteger(round) || round < 0) throw new ValidationError('적응형 진행 상황', ["round가 0 이상의 정수가 아닙니다."]);
+  if (typeof raw.done !== 'boolean') throw new ValidationError('적응형 진행 상황', ["done이 참/거짓 값이 아닙니다."]);
+  return {
+    round,
+    done: raw.done,
+    estimatedRemaining: Number.isFinite(remaining) ? Math.max(0, Math.round(remaining)) : 0
+  };
+};
+
+/** 인용 하나에 남기는 발췌문의 최대 길이 */
+const MAX_EXCERPT_LENGTH = 300;
+
+/**
+ * 분석 결과의 citations를 검증합니다. 모델은 reasoning을 1부터 매긴 번호로, 첨부는 라벨(A1 등)로 가리킵니다.
+ * 없는 번호나 라벨을 가리키는 항목과 중복은 버리고, 번호는 인덱스로, 라벨은 sources에 있는 파일 이름으로 바꿉니다.
+ */
+export const validateCitations = (raw: unknown, reasoningCount: number, sources: Record<string, string>): Citation[] => {
+  const list = isRecord(raw) && Array.isArray(raw.citations) ? raw.citations : [];
+  const labels = new Map(Object.entries(sources).map(([label, name]) => [normalizeKey(label), name]));
+  const seen = new Set<string>();
+  return list.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const reasoning = toNumber(item.reasoning) - 1;
+    const source = labels.get(normalizeKey(cleanString(item.attachment).replace(/^\[|\]$/g, '')));
+    const key = `${reasoning}:${source}`;
+    if (!Number.isInteger(reasoning) || reasoning < 0 || reasoning >= reasoningCount || !source || seen.has(key)) return [];
+    seen.add(key);
+    return [{ reasoning, source, excerpt: cleanString(item.excerpt).slice(0, MAX_EXCERPT_LENGTH) }];
+  });
+};
+
+/**
+ * 비교표를 검증합니다. 요청한 모든 선택지가 모든 기준에 대해 평가되어 있어야 하며,
+ * 결과는 optionTitles와 같은 순서로, 각 선택지의 평가는 criteria와 같은 순서로 정렬됩니다.
+ */
+export const validateComparison = (raw: unknown, optionTitles: string[]): ComparisonResult => {
+  if (!isRecord(raw)) throw new ValidationError('비교표', ["최상위 값이 객체가 아닙니다."]);
+
+  const issues: string[] = [];
+  const seenCriteria = new Set<string>();
+  const criteria: ComparisonCriterion[] = (Array.isArray(raw.criteria) ? raw.criteria : []).flatMap(item => {
+    if (!isRecord(item)) return [];
+    const name = cleanString(item.name);
+    if (!name || seenCriteria.has(normalizeKey(name))) return [];
+    seenCriteria.add(normalizeKey(name));
+    const questionIds = Array.isArray(item.questionIds) ? item.questionIds.map(toNumber).filter(Number.isInteger) : [];
+    return [{ name, description: cleanString(item.description), questionIds }];
+  }).slice(0, MAX_CRITERIA);
+  if (criteria.length < MIN_CRITERIA) {
+    throw new ValidationError('비교표', [`서로 다른 평가 기준이 ${criteria.length}개뿐입니다. ${MIN_CRITERIA}~${MAX_CRITERIA}개가 필요합니다.`]);
+  }
+
+  const rawOptions = (Array.isArray(raw.options) ? raw.options : []).filter(isRecord);
+  const options = optionTitles.map(title => {
+    const match = rawOptions.find(option => normalizeKey(cleanString(option.title)) === normalizeKey(title));
+    if (!match) {
+      issues.push(`선택지 "${title}"에 대한 평가가 없습니다.`);
+      return { title, cells: [], total: 0 };
+    }
+    const ratings = (Array.isArray(match.ratings) ? match.ratings : []).filter(isRecord);
+    const cells = criteria.map(criterion => {
+      const rating = ratings.find(r => normalizeKey(cleanString(r.criterion)) === normalizeKey(criterion.name));
+      const score = rating ? toNumber(rating.score) : NaN;
+      if (!Number.isFinite(score)) {
+        issues.push(`선택지 "${title}"의 "${criterion.name}" 기준 점수가 없습니다.`);
+        return { score: 0, rationale: '' };
+      }
+      return { score: Math.round(Math.min(10, Math.max(0, score)) * 10) / 10, rationale: cleanString(rating!.rationale) };
+    });
+    const total = Math.round(cells.reduce((sum, cell) => sum + cell.score, 0) / cells.length * 10);
+    return { title, cells, total };
+  });
+
+  if (issues.length > 0) throw new ValidationError('비교표', issues);
+  return { criteria, options };
+};
+
+/**
+ * 스트리밍 중인 분석 결과에서 화면에 보여줄 수 있는 필드만 골라냅니다. 검증은 응답이 끝난 뒤에 합니다.
+ */
+export const readPartialAnalysis = (raw: unknown): Partial<AnalysisResult> => {
+  if (!isRecord(raw)) return {};
+  const partial: Partial<AnalysisResult> = {};
+  const finalRecommendation = cleanString(raw.finalRecommendation);
+  const summary = cleanString(raw.summary);
+  if (finalRecommendation) partial.finalRecommendation = finalRecommendation;
+  if (summary) partial.summary = summary;
+  for (const key of ['reasoning', 'pros', 'cons', 'nextSteps'] as const) {
+    if (Array.isArray(raw[key])) partial[key] = cleanStringList(raw[key]);
+  }
+  return partial;
+};
+
+/**
+ * 스트리밍 중인 후속 답변에서 지금까지 도착한 answer 문자열을 꺼냅니다.
+ */
+export const readPartialFollowUp = (raw: unknown): string =>
+  isRecord(raw) && typeof raw.answer === 'string' ? raw.answer : '';
+
+/**
+ * 스트리밍 중인 질문 목록에서 지금까지 작성된 질문 문장을 골라냅니다.
+ */
+export const readPartialQuestions = (raw: unknown): string[] => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) ? raw.items ?? raw.questions : null;
+  return Array.isArray(list) ? list.filter(isRecord).map(item => cleanString(item.text)).filter(Boolean) : [];
+};
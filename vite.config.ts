@@ -1,12 +1,29 @@
-
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// 브라우저에서 모델을 직접 부르는 공급자(gemini, openai)를 기본으로 쓸 때만 키를 번들에 넣습니다.
+// 기본값인 앱 서버(server/)를 쓰면 키는 서버 프로세스의 환경 변수에만 있습니다.
+const clientProvider = process.env.CLIENT_LLM_PROVIDER || 'server';
+const exposeKeys = clientProvider === 'gemini' || clientProvider === 'openai';
+
 export default defineConfig({
   plugins: [react()],
   define: {
     // 환경 변수가 빌드 시점에 주입되거나 런타임에 참조될 수 있도록 정의합니다.
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+    'process.env.API_KEY': JSON.stringify(exposeKeys ? process.env.API_KEY : undefined),
+    // 화면이 기본으로 쓸 모델 공급자와 모델입니다. 화면의 '모델 설정'에서 바꾼 값이 우선합니다.
+    'process.env.LLM_PROVIDER': JSON.stringify(clientProvider),
+    'process.env.LLM_MODEL': JSON.stringify(clientProvider === 'server' ? undefined : process.env.LLM_MODEL),
+    'process.env.OPENAI_BASE_URL': JSON.stringify(exposeKeys ? process.env.OPENAI_BASE_URL : undefined),
+    'process.env.OPENAI_API_KEY': JSON.stringify(exposeKeys ? process.env.OPENAI_API_KEY : undefined),
+    // 일시적인 오류에 대한 최대 시도 횟수(기본 3)
+    'process.env.LLM_MAX_RETRIES': JSON.stringify(process.env.LLM_MAX_RETRIES)
+  },
+  server: {
+    // 개발 중에는 /api 요청을 로컬 앱 서버(npm run server)로 넘깁니다.
+    proxy: {
+      '/api': `http://127.0.0.1:${process.env.PORT || 8787}`
+    }
   },
   build: {
     outDir: 'dist',